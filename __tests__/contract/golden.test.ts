@@ -155,6 +155,8 @@ describe.skipIf(!dbExists)(`Contract tests: ${fixture.mcp_name}`, () => {
     const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
     await server.connect(serverTransport);
     await mcpClient.connect(clientTransport);
+    // Caches each tool's outputSchema, so the client checks every structuredContent below
+    await mcpClient.listTools();
   }, 30_000);
 
   afterAll(() => {
@@ -6,6 +6,9 @@ import { join } from 'path';
 import { existsSync, copyFileSync, rmSync } from 'fs';
 
 import { registerTools } from '../src/tools/registry.js';
+import { registerResources } from '../src/resources/registry.js';
+import { registerPrompts } from '../src/prompts/registry.js';
+import { registerCompletions } from '../src/completions/registry.js';
 import { MCP_SERVER_NAME, MCP_SERVER_VERSION } from '../src/server-metadata.js';
 
 const SOURCE_DB = process.env.SLOVENIAN_LAW_DB_PATH
@@ -61,10 +64,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const server = new Server(
       { name: MCP_SERVER_NAME, version: MCP_SERVER_VERSION },
-      { capabilities: { tools: {} } }
+      { capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} } }
     );
 
     registerTools(server, database);
+    registerResources(server, database);
+    registerPrompts(server);
+    registerCompletions(server, database);
 
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: undefined,
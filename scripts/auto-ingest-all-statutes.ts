@@ -152,6 +152,19 @@ function stripHtml(html: string): string {
   return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/\u00a0/g, ' ').trim();
 }
 
+/**
+ * The NPB header cites every publication of the statute in the Uradni list,
+ * e.g. "(Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT ...)".
+ */
+function extractGazetteCitation(blocks: PISContentBlock[]): string | undefined {
+  for (const block of blocks) {
+    if (block.struktura !== 'npb' && block.struktura !== 'naslov') continue;
+    const match = stripHtml(block.vsebina).replace(/\s+/g, ' ').match(/Uradni list RS, št\.[^)]*/);
+    if (match) return match[0].trim();
+  }
+  return undefined;
+}
+
 function mapStatus(semafor: { id: number; naziv: string } | null, veljaDo: string | null): string {
   if (!semafor) return 'in_force';
   const name = semafor.naziv.toLowerCase();
@@ -292,6 +305,7 @@ async function ingestStatute(zunanjiId: string, label: string, force: boolean):
 
   // 2. Full text
   let provisions: ParsedProvision[] = [];
+  let gazetteCitation: string | undefined;
 
   if (npbVersions.length > 0) {
     const latestNpb = npbVersions.reduce((best: any, v: any) => {
@@ -308,12 +322,17 @@ async function ingestStatute(zunanjiId: string, label: string, force: boolean):
 
     if (blocks.length > 0) {
       provisions = parseContentBlocks(blocks, zunanjiId);
+      gazetteCitation = extractGazetteCitation(blocks);
     }
   }
 
   // 3. Write seed
   const status = mapStatus(ep.semafor, ep.veljaDo);
   const docType = mapDocType(ep.vrstaAkta);
+  // Abbreviations in common use that PIS does not record are kept across re-ingests
+  const aliases: string[] | undefined = fs.existsSync(seedPath)
+    ? JSON.parse(fs.readFileSync(seedPath, 'utf-8')).documents?.[0]?.aliases
+    : undefined;
 
   const seedData = {
     documents: [{
@@ -322,10 +341,12 @@ async function ingestStatute(zunanjiId: string, label: string, force: boolean):
       title: ep.naslov,
       title_en: ep.naslovAng ?? undefined,
       short_name: ep.kratica ?? undefined,
+      aliases,
       status,
       issued_date: ep.objavljeno ?? ep.sprejeto ?? undefined,
       in_force_date: ep.veljaOd ?? undefined,
       url: `https://pisrs.si/pregledPredpisa?id=${zunanjiId}`,
+      gazette_citation: gazetteCitation,
     }],
     provisions,
   };
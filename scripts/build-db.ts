@@ -12,6 +12,14 @@ import Database from '@ansvar/mcp-sqlite';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { collectDocumentAliases } from '../src/utils/document-aliases.js';
+import { stemText } from '../src/utils/slovenian-stemmer.js';
+import { trainVectorModel } from '../src/utils/vector-model.js';
+import {
+  amendedStatuteAbbreviation, extractAmendmentReferences, extractPublicationNotes, extractQuotedGazetteCitations,
+  parseGazetteCitation, parseGazetteIssue, type GazetteCitationEntry,
+} from '../src/parsers/amendment-parser.js';
+import { parseProvisionUnits } from '../src/utils/provision-units.js';
 
 // ---------------------------------------------------------------------------
 // Paths
@@ -43,6 +51,17 @@ CREATE TABLE legal_documents (
   last_updated TEXT DEFAULT (datetime('now'))
 );
 
+-- Statute aliases: PIS kratica, PIS ID, title slug and legacy abbreviations
+CREATE TABLE document_aliases (
+  alias TEXT NOT NULL COLLATE NOCASE,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  alias_type TEXT NOT NULL
+    CHECK(alias_type IN ('short_name', 'pis_id', 'slug', 'legacy')),
+  UNIQUE(alias, document_id)
+);
+
+CREATE INDEX idx_document_aliases_document ON document_aliases(document_id);
+
 CREATE TABLE legal_provisions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -59,6 +78,25 @@ CREATE TABLE legal_provisions (
 CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
 CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
 
+-- Addressable sub-units of each člen: odstavek, točka, podtočka, alineja
+CREATE TABLE provision_units (
+  id INTEGER PRIMARY KEY,
+  provision_id INTEGER NOT NULL REFERENCES legal_provisions(id),
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('paragraph', 'point', 'subpoint', 'indent')),
+  label TEXT,
+  paragraph TEXT NOT NULL,
+  point TEXT,
+  subpoint TEXT,
+  indent INTEGER,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX idx_provision_units_provision ON provision_units(provision_id);
+CREATE INDEX idx_provision_units_ref ON provision_units(document_id, provision_ref, paragraph, point);
+
 CREATE VIRTUAL TABLE provisions_fts USING fts5(
   content, title,
   content='legal_provisions',
@@ -83,6 +121,15 @@ CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
   VALUES (new.id, new.content, new.title);
 END;
 
+-- Stemmed shadow index over the same rows, filled by buildStemmedIndexes().
+-- Terms are Slovenian stems; snippet() still reads the original text.
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title,
+  content='legal_provisions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
 CREATE TABLE legal_provision_versions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -123,6 +170,13 @@ CREATE TRIGGER provision_versions_au AFTER UPDATE ON legal_provision_versions BE
   VALUES (new.id, new.content, new.title);
 END;
 
+CREATE VIRTUAL TABLE provision_versions_stem_fts USING fts5(
+  content, title,
+  content='legal_provision_versions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
 CREATE TABLE case_law (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL UNIQUE REFERENCES legal_documents(id),
@@ -153,6 +207,13 @@ CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
   VALUES ('delete', old.id, old.summary, old.keywords);
 END;
 
+CREATE VIRTUAL TABLE case_law_stem_fts USING fts5(
+  summary, keywords,
+  content='case_law',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
 CREATE TABLE preparatory_works (
   id INTEGER PRIMARY KEY,
   statute_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -182,6 +243,13 @@ CREATE TRIGGER prep_works_ad AFTER DELETE ON preparatory_works BEGIN
   VALUES ('delete', old.id, old.title, old.summary);
 END;
 
+CREATE VIRTUAL TABLE prep_works_stem_fts USING fts5(
+  title, summary,
+  content='preparatory_works',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
 CREATE TABLE cross_references (
   id INTEGER PRIMARY KEY,
   source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -195,6 +263,45 @@ CREATE TABLE cross_references (
 CREATE INDEX idx_xref_source ON cross_references(source_document_id);
 CREATE INDEX idx_xref_target ON cross_references(target_document_id);
 
+-- Dated amendment history: one row per amending act, per statute or per člen
+CREATE TABLE amendments (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  amending_act TEXT,
+  amending_document_id TEXT REFERENCES legal_documents(id),
+  uradni_list_ref TEXT,
+  gazette_year INTEGER,
+  gazette_issue INTEGER,
+  published_date TEXT,
+  effective_date TEXT,
+  amendment_type TEXT NOT NULL
+    CHECK(amendment_type IN ('nov', 'spremenjen', 'dodan', 'črtan', 'razveljavljen', 'popravek', 'upb')),
+  source TEXT NOT NULL
+    CHECK(source IN ('seed', 'gazette_citation', 'provision_note', 'version_history')),
+  raw_text TEXT
+);
+
+CREATE INDEX idx_amendments_document ON amendments(document_id, provision_ref);
+
+-- Uradni list index: the statutes each gazette issue published, amended, corrected or annulled
+CREATE TABLE gazette_index (
+  id INTEGER PRIMARY KEY,
+  uradni_list_ref TEXT NOT NULL,
+  gazette_year INTEGER NOT NULL,
+  gazette_issue INTEGER NOT NULL,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  publication_type TEXT NOT NULL
+    CHECK(publication_type IN ('original', 'amendment', 'correction', 'decision', 'consolidated')),
+  act TEXT,
+  act_document_id TEXT REFERENCES legal_documents(id),
+  published_date TEXT,
+  source TEXT NOT NULL CHECK(source IN ('amendment_history', 'provision_note')),
+  UNIQUE(gazette_year, gazette_issue, document_id, publication_type)
+);
+
+CREATE INDEX idx_gazette_issue ON gazette_index(gazette_year, gazette_issue);
+
 CREATE TABLE definitions (
   id INTEGER PRIMARY KEY,
   document_id TEXT NOT NULL REFERENCES legal_documents(id),
@@ -222,6 +329,13 @@ CREATE TRIGGER definitions_ad AFTER DELETE ON definitions BEGIN
   VALUES ('delete', old.id, old.term, old.definition);
 END;
 
+CREATE VIRTUAL TABLE definitions_stem_fts USING fts5(
+  term, definition,
+  content='definitions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
 CREATE TABLE IF NOT EXISTS eu_documents (
   id TEXT PRIMARY KEY,
   type TEXT NOT NULL CHECK(type IN ('directive', 'regulation', 'decision')),
@@ -289,6 +403,21 @@ interface DocumentSeed {
   in_force_date?: string;
   url?: string;
   description?: string;
+  /** Extra abbreviations this statute is cited by, beyond its PIS kratica */
+  aliases?: string[];
+  /** Gazette citation as printed in PIS, e.g. "Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT" */
+  gazette_citation?: string;
+  /** Amendments with known dates or articles; these take precedence over gazette_citation entries */
+  amendments?: AmendmentSeed[];
+}
+
+interface AmendmentSeed {
+  provision_ref?: string;
+  amending_act?: string;
+  uradni_list_ref?: string;
+  published_date?: string;
+  effective_date?: string;
+  amendment_type: string;
 }
 
 interface ProvisionSeed {
@@ -418,6 +547,508 @@ function readSeedFiles(): SeedFile[] {
 // Main
 // ---------------------------------------------------------------------------
 
+// ---------------------------------------------------------------------------
+// Stemmed indexes
+// ---------------------------------------------------------------------------
+
+const STEMMED_INDEXES: { table: string; source: string; columns: [string, string] }[] = [
+  { table: 'provisions_stem_fts', source: 'legal_provisions', columns: ['content', 'title'] },
+  { table: 'provision_versions_stem_fts', source: 'legal_provision_versions', columns: ['content', 'title'] },
+  { table: 'case_law_stem_fts', source: 'case_law', columns: ['summary', 'keywords'] },
+  { table: 'prep_works_stem_fts', source: 'preparatory_works', columns: ['title', 'summary'] },
+  { table: 'definitions_stem_fts', source: 'definitions', columns: ['term', 'definition'] },
+];
+
+/**
+ * Build the amendment history from, in order of precedence: dated seed
+ * entries, the statute's gazette citation, PIS publication notes in provision
+ * text ("Zakon o spremembi ... – OZ-A (Uradni list RS, št. 40/07) vsebuje ..."),
+ * the issue lists other provisions quote for the statute ("Zakon o delovnih
+ * razmerjih (Uradni list RS, št. 21/13, 78/13 – popr., ...)"), amendment
+ * notes ("Spremenjen z zakonom, Ur. l. RS, št. ...") and dated provision
+ * versions. A statute whose original publication none of these
+ * name is dated by its seed's issued and in-force dates. Amending acts cited
+ * by abbreviation are linked to their documents through the alias registry.
+ */
+function buildAmendmentHistory(
+  db: InstanceType<typeof Database>,
+  documents: DocumentSeed[],
+  quotedCitations: Map<string, GazetteCitationEntry[]>,
+): number {
+  const insert = db.prepare(`
+    INSERT INTO amendments (document_id, provision_ref, amending_act, uradni_list_ref, gazette_year, gazette_issue,
+      published_date, effective_date, amendment_type, source, raw_text)
+    VALUES (@document_id, @provision_ref, @amending_act, @uradni_list_ref, @gazette_year, @gazette_issue,
+      @published_date, @effective_date, @amendment_type, @source, @raw_text)
+  `);
+  const resolveAlias = db.prepare('SELECT document_id FROM document_aliases WHERE alias = ? LIMIT 1');
+  const provisions = db.prepare(
+    'SELECT document_id, provision_ref, content FROM legal_provisions ORDER BY id',
+  ).all() as { document_id: string; provision_ref: string; content: string }[];
+  const provisionsByDocument = new Map<string, typeof provisions>();
+  for (const provision of provisions) {
+    const list = provisionsByDocument.get(provision.document_id) ?? [];
+    list.push(provision);
+    provisionsByDocument.set(provision.document_id, list);
+  }
+  let count = 0;
+
+  for (const doc of documents) {
+    // Keyed by issue, since "33/91-I" and "33/91" name the same publication
+    const recorded = new Set<string>();
+    let hasOriginal = false;
+    for (const amendment of doc.amendments ?? []) {
+      const issue = amendment.uradni_list_ref ? parseGazetteIssue(amendment.uradni_list_ref) : null;
+      insert.run({
+        document_id: doc.id, provision_ref: amendment.provision_ref ?? null,
+        amending_act: amendment.amending_act ?? null, uradni_list_ref: amendment.uradni_list_ref ?? null,
+        gazette_year: issue?.year ?? null, gazette_issue: issue?.issue ?? null,
+        published_date: amendment.published_date ?? null, effective_date: amendment.effective_date ?? null,
+        amendment_type: amendment.amendment_type, source: 'seed', raw_text: null,
+      });
+      if (issue) recorded.add(`${issue.issue}/${issue.year}`);
+      hasOriginal ||= amendment.amendment_type === 'nov';
+      count++;
+    }
+
+    for (const entry of doc.gazette_citation ? parseGazetteCitation(doc.gazette_citation) : []) {
+      if (recorded.has(`${entry.issue}/${entry.year}`)) continue;
+      // The original publication carries the statute's own dates
+      const isOriginal = entry.amendment_type === 'nov' && doc.issued_date?.startsWith(String(entry.year));
+      insert.run({
+        document_id: doc.id, provision_ref: null,
+        amending_act: entry.amending_act ?? null, uradni_list_ref: entry.uradni_list_ref,
+        gazette_year: entry.year, gazette_issue: entry.issue,
+        published_date: isOriginal ? doc.issued_date : null,
+        effective_date: isOriginal ? doc.in_force_date ?? null : null,
+        amendment_type: entry.amendment_type, source: 'gazette_citation', raw_text: entry.raw_text,
+      });
+      recorded.add(`${entry.issue}/${entry.year}`);
+      hasOriginal ||= entry.amendment_type === 'nov';
+      count++;
+    }
+
+    // PIS prints the closing provisions of the statute and of each amending act under a note naming its issue
+    for (const provision of provisionsByDocument.get(doc.id) ?? []) {
+      for (const note of extractPublicationNotes(provision.content)) {
+        if (recorded.has(`${note.issue}/${note.year}`)) continue;
+        const isOriginal = !note.is_decision && note.abbreviation !== undefined
+          && (resolveAlias.get(note.abbreviation) as { document_id: string } | undefined)?.document_id === doc.id;
+        // "Odločba o delni razveljavitvi 1060. člena ..." names the article it annulled
+        const annulled = note.is_decision ? note.title.match(/(\d+)\.\s*(?:([a-zčšž])\s+)?člena/) : null;
+        insert.run({
+          document_id: doc.id,
+          provision_ref: annulled ? (annulled[2] ? `${annulled[1]}.${annulled[2]}` : annulled[1]) : null,
+          amending_act: note.is_decision ? 'odl. US' : isOriginal ? null : note.abbreviation ?? null,
+          uradni_list_ref: note.uradni_list_ref, gazette_year: note.year, gazette_issue: note.issue,
+          published_date: isOriginal ? doc.issued_date ?? null : null,
+          effective_date: isOriginal ? doc.in_force_date ?? null : null,
+          amendment_type: note.is_decision ? 'razveljavljen' : isOriginal ? 'nov' : 'spremenjen',
+          source: 'provision_note', raw_text: note.raw_text,
+        });
+        recorded.add(`${note.issue}/${note.year}`);
+        hasOriginal ||= isOriginal;
+        count++;
+      }
+    }
+
+    for (const entry of quotedCitations.get(doc.id) ?? []) {
+      if (recorded.has(`${entry.issue}/${entry.year}`)) continue;
+      const isOriginal = entry.amendment_type === 'nov';
+      insert.run({
+        document_id: doc.id, provision_ref: null,
+        amending_act: entry.amending_act ?? null, uradni_list_ref: entry.uradni_list_ref,
+        gazette_year: entry.year, gazette_issue: entry.issue,
+        published_date: isOriginal ? doc.issued_date ?? null : null,
+        effective_date: isOriginal ? doc.in_force_date ?? null : null,
+        amendment_type: entry.amendment_type, source: 'provision_note', raw_text: entry.raw_text,
+      });
+      recorded.add(`${entry.issue}/${entry.year}`);
+      hasOriginal ||= isOriginal;
+      count++;
+    }
+
+    if (!hasOriginal && (doc.type === 'statute' || doc.type === 'constitutional') && (doc.issued_date || doc.in_force_date)) {
+      insert.run({
+        document_id: doc.id, provision_ref: null, amending_act: null, uradni_list_ref: null,
+        gazette_year: null, gazette_issue: null,
+        published_date: doc.issued_date ?? null, effective_date: doc.in_force_date ?? null,
+        amendment_type: 'nov', source: 'seed', raw_text: null,
+      });
+      count++;
+    }
+  }
+
+  for (const provision of provisions) {
+    for (const reference of extractAmendmentReferences(provision.content)) {
+      const issue = reference.uradni_list_ref ? parseGazetteIssue(reference.uradni_list_ref) : null;
+      insert.run({
+        document_id: provision.document_id, provision_ref: provision.provision_ref,
+        amending_act: null, uradni_list_ref: reference.uradni_list_ref ?? null,
+        gazette_year: issue?.year ?? null, gazette_issue: issue?.issue ?? null,
+        published_date: null, effective_date: null,
+        amendment_type: reference.amendment_type, source: 'provision_note', raw_text: reference.raw_text,
+      });
+      count++;
+    }
+  }
+
+  // Every dated version after a provision's first one records an amendment taking effect
+  const versions = db.prepare(`
+    SELECT document_id, provision_ref, valid_from,
+      ROW_NUMBER() OVER (PARTITION BY document_id, provision_ref ORDER BY valid_from, id) AS position
+    FROM legal_provision_versions
+    WHERE valid_from IS NOT NULL
+  `).all() as { document_id: string; provision_ref: string; valid_from: string; position: number }[];
+  for (const version of versions) {
+    if (version.position === 1) continue;
+    insert.run({
+      document_id: version.document_id, provision_ref: version.provision_ref,
+      amending_act: null, uradni_list_ref: null, gazette_year: null, gazette_issue: null,
+      published_date: null, effective_date: version.valid_from,
+      amendment_type: 'spremenjen', source: 'version_history', raw_text: null,
+    });
+    count++;
+  }
+
+  db.prepare(`
+    UPDATE amendments SET amending_document_id = (
+      SELECT document_id FROM document_aliases WHERE alias = amendments.amending_act LIMIT 1
+    )
+    WHERE amending_act IS NOT NULL
+  `).run();
+
+  return count;
+}
+
+/**
+ * A statute's title in any grammatical case, at the end of a text: the words
+ * before the first preposition decline ("Zakona o sodiščih", "Obligacijskega
+ * zakonika"), the rest do not
+ */
+function inflectedTitlePattern(title: string): RegExp {
+  const words = title.replace(/\s*\([^)]*\)\s*$/, '').split(/\s+/);
+  const declined = words.findIndex(word => /^(?:o|za|v|na|pri|in)$/.test(word));
+  const parts = words.map((word, i) => {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return declined === -1 || i < declined ? `${escaped.replace(/[aeiou]$/i, '')}[a-zčšž]{0,3}` : escaped;
+  });
+  return new RegExp(`(?:^|[\\s,(])(${parts.join('\\s+')})$`, 'i');
+}
+
+/**
+ * Gazette citations of the database's statutes quoted in provision text
+ * ("Zakon o delovnih razmerjih (Uradni list RS, št. 21/13, 78/13 – popr.,
+ * ...)"), merged per statute in publication order. Predecessors often share
+ * a title (ZVOP-1 and ZVOP-2 are both "Zakon o varstvu osebnih podatkov"), so
+ * a quote is dropped when it introduces another abbreviation or starts before
+ * the statute was issued; quotes naming an amending act ("Zakona o spremembah
+ * ... Zakona o sodiščih") are skipped too. A first entry that is not the
+ * statute's original publication counts as an amendment. A novela named
+ * after the statute it amends ("63/13 – ZS-K") is recorded for that statute
+ * whichever act's list quotes it.
+ */
+function collectQuotedGazetteCitations(
+  db: InstanceType<typeof Database>,
+  documents: DocumentSeed[],
+): Map<string, GazetteCitationEntry[]> {
+  const statutes = documents
+    .filter(doc => doc.type === 'statute' || doc.type === 'constitutional')
+    .map(doc => {
+      const original = doc.gazette_citation ? parseGazetteCitation(doc.gazette_citation)[0] : undefined;
+      return {
+        doc,
+        pattern: inflectedTitlePattern(doc.title),
+        original,
+        issuedYear: original?.year ?? (doc.issued_date ? parseInt(doc.issued_date.slice(0, 4), 10) : null),
+        abbreviations: new Set([doc.short_name, ...(doc.aliases ?? [])].filter(Boolean)),
+      };
+    });
+  const resolveAlias = db.prepare('SELECT document_id FROM document_aliases WHERE alias = ? LIMIT 1');
+  const provisions = db.prepare(
+    "SELECT content FROM legal_provisions WHERE content LIKE '%Uradni list RS%' OR content LIKE '%Ur. l. RS%' ORDER BY id",
+  ).all() as { content: string }[];
+
+  const merged = new Map<string, Map<string, GazetteCitationEntry>>();
+  const record = (documentId: string, entry: GazetteCitationEntry, isOriginal: boolean): void => {
+    const known = merged.get(documentId) ?? new Map<string, GazetteCitationEntry>();
+    const key = `${entry.issue}/${entry.year}`;
+    if (!known.has(key)) {
+      known.set(key, entry.amendment_type === 'nov' && !isOriginal ? { ...entry, amendment_type: 'spremenjen' } : entry);
+    }
+    merged.set(documentId, known);
+  };
+  for (const provision of provisions) {
+    for (const quote of extractQuotedGazetteCitations(provision.content)) {
+      const entries = parseGazetteCitation(quote.citation);
+      if (entries.length === 0) continue;
+      const [first] = entries;
+
+      // "63/13 – ZS-K" in any act's issue list amended ZS
+      for (const entry of entries) {
+        const amended = entry.amending_act ? amendedStatuteAbbreviation(entry.amending_act) : null;
+        const documentId = amended
+          ? (resolveAlias.get(amended) as { document_id: string } | undefined)?.document_id
+          : undefined;
+        if (documentId) record(documentId, entry, false);
+      }
+
+      for (const statute of statutes) {
+        const title = quote.preceding.match(statute.pattern);
+        if (!title) continue;
+        if (/(?:sprememb|dopolnit|razveljavit)[a-zčšž]*(?:\s+in\s+[a-zčšž]+)?\s*$/i
+          .test(quote.preceding.slice(0, title.index! + title[0].length - title[1].length))) continue;
+        if (quote.abbreviation && !statute.abbreviations.has(quote.abbreviation)) continue;
+
+        const predates = statute.original
+          ? first.year < statute.original.year || first.year === statute.original.year && first.issue < statute.original.issue
+          : statute.issuedYear !== null && first.year < statute.issuedYear;
+        if (predates || statute.issuedYear === null && !quote.abbreviation) continue;
+
+        for (const entry of entries) {
+          record(statute.doc.id, entry, statute.original
+            ? entry.year === statute.original.year && entry.issue === statute.original.issue
+            : entry === first);
+        }
+      }
+    }
+  }
+
+  return new Map([...merged].map(([documentId, entries]) => [
+    documentId,
+    [...entries.values()].sort((a, b) => a.year - b.year || a.issue - b.issue),
+  ]));
+}
+
+const GAZETTE_PUBLICATION_TYPES: Record<string, string> = {
+  nov: 'original',
+  spremenjen: 'amendment',
+  dodan: 'amendment',
+  'črtan': 'amendment',
+  razveljavljen: 'amendment',
+  popravek: 'correction',
+  upb: 'consolidated',
+};
+
+/**
+ * Index every Uradni list issue by the statutes it published, amended,
+ * corrected or annulled: from the amendment history (gazette citations and
+ * amendment notes) and from PIS publication notes in provision text
+ * ("Zakon o spremembi ... – OZ-A (Uradni list RS, št. 40/07) vsebuje ..."),
+ * and from the issue lists provisions quote for other acts. An amending act that is itself in the
+ * database is also indexed as that act's original publication.
+ */
+function buildGazetteIndex(
+  db: InstanceType<typeof Database>,
+  quotedCitations: Map<string, GazetteCitationEntry[]>,
+): number {
+  const insert = db.prepare(`
+    INSERT INTO gazette_index (uradni_list_ref, gazette_year, gazette_issue, document_id, publication_type,
+      act, act_document_id, published_date, source)
+    VALUES (@uradni_list_ref, @gazette_year, @gazette_issue, @document_id, @publication_type,
+      @act, @act_document_id, @published_date, @source)
+    ON CONFLICT(gazette_year, gazette_issue, document_id, publication_type) DO UPDATE SET
+      act = COALESCE(act, excluded.act),
+      act_document_id = COALESCE(act_document_id, excluded.act_document_id),
+      published_date = COALESCE(published_date, excluded.published_date)
+  `);
+  const resolveAlias = db.prepare('SELECT document_id FROM document_aliases WHERE alias = ? LIMIT 1');
+
+  const amendments = db.prepare(`
+    SELECT document_id, amending_act, amending_document_id, uradni_list_ref, gazette_year, gazette_issue,
+      published_date, amendment_type, raw_text
+    FROM amendments
+    WHERE gazette_year IS NOT NULL AND gazette_issue IS NOT NULL
+    ORDER BY id
+  `).all() as {
+    document_id: string; amending_act: string | null; amending_document_id: string | null;
+    uradni_list_ref: string; gazette_year: number; gazette_issue: number;
+    published_date: string | null; amendment_type: string; raw_text: string | null;
+  }[];
+  for (const amendment of amendments) {
+    // Annulments by the Ustavno sodišče rather than by a later statute
+    const isDecision = amendment.amendment_type === 'razveljavljen'
+      && (amendment.amending_act === 'odl. US' || /odločb/i.test(amendment.raw_text ?? ''));
+    const publicationType = isDecision ? 'decision' : GAZETTE_PUBLICATION_TYPES[amendment.amendment_type];
+    insert.run({
+      uradni_list_ref: amendment.uradni_list_ref, gazette_year: amendment.gazette_year,
+      gazette_issue: amendment.gazette_issue, document_id: amendment.document_id,
+      publication_type: publicationType, act: amendment.amending_act,
+      act_document_id: amendment.amending_document_id,
+      published_date: publicationType === 'original' ? amendment.published_date : null,
+      source: 'amendment_history',
+    });
+  }
+
+  for (const [documentId, entries] of quotedCitations) {
+    for (const entry of entries) {
+      const publicationType = entry.amending_act === 'odl. US'
+        ? 'decision'
+        : GAZETTE_PUBLICATION_TYPES[entry.amendment_type];
+      insert.run({
+        uradni_list_ref: entry.uradni_list_ref, gazette_year: entry.year, gazette_issue: entry.issue,
+        document_id: documentId, publication_type: publicationType,
+        act: publicationType === 'original' ? null : entry.amending_act ?? null,
+        act_document_id: entry.amending_act
+          ? (resolveAlias.get(entry.amending_act) as { document_id: string } | undefined)?.document_id ?? null
+          : null,
+        published_date: null, source: 'provision_note',
+      });
+    }
+  }
+
+  const provisions = db.prepare(
+    "SELECT document_id, content FROM legal_provisions WHERE content LIKE '%Uradni list RS%'",
+  ).all() as { document_id: string; content: string }[];
+  for (const provision of provisions) {
+    for (const note of extractPublicationNotes(provision.content)) {
+      const actDocumentId = note.abbreviation
+        ? (resolveAlias.get(note.abbreviation) as { document_id: string } | undefined)?.document_id ?? null
+        : null;
+      const publicationType = note.is_decision
+        ? 'decision'
+        : actDocumentId === provision.document_id ? 'original' : 'amendment';
+      insert.run({
+        uradni_list_ref: note.uradni_list_ref, gazette_year: note.year, gazette_issue: note.issue,
+        document_id: provision.document_id, publication_type: publicationType,
+        act: note.is_decision ? 'odl. US' : publicationType === 'amendment' ? note.abbreviation ?? null : null,
+        act_document_id: publicationType === 'amendment' ? actDocumentId : null,
+        published_date: null, source: 'provision_note',
+      });
+    }
+  }
+
+  db.prepare(`
+    INSERT OR IGNORE INTO gazette_index (uradni_list_ref, gazette_year, gazette_issue, document_id, publication_type, source)
+    SELECT uradni_list_ref, gazette_year, gazette_issue, act_document_id, 'original', source
+    FROM gazette_index
+    WHERE publication_type = 'amendment' AND act_document_id IS NOT NULL
+  `).run();
+
+  return (db.prepare('SELECT COUNT(*) AS count FROM gazette_index').get() as { count: number }).count;
+}
+
+/**
+ * Split every provision into its paragraphs, points, subpoints and indents so
+ * pinpoint citations ("3. točka 1. odstavka 6. člena") can be looked up.
+ */
+function buildProvisionUnits(db: InstanceType<typeof Database>): number {
+  const insert = db.prepare(`
+    INSERT INTO provision_units (provision_id, document_id, provision_ref, position, kind, label,
+      paragraph, point, subpoint, indent, text)
+    VALUES (@provision_id, @document_id, @provision_ref, @position, @kind, @label,
+      @paragraph, @point, @subpoint, @indent, @text)
+  `);
+  const provisions = db.prepare(
+    'SELECT id, document_id, provision_ref, content FROM legal_provisions',
+  ).all() as { id: number; document_id: string; provision_ref: string; content: string }[];
+
+  let count = 0;
+  for (const provision of provisions) {
+    parseProvisionUnits(provision.content).forEach((unit, position) => {
+      insert.run({
+        provision_id: provision.id, document_id: provision.document_id, provision_ref: provision.provision_ref,
+        position, kind: unit.kind, label: unit.label, paragraph: unit.paragraph,
+        point: unit.point ?? null, subpoint: unit.subpoint ?? null, indent: unit.indent ?? null, text: unit.text,
+      });
+      count++;
+    });
+  }
+  return count;
+}
+
+/**
+ * Fill the *_stem_fts tables with Slovenian stems of each row. They share the
+ * content table with their unstemmed counterparts, so there are no triggers:
+ * the database is rebuilt from seeds rather than updated in place.
+ */
+function buildStemmedIndexes(db: InstanceType<typeof Database>): void {
+  for (const { table, source, columns: [first, second] } of STEMMED_INDEXES) {
+    const rows = db.prepare(`SELECT id, ${first} AS a, ${second} AS b FROM ${source}`).all() as
+      { id: number; a: string | null; b: string | null }[];
+    const insert = db.prepare(`INSERT INTO ${table}(rowid, ${first}, ${second}) VALUES (?, ?, ?)`);
+    for (const row of rows) {
+      insert.run(row.id, stemText(row.a), stemText(row.b));
+    }
+    console.log(`  ${table.padEnd(28)} ${rows.length}`);
+  }
+}
+
+const VECTORS_ENV_VAR = 'SLOVENIAN_LAW_VECTORS';
+
+// Created only when vectors are built: the tables' presence is what
+// detectCapabilities() reports as the semantic_search capability.
+const VECTOR_SCHEMA = `
+CREATE TABLE vector_models (
+  name TEXT PRIMARY KEY,
+  vocabulary TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  idf BLOB NOT NULL,
+  projection BLOB NOT NULL,
+  built_at TEXT NOT NULL
+);
+
+CREATE TABLE provision_vectors (
+  provision_id INTEGER PRIMARY KEY REFERENCES legal_provisions(id),
+  vector BLOB NOT NULL
+);
+
+CREATE TABLE case_law_vectors (
+  case_law_id INTEGER PRIMARY KEY REFERENCES case_law(id),
+  vector BLOB NOT NULL
+);
+`;
+
+function float32Blob(values: Float32Array): Buffer {
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength);
+}
+
+/**
+ * Train the LSA model on provision and case law text and store one vector
+ * per row. Returns the model name, or null when there was nothing to embed.
+ * Set SLOVENIAN_LAW_VECTORS=off to build a keyword-only database.
+ */
+function buildVectorIndexes(db: InstanceType<typeof Database>): string | null {
+  const provisions = db.prepare(
+    `SELECT id, COALESCE(title, '') || ' ' || content AS text FROM legal_provisions ORDER BY id`,
+  ).all() as { id: number; text: string }[];
+  const cases = db.prepare(
+    `SELECT id, COALESCE(summary, '') || ' ' || COALESCE(keywords, '') AS text FROM case_law ORDER BY id`,
+  ).all() as { id: number; text: string }[];
+  if (provisions.length + cases.length === 0) return null;
+
+  const { model, vectors } = trainVectorModel([...provisions, ...cases].map(row => row.text));
+  db.exec(VECTOR_SCHEMA);
+
+  db.prepare(`
+    INSERT INTO vector_models (name, vocabulary, dimensions, idf, projection, built_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(model.name, JSON.stringify(model.vocabulary), model.dimensions,
+    float32Blob(model.idf), float32Blob(model.projection), new Date().toISOString());
+
+  const insertProvision = db.prepare('INSERT INTO provision_vectors (provision_id, vector) VALUES (?, ?)');
+  const insertCase = db.prepare('INSERT INTO case_law_vectors (case_law_id, vector) VALUES (?, ?)');
+  let provisionCount = 0;
+  let caseCount = 0;
+  provisions.forEach((row, i) => {
+    const vector = vectors[i];
+    if (!vector) return;
+    insertProvision.run(row.id, float32Blob(vector));
+    provisionCount++;
+  });
+  cases.forEach((row, i) => {
+    const vector = vectors[provisions.length + i];
+    if (!vector) return;
+    insertCase.run(row.id, float32Blob(vector));
+    caseCount++;
+  });
+
+  console.log(`  Model:               ${model.name} (${model.vocabulary.length} stems, ${model.dimensions} dimensions)`);
+  console.log(`  Provision vectors:   ${provisionCount}`);
+  console.log(`  Case law vectors:    ${caseCount}`);
+  return model.name;
+}
+
 function main(): void {
   console.log('=== Slovenian Legal Citation Database Builder ===');
   console.log();
@@ -504,6 +1135,11 @@ function main(): void {
        VALUES (@id, @type, @year, @number, @community, @celex_number, @title, @title_sl, @short_name, @adoption_date, @entry_into_force_date, @in_force, @amended_by, @repeals, @url_eur_lex, @description)`,
     );
 
+    const insertAlias = db.prepare(
+      `INSERT OR IGNORE INTO document_aliases (alias, document_id, alias_type)
+       VALUES (@alias, @document_id, @alias_type)`,
+    );
+
     const insertEuRef = db.prepare(
       `INSERT OR IGNORE INTO eu_references (source_type, source_id, document_id, provision_id, eu_document_id, eu_article, reference_type, reference_context, full_citation, is_primary_implementation, implementation_status)
        VALUES (@source_type, @source_id, @document_id, @provision_id, @eu_document_id, @eu_article, @reference_type, @reference_context, @full_citation, @is_primary_implementation, @implementation_status)`,
@@ -511,6 +1147,7 @@ function main(): void {
 
     let docCount = 0, provCount = 0, provVerCount = 0, caseCount = 0;
     let prepCount = 0, defCount = 0, xrefCount = 0, euDocCount = 0, euRefCount = 0;
+    let aliasCount = 0;
 
     for (const seed of seeds) {
       if (seed.documents) {
@@ -519,6 +1156,12 @@ function main(): void {
             insertDoc.run({ id: doc.id, type: doc.type, title: doc.title, title_en: doc.title_en ?? null, short_name: doc.short_name ?? null, status: doc.status ?? 'in_force', issued_date: doc.issued_date ?? null, in_force_date: doc.in_force_date ?? null, url: doc.url ?? null, description: doc.description ?? null });
             insertedDocIds.add(doc.id);
             docCount++;
+
+            if (doc.type !== 'case_law') {
+              for (const alias of collectDocumentAliases(doc)) {
+                aliasCount += insertAlias.run({ alias: alias.alias, document_id: alias.document_id, alias_type: alias.alias_type }).changes;
+              }
+            }
           }
         }
       }
@@ -578,13 +1221,6 @@ function main(): void {
         }
       }
 
-      if (seed.cross_references) {
-        for (const xr of seed.cross_references) {
-          insertXref.run({ source_document_id: xr.source_document_id, source_provision_ref: xr.source_provision_ref ?? null, target_document_id: xr.target_document_id, target_provision_ref: xr.target_provision_ref ?? null, ref_type: xr.ref_type ?? 'references' });
-          xrefCount++;
-        }
-      }
-
       if (seed.eu_references) {
         for (const ref of seed.eu_references) {
           insertEuRef.run({ source_type: ref.source_type, source_id: ref.source_id, document_id: ref.document_id, provision_id: ref.provision_id ?? null, eu_document_id: ref.eu_document_id, eu_article: ref.eu_article ?? null, reference_type: ref.reference_type, reference_context: ref.reference_context ?? null, full_citation: ref.full_citation ?? null, is_primary_implementation: ref.is_primary_implementation ?? 0, implementation_status: ref.implementation_status ?? null });
@@ -593,7 +1229,16 @@ function main(): void {
       }
     }
 
+    // After every seed, since a reference may point to a statute seeded later
+    for (const seed of seeds) {
+      for (const xr of seed.cross_references ?? []) {
+        insertXref.run({ source_document_id: xr.source_document_id, source_provision_ref: xr.source_provision_ref ?? null, target_document_id: xr.target_document_id, target_provision_ref: xr.target_provision_ref ?? null, ref_type: xr.ref_type ?? 'references' });
+        xrefCount++;
+      }
+    }
+
     console.log(`  Documents:           ${docCount}`);
+    console.log(`  Document aliases:    ${aliasCount}`);
     console.log(`  Provisions:          ${provCount}`);
     console.log(`  Provision versions:  ${provVerCount}`);
     console.log(`  Case law:            ${caseCount}`);
@@ -606,6 +1251,41 @@ function main(): void {
 
   insertAll();
 
+  console.log();
+  console.log('Building amendment history...');
+  const documentSeeds = [...new Map(
+    seeds.flatMap(seed => seed.documents ?? []).reverse().map(doc => [doc.id, doc] as const),
+  ).values()];
+  const quotedCitations = collectQuotedGazetteCitations(db, documentSeeds);
+  console.log(`  Statutes quoted with their issues: ${quotedCitations.size}`);
+  const amendmentCount = db.transaction(() => buildAmendmentHistory(db, documentSeeds, quotedCitations))();
+  console.log(`  Amendments:          ${amendmentCount}`);
+
+  console.log();
+  console.log('Indexing Uradni list issues...');
+  const gazetteCount = db.transaction(() => buildGazetteIndex(db, quotedCitations))();
+  console.log(`  Gazette entries:     ${gazetteCount}`);
+
+  console.log();
+  console.log('Indexing provision units...');
+  const unitCount = db.transaction(() => buildProvisionUnits(db))();
+  console.log(`  Units:               ${unitCount}`);
+
+  console.log();
+  console.log('Building stemmed search indexes...');
+  db.transaction(() => buildStemmedIndexes(db))();
+
+  let vectorModel: string | null = null;
+  const vectorsSetting = process.env[VECTORS_ENV_VAR]?.toLowerCase();
+  if (vectorsSetting === 'off' || vectorsSetting === '0' || vectorsSetting === 'false') {
+    console.log();
+    console.log(`Skipping vector indexes (${VECTORS_ENV_VAR}=${vectorsSetting})`);
+  } else {
+    console.log();
+    console.log('Building vector indexes for hybrid search...');
+    vectorModel = db.transaction(() => buildVectorIndexes(db))();
+  }
+
   // Write db_metadata (free tier)
   console.log();
   console.log('Writing db_metadata...');
@@ -618,6 +1298,7 @@ function main(): void {
     upsertMeta.run('schema_version', '1');
     upsertMeta.run('built_at', new Date().toISOString());
     upsertMeta.run('builder', 'build-db.ts');
+    if (vectorModel) upsertMeta.run('vector_model', vectorModel);
   });
   writeMeta();
 
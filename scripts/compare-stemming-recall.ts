@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+/**
+ * Compare search recall with and without the Slovenian stemmer.
+ *
+ * Runs every search-type golden test (fixtures/golden-tests.json) against the
+ * built database twice — once with the *_stem_fts indexes and once with
+ * SLOVENIAN_LAW_STEMMING=off — and reports result counts and assertion outcomes.
+ *
+ * Usage: npm run eval:stemming [-- "extra query" ...]
+ */
+
+import Database from '@ansvar/mcp-sqlite';
+import { readFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { searchLegislation } from '../src/tools/search-legislation.js';
+import { searchCaseLaw } from '../src/tools/search-case-law.js';
+import { searchDefinitions } from '../src/tools/search-definitions.js';
+import { buildLegalStance } from '../src/tools/build-legal-stance.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const DB_PATH = process.env.SLOVENIAN_LAW_DB_PATH ?? join(__dirname, '..', 'data', 'database.db');
+
+interface GoldenTest {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  assertions: {
+    result_not_empty?: boolean;
+    any_result_contains?: string[];
+    min_results?: number;
+  };
+}
+
+type SearchTool = (db: InstanceType<typeof Database>, input: never) => Promise<{ results: unknown }>;
+
+const SEARCH_TOOLS: Record<string, SearchTool> = {
+  search_legislation: searchLegislation as SearchTool,
+  search_case_law: searchCaseLaw as SearchTool,
+  search_definitions: searchDefinitions as SearchTool,
+  build_legal_stance: buildLegalStance as SearchTool,
+};
+
+interface RunOutcome {
+  count: number;
+  passed: boolean;
+}
+
+function countResults(results: unknown): number {
+  if (Array.isArray(results)) return results.length;
+  if (results && typeof results === 'object') {
+    return Object.values(results).reduce<number>(
+      (sum, value) => sum + (Array.isArray(value) ? value.length : 0), 0,
+    );
+  }
+  return 0;
+}
+
+async function run(
+  db: InstanceType<typeof Database>,
+  test: GoldenTest,
+  stemming: boolean,
+): Promise<RunOutcome> {
+  process.env.SLOVENIAN_LAW_STEMMING = stemming ? 'on' : 'off';
+  const { results } = await SEARCH_TOOLS[test.tool](db, test.input as never);
+  const count = countResults(results);
+  const text = JSON.stringify(results).toLowerCase();
+
+  const { result_not_empty, any_result_contains, min_results } = test.assertions;
+  const passed =
+    (!result_not_empty || count > 0) &&
+    (!min_results || count >= min_results) &&
+    (!any_result_contains || any_result_contains.some(s => text.includes(s.toLowerCase())));
+
+  return { count, passed };
+}
+
+async function main(): Promise<void> {
+  const golden = JSON.parse(
+    readFileSync(join(__dirname, '..', 'fixtures', 'golden-tests.json'), 'utf-8'),
+  ) as { tests: GoldenTest[] };
+
+  const tests = golden.tests.filter(t => t.tool in SEARCH_TOOLS);
+  for (const [i, query] of process.argv.slice(2).entries()) {
+    tests.push({ id: `arg-${i + 1}`, tool: 'search_legislation', input: { query, limit: 50 }, assertions: {} });
+  }
+
+  const db = new Database(DB_PATH, { readonly: true });
+
+  console.log(`Stemming recall comparison: ${tests.length} search tests\n`);
+  console.log(`${'test'.padEnd(10)} ${'tool'.padEnd(20)} ${'stemmed'.padStart(9)} ${'plain'.padStart(9)}  query`);
+
+  let stemmedTotal = 0, plainTotal = 0, stemmedPassed = 0, plainPassed = 0;
+  for (const test of tests) {
+    const stemmed = await run(db, test, true);
+    const plain = await run(db, test, false);
+    stemmedTotal += stemmed.count;
+    plainTotal += plain.count;
+    if (stemmed.passed) stemmedPassed++;
+    if (plain.passed) plainPassed++;
+
+    const cell = (o: RunOutcome) => `${o.count}${o.passed ? '' : ' ✗'}`.padStart(9);
+    console.log(`${test.id.padEnd(10)} ${test.tool.padEnd(20)} ${cell(stemmed)} ${cell(plain)}  ${JSON.stringify(test.input.query ?? test.input)}`);
+  }
+
+  db.close();
+
+  console.log();
+  console.log(`Results returned:   stemmed ${stemmedTotal}, plain ${plainTotal}`);
+  console.log(`Assertions passed:  stemmed ${stemmedPassed}/${tests.length}, plain ${plainPassed}/${tests.length}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
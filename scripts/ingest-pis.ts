@@ -81,10 +81,12 @@ interface SeedData {
     title: string;
     title_en?: string;
     short_name?: string;
+    aliases?: string[];
     status: string;
     issued_date?: string;
     in_force_date?: string;
     url: string;
+    gazette_citation?: string;
   }>;
   provisions: ParsedProvision[];
 }
@@ -107,6 +109,19 @@ function stripHtml(html: string): string {
   return html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/\u00a0/g, ' ').trim();
 }
 
+/**
+ * The NPB header cites every publication of the statute in the Uradni list,
+ * e.g. "(Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT ...)".
+ */
+function extractGazetteCitation(blocks: PISContentBlock[]): string | undefined {
+  for (const block of blocks) {
+    if (block.struktura !== 'npb' && block.struktura !== 'naslov') continue;
+    const match = stripHtml(block.vsebina).replace(/\s+/g, ' ').match(/Uradni list RS, št\.[^)]*/);
+    if (match) return match[0].trim();
+  }
+  return undefined;
+}
+
 function mapStatus(semafor: { id: number; naziv: string } | null, veljaDo: string | null): string {
   if (!semafor) return 'in_force';
   const name = semafor.naziv.toLowerCase();
@@ -289,6 +304,7 @@ async function ingestStatute(zunanjiId: string): Promise<boolean> {
   // 2. Find the latest NPB version
   const npbVersions = data.besedilo?.npbVerzije ?? [];
   let provisions: ParsedProvision[] = [];
+  let gazetteCitation: string | undefined;
 
   if (npbVersions.length > 0) {
     // Find the highest NPB number (latest consolidated version)
@@ -308,6 +324,7 @@ async function ingestStatute(zunanjiId: string): Promise<boolean> {
 
     if (blocks.length > 0) {
       provisions = parseContentBlocks(blocks, zunanjiId);
+      gazetteCitation = extractGazetteCitation(blocks);
     }
   } else {
     console.log(`  No NPB versions found — statute may not have consolidated text`);
@@ -316,6 +333,11 @@ async function ingestStatute(zunanjiId: string): Promise<boolean> {
   // 3. Build seed data
   const status = mapStatus(ep.semafor, ep.veljaDo);
   const docType = mapDocType(ep.vrstaAkta);
+  const seedPath = path.join(SEED_DIR, `${zunanjiId}.json`);
+  // Abbreviations in common use that PIS does not record are kept across re-ingests
+  const aliases = fs.existsSync(seedPath)
+    ? (JSON.parse(fs.readFileSync(seedPath, 'utf-8')) as SeedData).documents[0]?.aliases
+    : undefined;
 
   const seedData: SeedData = {
     documents: [{
@@ -324,16 +346,17 @@ async function ingestStatute(zunanjiId: string): Promise<boolean> {
       title: ep.naslov,
       title_en: ep.naslovAng ?? undefined,
       short_name: ep.kratica ?? undefined,
+      aliases,
       status,
       issued_date: ep.objavljeno ?? ep.sprejeto ?? undefined,
       in_force_date: ep.veljaOd ?? undefined,
       url: `https://pisrs.si/pregledPredpisa?id=${zunanjiId}`,
+      gazette_citation: gazetteCitation,
     }],
     provisions,
   };
 
   // 4. Write seed file
-  const seedPath = path.join(SEED_DIR, `${zunanjiId}.json`);
   fs.writeFileSync(seedPath, JSON.stringify(seedData, null, 2), 'utf-8');
   console.log(`  Wrote ${zunanjiId}.json (${provisions.length} provisions)`);
 
@@ -12,6 +12,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { extractCrossReferences, resolveStatuteAbbreviation } from '../src/parsers/cross-ref-extractor.js';
+import { buildAliasIndex, collectDocumentAliases, type StatuteAlias } from '../src/utils/document-aliases.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -37,18 +38,22 @@ async function main(): Promise<void> {
 
   const seedFiles = fs.readdirSync(SEED_DIR).filter((f) => f.endsWith('.json'));
   const knownDocIds = new Set<string>();
+  const aliases: StatuteAlias[] = [];
 
-  // First pass: collect known document IDs
+  // First pass: collect known document IDs and their aliases
   for (const file of seedFiles) {
     const raw = fs.readFileSync(path.join(SEED_DIR, file), 'utf-8');
     const seed = JSON.parse(raw);
     if (seed.documents) {
       for (const doc of seed.documents) {
         knownDocIds.add(doc.id);
+        aliases.push(...collectDocumentAliases(doc));
       }
     }
   }
 
+  const aliasIndex = buildAliasIndex(aliases);
+
   let totalXrefs = 0;
 
   // Second pass: extract cross-references
@@ -67,7 +72,7 @@ async function main(): Promise<void> {
 
       for (const ref of refs) {
         if (ref.target_statute) {
-          const targetDocId = resolveStatuteAbbreviation(ref.target_statute);
+          const targetDocId = resolveStatuteAbbreviation(ref.target_statute, aliasIndex);
           if (targetDocId && knownDocIds.has(targetDocId) && targetDocId !== documentId) {
             xrefs.push({
               source_document_id: documentId,
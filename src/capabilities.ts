@@ -18,7 +18,8 @@ export type Capability =
   | 'eu_references'
   | 'expanded_case_law'
   | 'full_preparatory_works'
-  | 'agency_guidance';
+  | 'agency_guidance'
+  | 'semantic_search';
 
 export type Tier = 'free' | 'professional' | 'unknown';
 
@@ -27,6 +28,8 @@ export interface DbMetadata {
   schema_version: string;
   built_at: string;
   builder: string;
+  /** Embedding model behind hybrid search, null when the database has no vectors */
+  vector_model: string | null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -40,6 +43,8 @@ const CAPABILITY_TABLES: Record<Capability, string> = {
   expanded_case_law: 'case_law_full',
   full_preparatory_works: 'preparatory_works_full',
   agency_guidance: 'agency_guidance',
+  // Vectors for hybrid search; build-db.ts creates this table only when it embeds provisions
+  semantic_search: 'provision_vectors',
 };
 
 const PROFESSIONAL_CAPABILITIES: Capability[] = [
@@ -82,6 +87,7 @@ export function readDbMetadata(db: InstanceType<typeof Database>): DbMetadata {
     schema_version: '1',
     built_at: 'unknown',
     builder: 'unknown',
+    vector_model: null,
   };
 
   try {
@@ -103,6 +109,8 @@ export function readDbMetadata(db: InstanceType<typeof Database>): DbMetadata {
         meta.built_at = row.value;
       } else if (row.key === 'builder') {
         meta.builder = row.value;
+      } else if (row.key === 'vector_model') {
+        meta.vector_model = row.value;
       }
     }
 
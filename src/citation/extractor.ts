@@ -0,0 +1,213 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { parseGazetteCitation } from '../parsers/amendment-parser.js';
+import { findEUReferences } from '../parsers/eu-reference-parser.js';
+import { findCaseDecision, type CaseLookup } from '../utils/case-number.js';
+import { describeGazettePublication, findGazettePublications, gazetteDocumentId } from '../utils/gazette-index.js';
+import { articleOrdinal } from '../utils/provision-units.js';
+import { formatCitation } from './formatter.js';
+import { findStatuteCitations } from './parser.js';
+import { validateCitation } from './validator.js';
+
+export type ExtractedCitationKind = 'statute' | 'uradni_list' | 'ecli' | 'constitutional_court' | 'eu_act';
+
+export interface ExtractedCitation {
+  kind: ExtractedCitationKind;
+  /** Citation as written */
+  text: string;
+  /** UTF-16 offsets into the input text */
+  start: number;
+  end: number;
+  /** Standard short form, e.g. "6. člen ZVOP-2, 1. odstavek, 3. točka" or "Uradni list RS, št. 47/15" */
+  normalized: string;
+  document_id: string | null;
+  document_title: string | null;
+  /** The cited document is in the database, and for statutes every cited člen and pinpoint too */
+  exists: boolean;
+  /** Every člen cited, for statute citations */
+  articles?: string[];
+  warnings: string[];
+}
+
+type Found = Omit<ExtractedCitation, 'kind' | 'text' | 'start' | 'end'>;
+
+// "Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT in 52/16"
+const GAZETTE_ISSUE = '\\d+\\/\\d{2,4}(?:-[IVX]+)?(?:\\s*[–-]\\s*(?:popr\\.|odl\\.\\s*US|UPB\\d*|[A-ZČŠŽ][A-Za-zČŠŽčšž]*(?:-\\d+[A-Z]?)?))?';
+const GAZETTE_IN_TEXT_PATTERN = new RegExp(
+  `(?:Uradni\\s+list|Ur\\.\\s*l\\.)\\s+RS,?\\s+[šs]t\\.\\s*${GAZETTE_ISSUE}(?:(?:,\\s*|\\s+in\\s+)${GAZETTE_ISSUE})*`,
+  'g',
+);
+
+const ECLI_IN_TEXT_PATTERN = /ECLI:SI:[A-Z]{2,5}:\d{4}:[\w.]*\w/g;
+
+// Ustavno sodišče case numbers: "U-I-123/20", "U-II-1/15", "Up-456/19", "Rm-1/02"
+const CONSTITUTIONAL_CASE_PATTERN = /(?<![\w-])(?:U-I{1,2}|Up|Rm)-\d+\/\d{2}(?:-\d+)?(?![\w/])/g;
+
+function documentTitle(db: Database, documentId: string): string | null {
+  const row = db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(documentId) as
+    { title: string } | undefined;
+  return row?.title ?? null;
+}
+
+function checkStatute(db: Database, citation: string): Found {
+  const validation = validateCitation(db, citation);
+  const parsed = validation.citation;
+  if (!parsed.valid) {
+    return {
+      normalized: citation, document_id: null, document_title: null, exists: false,
+      warnings: [parsed.error || 'Invalid citation format'],
+    };
+  }
+
+  const warnings = [...validation.warnings];
+  if (validation.document_exists && !validation.provision_exists && !validation.members && parsed.article) {
+    warnings.push(`${articleOrdinal(parsed.article)} člen ne obstaja v bazi`);
+  }
+  return {
+    normalized: formatCitation(citation, 'short', db),
+    document_id: parsed.document_id,
+    document_title: validation.document_title ?? null,
+    exists: validation.document_exists && validation.provision_exists && validation.pinpoint_exists !== false,
+    articles: parsed.articles ?? (parsed.article ? [parsed.article] : undefined),
+    warnings,
+  };
+}
+
+/** Statutes the gazette issue published or changed, from the gazette index */
+function checkGazetteIssue(db: Database, uradniListRef: string): Found {
+  const publications = findGazettePublications(db, uradniListRef) ?? [];
+  const documentId = gazetteDocumentId(publications);
+
+  return {
+    normalized: `Uradni list ${uradniListRef}`,
+    document_id: documentId,
+    document_title: publications.length > 0
+      ? [...new Set(publications.map(describeGazettePublication))].join('; ')
+      : null,
+    exists: publications.length > 0,
+    warnings: publications.length > 0 ? [] : [`Uradni list ${uradniListRef} ni v indeksu Uradnega lista v bazi`],
+  };
+}
+
+function checkDecision(db: Database, value: string, reference: CaseLookup): Found {
+  const row = findCaseDecision(db, reference);
+
+  return {
+    normalized: value,
+    document_id: row?.document_id ?? null,
+    document_title: row ? documentTitle(db, row.document_id) : null,
+    exists: !!row,
+    warnings: row ? [] : [`Odločba ${value} ni v bazi`],
+  };
+}
+
+function checkEUAct(
+  db: Database,
+  type: 'directive' | 'regulation',
+  year: number,
+  number: number,
+  community: string | undefined,
+  article: string | undefined,
+): Found {
+  const id = `${type}:${year}/${number}`;
+  const row = db.prepare(
+    'SELECT id, title, title_sl, short_name, in_force FROM eu_documents WHERE id = ?',
+  ).get(id) as
+    { id: string; title: string | null; title_sl: string | null; short_name: string | null; in_force: number | null } | undefined;
+
+  const warnings: string[] = [];
+  if (!row) {
+    warnings.push(`Akt EU ${id} ni v bazi`);
+  } else if (row.in_force === 0) {
+    warnings.push(`Akt EU ${id} ni več v veljavi`);
+  }
+
+  const label = type === 'directive' ? 'Direktiva' : 'Uredba';
+  return {
+    normalized: `${label} (${community ?? 'EU'}) ${year}/${number}${article ? `, člen ${article}` : ''}`,
+    document_id: id,
+    document_title: row ? row.title_sl ?? row.title ?? row.short_name : null,
+    exists: !!row,
+    warnings,
+  };
+}
+
+/**
+ * Find every citation in a free text (a contract, brief or memo) and check it
+ * against the database: statute citations down to točka and alineja, Uradni
+ * list references, ECLI identifiers, Ustavno sodišče case numbers and EU acts.
+ * Citations are returned in text order; identical citations are checked once.
+ */
+export function extractCitations(
+  db: Database,
+  text: string,
+  kinds?: ReadonlySet<ExtractedCitationKind>,
+): ExtractedCitation[] {
+  const wanted = (kind: ExtractedCitationKind): boolean => !kinds || kinds.has(kind);
+  const checked = new Map<string, Found>();
+  const check = (key: string, run: () => Found): Found => {
+    let found = checked.get(key);
+    if (!found) {
+      found = run();
+      checked.set(key, found);
+    }
+    return found;
+  };
+  const citations: ExtractedCitation[] = [];
+  const add = (kind: ExtractedCitationKind, raw: string, start: number, found: Found): void => {
+    citations.push({ kind, text: raw, start, end: start + raw.length, ...found, warnings: [...found.warnings] });
+  };
+
+  if (wanted('statute')) {
+    for (const span of findStatuteCitations(text)) {
+      add('statute', span.text, span.start, check(`statute:${span.citation}`, () => checkStatute(db, span.citation)));
+    }
+  }
+
+  if (wanted('uradni_list')) {
+    let match: RegExpExecArray | null;
+    GAZETTE_IN_TEXT_PATTERN.lastIndex = 0;
+    while ((match = GAZETTE_IN_TEXT_PATTERN.exec(text)) !== null) {
+      // One citation per issue; the first one includes the "Uradni list RS, št." prefix
+      let cursor = match.index;
+      parseGazetteCitation(match[0]).forEach((entry, i) => {
+        const position = text.indexOf(entry.raw_text, cursor);
+        if (position === -1) return;
+        const start = i === 0 ? match!.index : position;
+        const raw = text.slice(start, position + entry.raw_text.length);
+        cursor = position + entry.raw_text.length;
+        const ref = entry.uradni_list_ref;
+        add('uradni_list', raw, start, check(`uradni_list:${ref}`, () => checkGazetteIssue(db, ref)));
+      });
+    }
+  }
+
+  if (wanted('ecli')) {
+    for (const match of text.matchAll(ECLI_IN_TEXT_PATTERN)) {
+      add('ecli', match[0], match.index!, check(`ecli:${match[0]}`, () => checkDecision(db, match[0], { ecli: match[0] })));
+    }
+  }
+
+  if (wanted('constitutional_court')) {
+    for (const match of text.matchAll(CONSTITUTIONAL_CASE_PATTERN)) {
+      add('constitutional_court', match[0], match.index!,
+        check(`us:${match[0]}`, () => checkDecision(db, match[0], { case_number: match[0], court: 'USRS' })));
+    }
+  }
+
+  if (wanted('eu_act')) {
+    for (const ref of findEUReferences(text)) {
+      const key = `eu:${ref.type}:${ref.year}/${ref.number}:${ref.article ?? ''}`;
+      add('eu_act', ref.raw_match, ref.offset,
+        check(key, () => checkEUAct(db, ref.type, ref.year, ref.number, ref.community, ref.article)));
+    }
+  }
+
+  // Text order; where matches overlap, the earlier (then longer) one wins
+  citations.sort((a, b) => a.start - b.start || b.end - a.end);
+  let end = -1;
+  return citations.filter(citation => {
+    if (citation.start < end) return false;
+    end = citation.end;
+    return true;
+  });
+}
@@ -1,68 +1,107 @@
-import type { CitationFormat } from '../types/citations.js';
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CitationFormat, GrammaticalCase, ParsedCitation } from '../types/citations.js';
+import { getAliasIndex } from '../utils/document-aliases.js';
+import { formatArticleList } from '../utils/article-list.js';
+import { COURT_LABELS } from '../utils/case-number.js';
+import { describeGazettePublication, findGazettePublications } from '../utils/gazette-index.js';
+import { articleOrdinal, describePinpoint, pointOrdinal } from '../utils/provision-units.js';
+import { inflectTitle, inflectUnit, type CitationUnitNoun } from '../utils/slovenian-inflection.js';
 import { parseCitation } from './parser.js';
+import { formatEUActCitation, formatStatuteCitation } from './styles.js';
 
-const CODE_FULL_NAMES: Record<string, string> = {
-  'URS': 'Ustava Republike Slovenije',
-  'OZ': 'Obligacijski zakonik',
-  'SPZ': 'Stvarnopravni zakonik',
-  'DZ': 'Dedni zakon',
-  'ZZZDR': 'Zakon o zakonski zvezi in družinskih razmerjih',
-  'DZ-1': 'Družinski zakonik',
-  'KZ-1': 'Kazenski zakonik',
-  'ZKP': 'Zakon o kazenskem postopku',
-  'ZP-1': 'Zakon o prekrških',
-  'ZPP': 'Zakon o pravdnem postopku',
-  'ZIZ': 'Zakon o izvršbi in zavarovanju',
-  'ZUS-1': 'Zakon o upravnem sporu',
-  'ZUP': 'Zakon o splošnem upravnem postopku',
-  'ZGD-1': 'Zakon o gospodarskih družbah',
-  'ZFPPIPP': 'Zakon o finančnem poslovanju, postopkih zaradi insolventnosti in prisilnem prenehanju',
-  'ZDR-1': 'Zakon o delovnih razmerjih',
-  'ZUTD': 'Zakon o urejanju trga dela',
-  'ZLS': 'Zakon o lokalni samoupravi',
-  'ZJU': 'Zakon o javnih uslužbencih',
-  'ZDU-1': 'Zakon o državni upravi',
-  'ZVOP-2': 'Zakon o varstvu osebnih podatkov',
-  'ZDavP-2': 'Zakon o davčnem postopku',
-  'ZDDV-1': 'Zakon o davku na dodano vrednost',
-  'ZDoh-2': 'Zakon o dohodnini',
-  'ZDDPO-2': 'Zakon o davku od dohodkov pravnih oseb',
-  'ZVO-2': 'Zakon o varstvu okolja',
-  'ZGO-1': 'Zakon o graditvi objektov',
-  'ZJN-3': 'Zakon o javnem naročanju',
-  'ZMed': 'Zakon o medijih',
-  'ZZavar-1': 'Zakon o zavarovalništvu',
-  'ZBan-3': 'Zakon o bančništvu',
-  'ZTFI-1': 'Zakon o trgu finančnih instrumentov',
-};
+/**
+ * The cited units from the smallest up, the first in the given case and the
+ * rest in rodilnik: "3. točko 1. odstavka 6. člena"
+ */
+function inflectUnits(parsed: ParsedCitation, article: string, grammaticalCase: GrammaticalCase): string {
+  const units: Array<[string, CitationUnitNoun]> = [];
+  if (parsed.indent) units.push([`${parsed.indent}.`, 'alineja']);
+  if (parsed.subpoint) units.push([`${parsed.subpoint})`, 'podtočka']);
+  if (parsed.point) units.push([pointOrdinal(parsed.point), 'točka']);
+  if (parsed.paragraph) units.push([`${parsed.paragraph}.`, 'odstavek']);
+  units.push([article, 'člen']);
 
-export function formatCitation(citation: string, format: CitationFormat = 'full'): string {
-  const parsed = parseCitation(citation);
+  return units
+    .map(([label, unit], i) => `${label} ${inflectUnit(unit, i === 0 ? grammaticalCase : 'rodilnik')}`)
+    .join(' ');
+}
+
+/**
+ * Format a citation. Statute titles come from the alias registry, so every
+ * statute in the database can be expanded, not only the well-known codes.
+ * Full Uradni list citations name the acts the issue published or changed;
+ * full decision citations pair the case number with the ECLI. The english,
+ * oscola and eu formats are described in styles.ts. With a
+ * grammatical case, statute citations are inflected to fit a sentence
+ * ("v skladu s 3. točko 1. odstavka 6. člena Zakona o varstvu osebnih
+ * podatkov"), pinpoints ordered from the smallest unit up.
+ */
+export function formatCitation(
+  citation: string,
+  format: CitationFormat = 'full',
+  db?: Database,
+  grammaticalCase?: GrammaticalCase,
+): string {
+  const parsed = parseCitation(citation, db);
   if (!parsed.valid) return citation;
 
-  if (parsed.type === 'case_law' && parsed.ecli) {
-    return parsed.ecli;
+  // Decisions: "VSRS II Ips 45/2019, ECLI:SI:VSRS:2020:II.IPS.45.2019" in full and
+  // in the non-Slovenian styles, the case number otherwise
+  if (parsed.type === 'case_law') {
+    const caseNumber = parsed.case_number
+      && `${parsed.court ? `${COURT_LABELS[parsed.court]} ` : ''}${parsed.case_number}`;
+    if (format !== 'short' && format !== 'pinpoint') return [caseNumber, parsed.ecli].filter(Boolean).join(', ') || citation;
+    return caseNumber || parsed.ecli || citation;
   }
 
   if (parsed.type === 'eu_directive' || parsed.type === 'eu_regulation') {
-    return parsed.raw;
+    return formatEUActCitation(parsed, format, db);
+  }
+
+  if (parsed.uradni_list_ref) {
+    if (format === 'english' || format === 'eu') return `Official Gazette RS No. ${parsed.uradni_list_ref}`;
+    const issue = `Uradni list RS, št. ${parsed.uradni_list_ref}`;
+    if (format !== 'full' || !db) return issue;
+    const acts = [...new Set((findGazettePublications(db, parsed.uradni_list_ref) ?? []).map(describeGazettePublication))];
+    return acts.length > 0 ? `${issue} (${acts.join('; ')})` : issue;
   }
 
   // Statute formatting
   if (parsed.type === 'statute' && parsed.code_abbreviation) {
+    if (format === 'english' || format === 'oscola' || format === 'eu') {
+      return formatStatuteCitation(parsed, format, db);
+    }
     const code = parsed.code_abbreviation;
-    const article = parsed.article ?? '';
-    const paragraphStr = parsed.paragraph ? `, ${parsed.paragraph}. odstavek` : '';
+    const article = parsed.articles ? formatArticleList(parsed.articles) : articleOrdinal(parsed.article ?? '');
+    // ", 1. odstavek, 3. točka" after the člen
+    const pinpoint = describePinpoint({
+      paragraph: parsed.paragraph, point: parsed.point, subpoint: parsed.subpoint, indent: parsed.indent,
+    });
+    const pinpointStr = pinpoint ? `, ${pinpoint}` : '';
+
+    if (grammaticalCase) {
+      const units = inflectUnits(parsed, article, grammaticalCase);
+      switch (format) {
+        case 'full': {
+          const fullName = getAliasIndex(db).documents.get(parsed.document_id)?.title;
+          return fullName ? `${units} ${inflectTitle(fullName, 'rodilnik')} (${code})` : `${units} ${code}`;
+        }
+        case 'short':
+          return `${units} ${code}`;
+        case 'pinpoint':
+          return units;
+      }
+    }
 
     switch (format) {
       case 'full': {
-        const fullName = CODE_FULL_NAMES[code] || code;
-        return `${article}. člen ${fullName} (${code})${paragraphStr}`;
+        const fullName = getAliasIndex(db).documents.get(parsed.document_id)?.title || code;
+        return `${article} člen ${fullName} (${code})${pinpointStr}`;
       }
       case 'short':
-        return `${article}. člen ${code}${paragraphStr}`;
+        return `${article} člen ${code}${pinpointStr}`;
       case 'pinpoint':
-        return `${article}. člen${paragraphStr}`;
+        return `${article} člen${pinpointStr}`;
     }
   }
 
@@ -1,184 +1,284 @@
+import type { Database } from '@ansvar/mcp-sqlite';
 import type { ParsedCitation } from '../types/citations.js';
-
-/**
- * Map Slovenian statute abbreviations to PIS document IDs.
- *
- * These are the most commonly cited Slovenian laws. The ID format
- * follows the PIS naming convention (e.g., "zakon-o-kazenskem-postopku").
- */
-const CODE_TO_PIS: Record<string, string> = {
-  // Constitutional
-  'URS': 'ustava-rs',
-
-  // Civil / obligations
-  'OZ': 'obligacijski-zakonik',
-  'SPZ': 'stvarnopravni-zakonik',
-  'DZ': 'dedni-zakon',
-  'ZZZDR': 'zakon-o-zakonski-zvezi-in-druzinskih-razmerjih',
-  'DZ-1': 'druzinski-zakonik',
-
-  // Criminal
-  'KZ-1': 'kazenski-zakonik',
-  'ZKP': 'zakon-o-kazenskem-postopku',
-  'ZP-1': 'zakon-o-prekrskih',
-
-  // Procedural
-  'ZPP': 'zakon-o-pravdnem-postopku',
-  'ZIZ': 'zakon-o-izvrsbi-in-zavarovanju',
-  'ZUS-1': 'zakon-o-upravnem-sporu',
-  'ZUP': 'zakon-o-splosnem-upravnem-postopku',
-
-  // Commercial / corporate
-  'ZGD-1': 'zakon-o-gospodarskih-druzbah',
-  'ZFPPIPP': 'zakon-o-financnem-poslovanju-postopkih-zaradi-insolventnosti-in-prisilnem-prenehanju',
-
-  // Labour
-  'ZDR-1': 'zakon-o-delovnih-razmerjih',
-  'ZUTD': 'zakon-o-urejanju-trga-dela',
-
-  // Administrative
-  'ZLS': 'zakon-o-lokalni-samoupravi',
-  'ZJU': 'zakon-o-javnih-usluzbenskih',
-  'ZDU-1': 'zakon-o-drzavni-upravi',
-
-  // Data protection / GDPR
-  'ZVOP-2': 'zakon-o-varstvu-osebnih-podatkov',
-
-  // Tax
-  'ZDavP-2': 'zakon-o-davcnem-postopku',
-  'ZDDV-1': 'zakon-o-davku-na-dodano-vrednost',
-  'ZDoh-2': 'zakon-o-dohodnini',
-  'ZDDPO-2': 'zakon-o-davku-od-dohodkov-pravnih-oseb',
-
-  // Environmental
-  'ZVO-2': 'zakon-o-varstvu-okolja',
-  'ZGO-1': 'zakon-o-graditvi-objektov',
-
-  // Other key statutes
-  'ZJN-3': 'zakon-o-javnem-narocanju',
-  'ZMed': 'zakon-o-medijih',
-  'ZZavar-1': 'zakon-o-zavarovalnistvu',
-  'ZBan-3': 'zakon-o-bancnistvu',
-  'ZTFI-1': 'zakon-o-trgu-financnih-instrumentov',
-};
+import { parseEUActNumber } from '../parsers/eu-reference-parser.js';
+import {
+  ARTICLE_LIST_SOURCE, expandArticleList, normalizeArticleNumber, type InsertedArticleLookup,
+} from '../utils/article-list.js';
+import { caseNumberFromEcli, findCaseDecision, normalizeCourtCode, parseCaseNumber } from '../utils/case-number.js';
+import { getAliasIndex, lookupAlias } from '../utils/document-aliases.js';
+import { findGazettePublications, gazetteDocumentId } from '../utils/gazette-index.js';
 
 // ECLI pattern for Slovenian courts: ECLI:SI:...
 const ECLI_PATTERN = /^ECLI:SI:[A-Z]{2,5}:\d{4}:[\w.]+$/;
 
-// Uradni list reference: "Uradni list RS, št. 63/13" or "Ur. l. RS, št. 63/13"
-const URADNI_LIST_PATTERN = /^(?:Uradni\s+list|Ur\.\s*l\.)\s+RS,?\s+[šs]t\.\s+(\d+\/\d{2}(?:-\d+)?)/i;
+// Uradni list reference: "Uradni list RS, št. 63/13", "Ur. l. RS, št. 63/13" or PIS's "63/2013"
+const URADNI_LIST_PATTERN = /^(?:Uradni\s+list|Ur\.\s*l\.)\s+RS,?\s+[šs]t\.\s+(\d+\/\d{2}(?:\d{2})?(?!\d)(?:-\d+)?)/i;
 
 // EU directive: "Direktiva (EU) 2019/770" or "Direktiva 95/46/ES"
-const EU_DIRECTIVE_PATTERN = /^[Dd]irektiva\s+(?:\(?(EU|ES|EGS)\)?\s+)?(?:št\.\s*)?(\d{2,4})\/(\d+)(?:\/(EU|ES|EGS))?/;
+const EU_DIRECTIVE_PATTERN = /^[Dd]irektiva\s+(?:\(?(EU|ES|EGS|Euratom)\)?\s+)?(?:št\.\s*)?(\d{2,4})\/(\d+)(?:\/(EU|ES|EGS|Euratom))?/;
 
-// EU regulation: "Uredba (EU) 2016/679"
-const EU_REGULATION_PATTERN = /^[Uu]redba\s+(?:\(?(EU|ES|EGS)\)?\s+)?(?:št\.\s*)?(\d{2,4})\/(\d+)/;
+// EU regulation: "Uredba (EU) 2016/679" or "Uredba (ES) št. 1049/2001"
+const EU_REGULATION_PATTERN = /^[Uu]redba\s+(?:\(?(EU|ES|EGS|Euratom)\)?\s+)?(?:št\.\s*)?(\d{2,4})\/(\d+)(?:\/(EU|ES|EGS|Euratom))?/;
 
-// Slovenian statute pattern: "1. člen ZKP" or "čl. 287 OZ" or "1. odstavek 6. člena KZ-1"
-const CODE_NAMES = Object.keys(CODE_TO_PIS).join('|');
-const STATUTE_PATTERN = new RegExp(
-  `^(?:(\\d+)\\.\\s*(?:odstavek|odst\\.)\\s+)?(\\d+[a-ž]?)\\.?\\s*(?:člen[a]?|čl\\.?)\\s+(${CODE_NAMES})$`,
-  'i',
-);
+// Statute abbreviation token: "ZKP", "KZ-1", "ZDavP-2", "ZMed", "Ustava-RS".
+// Which tokens are real statutes is decided by the alias registry, not the regex.
+const CODE_TOKEN = '[A-ZČŠŽ][A-Za-zČŠŽčšž]*(?:-[A-Z0-9]+)?';
+
+// Pinpoint levels of a Slovenian statute citation and the words that name them,
+// in the cases they are cited in: "6. člen", "1. odstavka", "3. točke",
+// "a) podtočke", "druga alineja", and abbreviated "čl.", "odst.", "tč.", "al.".
+type PinpointLevel = 'article' | 'paragraph' | 'point' | 'subpoint' | 'indent';
+
+const LEVEL_KEYWORDS: Array<[PinpointLevel, RegExp]> = [
+  ['article', /^(?:člen(?:a|u|om)?|čl\.?)$/i],
+  ['paragraph', /^(?:odstav(?:ek|ka|ku|kom)|odst\.?)$/i],
+  ['subpoint', /^(?:podtočk(?:a|e|i|o)|podtč\.?)$/i],
+  ['point', /^(?:točk(?:a|e|i|o)|tč\.?)$/i],
+  ['indent', /^(?:alinej(?:a|e|i|o)|alin\.?|al\.)$/i],
+];
+
+// Ordinal words in any case: "prvi odstavek", "druge alineje", "z drugim odstavkom"
+const ORDINAL_STEMS: Record<string, number> = {
+  prv: 1, drug: 2, tretj: 3, četrt: 4, pet: 5, šest: 6, sedm: 7, osm: 8,
+  devet: 9, deset: 10, enajst: 11, dvanajst: 12,
+};
+
+const KEYWORD_TOKEN = '(?:člen(?:a|u|om)?|čl\\.?|odstav(?:ek|ka|ku|kom)|odst\\.?|podtočk[aeio]|podtč\\.?|točk[aeio]|tč\\.?|alinej[aeio]|alin\\.?|al\\.)';
 
-// Alternative pattern: "ZKP, 1. člen" or "OZ 6. člen"
-const ALT_STATUTE_PATTERN = new RegExp(
-  `^(${CODE_NAMES}),?\\s+(\\d+[a-ž]?)\\.?\\s*(?:člen[a]?|čl\\.?)(?:\\s+(\\d+)\\.\\s*(?:odstavek|odst\\.))?$`,
-  'i',
+// One pinpoint unit: a number ("6.", "6.a", "6a"), an article range or list
+// ("15. do 20.", "5., 7. in 9."), an ordinal word or a letter ("a)"),
+// followed by its level keyword.
+const UNIT_SOURCE =
+  `(?:(${ARTICLE_LIST_SOURCE}|\\d+(?:\\.?[a-zčšž])?)\\.?|(${Object.keys(ORDINAL_STEMS).join('|')})(?:ega|emu|ima|em|im|ih|i|a|e|o)|([a-zčšž])\\))\\s*(${KEYWORD_TOKEN})(?=[\\s,]|$)[\\s,]*`;
+const UNIT_PATTERN = new RegExp(UNIT_SOURCE, 'iy');
+const LETTER_AFTER_KEYWORD_SOURCE = '(?:pod)?(?:točk[aeio]|tč\\.?)\\s+[a-zčšž]\\)';
+const LETTER_AFTER_KEYWORD_PATTERN = /(?<![\p{L}])((?:pod)?(?:točk[aeio]|tč\.?))\s+([a-zčšž])\)/giu;
+
+// Statute code at the end ("3. točka 1. odstavka 6. člena ZVOP-2") or at the
+// start ("ZKP, 1. člen", "OZ 6. člen 2. odstavek")
+const CODE_LAST_PATTERN = new RegExp(`^(.+?)[\\s,]+(${CODE_TOKEN})$`, 'i');
+const CODE_FIRST_PATTERN = new RegExp(`^(${CODE_TOKEN}),?\\s+(.+)$`, 'i');
+
+// A statute citation in running text: pinpoint units followed by the statute
+// abbreviation. Matched case-insensitively; STATUTE_CODE_IN_TEXT then rejects
+// ordinary words ("6. člena tega zakona", "6. člena Zakona o ...").
+const STATUTE_IN_TEXT_PATTERN = new RegExp(
+  `(?<![\\dA-Za-zČŠŽčšž./])((?:${LETTER_AFTER_KEYWORD_SOURCE}[\\s,]*)?(?:${UNIT_SOURCE})+)(${CODE_TOKEN})(?![A-Za-zČŠŽčšž0-9])`,
+  'gi',
 );
 
+// Abbreviations have a second capital ("OZ", "ZDavP-2", "ZMed"); the
+// Constitution is cited by its inflected name ("Ustave", "Ustavi")
+const STATUTE_CODE_IN_TEXT = /^(?:[A-ZČŠŽ][a-zčšž]*[A-ZČŠŽ]|Ustav[aeio]$)/;
+
+function isLevelKeyword(token: string): boolean {
+  return LEVEL_KEYWORDS.some(([, pattern]) => pattern.test(token));
+}
+
+type Pinpoint = Partial<Record<PinpointLevel, string>> & {
+  /** Range or enumeration of articles as cited, e.g. "15. do 20." */
+  articleList?: string;
+};
+
+/**
+ * Parse a sequence of pinpoint units in any order. Returns null unless the
+ * whole text is consumed, an article is cited and no level repeats.
+ */
+function parsePinpoint(text: string): Pinpoint | null {
+  const pinpoint: Pinpoint = {};
+  // "točka a)" is also written with the keyword first
+  text = text.replace(LETTER_AFTER_KEYWORD_PATTERN, '$2) $1');
+  UNIT_PATTERN.lastIndex = 0;
+  while (UNIT_PATTERN.lastIndex < text.length) {
+    const match = UNIT_PATTERN.exec(text);
+    if (!match) return null;
+    const [, number, ordinal, letter, keyword] = match;
+    const level = LEVEL_KEYWORDS.find(([, pattern]) => pattern.test(keyword))![0];
+    if (pinpoint[level] !== undefined) return null;
+    // Podtočke are lettered, and so are točke directly under an odstavek ("a) točka"); the rest are numbered
+    if (level === 'subpoint' ? letter === undefined : letter !== undefined && level !== 'point') return null;
+
+    if (ordinal) {
+      pinpoint[level] = String(ORDINAL_STEMS[ordinal.toLowerCase()]);
+    } else if (letter) {
+      pinpoint[level] = letter.toLowerCase();
+    } else {
+      const articles = expandArticleList(number);
+      if (!articles || articles.length === 0) return null;
+      // Only člene are cited as ranges; "1. do 3. odstavek" is not supported
+      if (articles.length > 1 && level !== 'article') return null;
+      pinpoint[level] = articles.length > 1 ? articles[0] : normalizeArticleNumber(number);
+      if (articles.length > 1) pinpoint.articleList = number;
+    }
+  }
+  return pinpoint.article ? pinpoint : null;
+}
+
+/**
+ * Lettered articles of a statute in the database, so that "9. do 10. člen"
+ * covers 9.a, 9.b, ... Databases without provisions yield none.
+ */
+function insertedArticleLookup(db: Database, documentId: string): InsertedArticleLookup {
+  return (article: number): string[] => {
+    try {
+      const rows = db.prepare(
+        'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND provision_ref LIKE ? ORDER BY provision_ref',
+      ).all(documentId, `${article}.%`) as { provision_ref: string }[];
+      return rows.map(row => row.provision_ref);
+    } catch {
+      return [];
+    }
+  };
+}
+
+/**
+ * Resolve a statute abbreviation through the alias registry.
+ * The returned abbreviation is the canonical kratica ("zkp" -> "ZKP").
+ */
+function statuteCitation(
+  raw: string,
+  code: string,
+  pinpoint: Pinpoint,
+  db?: Database,
+): ParsedCitation {
+  const { article, paragraph, point, subpoint, indent } = pinpoint;
+  const index = getAliasIndex(db);
+  const alias = lookupAlias(index, code);
+  const articles = pinpoint.articleList
+    ? expandArticleList(pinpoint.articleList, db && alias ? insertedArticleLookup(db, alias.document_id) : undefined) ?? undefined
+    : undefined;
+  if (!alias) {
+    return {
+      raw,
+      type: 'statute',
+      document_id: '',
+      article,
+      ...(articles && { articles }),
+      paragraph,
+      point,
+      subpoint,
+      indent,
+      code_abbreviation: code,
+      valid: false,
+      error: `Unknown statute abbreviation: "${code}"`,
+    };
+  }
+
+  return {
+    raw,
+    type: 'statute',
+    document_id: alias.document_id,
+    article,
+    ...(articles && { articles }),
+    paragraph,
+    point,
+    subpoint,
+    indent,
+    code_abbreviation: index.documents.get(alias.document_id)?.short_name ?? code,
+    valid: true,
+  };
+}
 
-export function parseCitation(citation: string): ParsedCitation {
+/**
+ * Parse a Slovenian or EU legal citation. Statute abbreviations are resolved
+ * against the database alias registry when a database is given, otherwise
+ * against the built-in legacy aliases. Uradni list citations resolve to the
+ * act the issue published when the gazette index names exactly one, and
+ * keep a synthetic "UL-63/13" document_id otherwise. Court decisions cited by
+ * ECLI or case number carry both identifiers when the database has the case.
+ */
+export function parseCitation(citation: string, db?: Database): ParsedCitation {
   const trimmed = citation.trim();
   if (!trimmed) {
     return { raw: citation, type: 'statute', document_id: '', valid: false, error: 'Empty citation' };
   }
 
-  // 1. Try ECLI
+  // 1. Try ECLI; the case number follows from it, or from the database
   if (ECLI_PATTERN.test(trimmed)) {
+    const decision = db ? findCaseDecision(db, { ecli: trimmed }) : null;
+    const reference = caseNumberFromEcli(trimmed);
+    const caseNumber = decision?.case_number ?? reference?.case_number;
+    const court = (decision && normalizeCourtCode(decision.court)) ?? normalizeCourtCode(trimmed.split(':')[2]);
     return {
       raw: citation,
       type: 'case_law',
-      document_id: trimmed,
+      document_id: decision?.document_id ?? trimmed,
       ecli: trimmed,
+      ...(caseNumber && { case_number: caseNumber }),
+      ...(court && { court }),
+      valid: true,
+    };
+  }
+
+  // 2. Try a case number: "odločba US, št. U-I-123/18", "sklep VSRS II Ips 45/2019"
+  const caseReference = parseCaseNumber(trimmed);
+  if (caseReference) {
+    const decision = db ? findCaseDecision(db, caseReference) : null;
+    const court = (decision && normalizeCourtCode(decision.court)) ?? caseReference.court;
+    return {
+      raw: citation,
+      type: 'case_law',
+      document_id: decision?.document_id ?? caseReference.case_number,
+      ...(decision?.ecli && { ecli: decision.ecli }),
+      case_number: caseReference.case_number,
+      ...(court && { court }),
       valid: true,
     };
   }
 
-  // 2. Try Uradni list reference
+  // 3. Try Uradni list reference; with a database, the act the issue published
   const ulMatch = trimmed.match(URADNI_LIST_PATTERN);
   if (ulMatch) {
+    const publications = db ? findGazettePublications(db, ulMatch[1]) : null;
     return {
       raw: citation,
       type: 'statute',
-      document_id: `UL-${ulMatch[1]}`,
+      document_id: (publications && gazetteDocumentId(publications)) ?? `UL-${ulMatch[1]}`,
       uradni_list_ref: ulMatch[1],
       valid: true,
     };
   }
 
-  // 3. Try EU directive
+  // 4. Try EU directive
   const dirMatch = trimmed.match(EU_DIRECTIVE_PATTERN);
   if (dirMatch) {
-    const year = parseInt(dirMatch[2], 10);
-    const number = parseInt(dirMatch[3], 10);
+    const { year, number } = parseEUActNumber(dirMatch[2], dirMatch[3]);
+    const community = dirMatch[1] ?? dirMatch[4];
     return {
       raw: citation,
       type: 'eu_directive',
       document_id: `directive:${year}/${number}`,
+      ...(community && { eu_community: community }),
       valid: true,
     };
   }
 
-  // 4. Try EU regulation
+  // 5. Try EU regulation
   const regMatch = trimmed.match(EU_REGULATION_PATTERN);
   if (regMatch) {
-    const year = parseInt(regMatch[2], 10);
-    const number = parseInt(regMatch[3], 10);
+    const { year, number } = parseEUActNumber(regMatch[2], regMatch[3]);
+    const community = regMatch[1] ?? regMatch[4];
     return {
       raw: citation,
       type: 'eu_regulation',
       document_id: `regulation:${year}/${number}`,
+      ...(community && { eu_community: community }),
       valid: true,
     };
   }
 
-  // 5. Try statute pattern: "1. člen ZKP"
-  const statMatch = trimmed.match(STATUTE_PATTERN);
-  if (statMatch) {
-    const paragraph = statMatch[1] || undefined;
-    const article = statMatch[2];
-    const code = statMatch[3];
-    const pisId = CODE_TO_PIS[code] || code.toLowerCase();
-
-    return {
-      raw: citation,
-      type: 'statute',
-      document_id: pisId,
-      article,
-      paragraph,
-      code_abbreviation: code,
-      valid: true,
-    };
+  // 6. Try statute pinpoint with the code last: "3. točka 1. odstavka 6. člena ZVOP-2"
+  const lastMatch = trimmed.match(CODE_LAST_PATTERN);
+  const lastPinpoint = lastMatch && !isLevelKeyword(lastMatch[2]) ? parsePinpoint(lastMatch[1]) : null;
+  if (lastMatch && lastPinpoint) {
+    return statuteCitation(citation, lastMatch[2], lastPinpoint, db);
   }
 
-  // 6. Try alternative pattern: "ZKP, 1. člen"
-  const altMatch = trimmed.match(ALT_STATUTE_PATTERN);
-  if (altMatch) {
-    const code = altMatch[1];
-    const article = altMatch[2];
-    const paragraph = altMatch[3] || undefined;
-    const pisId = CODE_TO_PIS[code] || code.toLowerCase();
-
-    return {
-      raw: citation,
-      type: 'statute',
-      document_id: pisId,
-      article,
-      paragraph,
-      code_abbreviation: code,
-      valid: true,
-    };
+  // 7. Try statute pinpoint with the code first: "ZKP, 1. člen"
+  const firstMatch = trimmed.match(CODE_FIRST_PATTERN);
+  const firstPinpoint = firstMatch ? parsePinpoint(firstMatch[2]) : null;
+  if (firstMatch && firstPinpoint) {
+    return statuteCitation(citation, firstMatch[1], firstPinpoint, db);
   }
 
   return {
@@ -189,3 +289,48 @@ export function parseCitation(citation: string): ParsedCitation {
     error: `Unrecognized citation format: "${trimmed}"`,
   };
 }
+
+export interface CitationSpan {
+  /** Citation as written */
+  text: string;
+  /** UTF-16 offsets into the searched text */
+  start: number;
+  end: number;
+  /** The citation in a form parseCitation accepts ("6. členu Ustava" for "6. členu Ustave") */
+  citation: string;
+}
+
+/**
+ * Find statute citations in running text: "3. točka 1. odstavka 6. člena
+ * ZVOP-2", "v skladu s 5. in 7. členom ZKP", "23. člena Ustave". The
+ * code-first form ("ZKP, 1. člen") is too ambiguous in prose and is not matched.
+ */
+export function findStatuteCitations(text: string): CitationSpan[] {
+  const spans: CitationSpan[] = [];
+  STATUTE_IN_TEXT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = STATUTE_IN_TEXT_PATTERN.exec(text)) !== null) {
+    const raw = match[0];
+    // The unit pattern's own groups sit between the units and the code
+    const code = match[match.length - 1];
+    const units = match[1].replace(/[\s,]+$/, '');
+    if (!STATUTE_CODE_IN_TEXT.test(code) || !parsePinpoint(units)) continue;
+    spans.push({
+      text: raw,
+      start: match.index,
+      end: match.index + raw.length,
+      citation: `${units} ${code.startsWith('Ustav') ? 'Ustava' : code}`,
+    });
+  }
+  return spans;
+}
+
+/**
+ * One citation per article of a range or enumeration ("15. do 20. člen ZKP"
+ * gives 15. člen ZKP through 20. člen ZKP); other citations are returned as is.
+ */
+export function expandCitation(parsed: ParsedCitation): ParsedCitation[] {
+  if (!parsed.articles) return [parsed];
+  const { articles, ...single } = parsed;
+  return articles.map(article => ({ ...single, article }));
+}
@@ -0,0 +1,148 @@
+/**
+ * Citation styles for work outside Slovenian courts:
+ *
+ *   english  "Article 6(1) of the Personal Data Protection Act (ZVOP-2), Official Gazette RS No. 163/22"
+ *   oscola   "Zakon o varstvu osebnih podatkov [Personal Data Protection Act] (ZVOP-2) (Uradni list RS, št. 163/22), art 6(1)"
+ *   eu       EU acts as the Interinstitutional Style Guide numbers them:
+ *            "Directive 95/46/EC", "Regulation (EC) No 1049/2001", "Regulation (EU) 2016/679"
+ *
+ * English statute titles come from PIS (title_en); statutes without one are
+ * cited by their Slovenian title.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CitationFormat, ParsedCitation } from '../types/citations.js';
+import { formatArticleList, type ArticleListWords } from '../utils/article-list.js';
+import { getAliasIndex } from '../utils/document-aliases.js';
+import { originalGazetteIssue } from '../utils/gazette-index.js';
+
+export type ForeignCitationStyle = Extract<CitationFormat, 'english' | 'oscola' | 'eu'>;
+
+const ENGLISH_LIST_WORDS: ArticleListWords = { label: englishArticle, to: ' to ', and: ' and ' };
+const OSCOLA_LIST_WORDS: ArticleListWords = { label: englishArticle, to: '–', and: ' and ' };
+
+const ENGLISH_ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+// Communities as cited in Slovenian and in English
+const ENGLISH_COMMUNITIES: Record<string, string> = {
+  EU: 'EU', ES: 'EC', EG: 'EC', EGS: 'EEC', EEG: 'EEC', Euratom: 'Euratom',
+};
+
+/** Since 1 January 2015 every EU act is numbered "(EU) year/number" */
+const UNIFIED_NUMBERING_YEAR = 2015;
+
+/** "6.a" -> "6a" */
+function englishArticle(article: string): string {
+  return article.replace('.', '');
+}
+
+/** "6(1)(3)(a)" */
+function englishProvision(article: string, parsed: ParsedCitation): string {
+  const units = [parsed.paragraph, parsed.point, parsed.subpoint].filter(Boolean).map(unit => `(${unit})`).join('');
+  return `${englishArticle(article)}${units}`;
+}
+
+/** "second indent"; null without an alineja */
+function englishIndent(parsed: ParsedCitation): string | null {
+  if (!parsed.indent) return null;
+  const indent = parseInt(parsed.indent, 10);
+  return ENGLISH_ORDINALS[indent - 1] ? `${ENGLISH_ORDINALS[indent - 1]} indent` : `indent ${indent}`;
+}
+
+function statuteTitles(db: Database | undefined, parsed: ParsedCitation): { title: string; title_en: string | null } {
+  const code = parsed.code_abbreviation ?? parsed.document_id;
+  const title = getAliasIndex(db).documents.get(parsed.document_id)?.title || code;
+  let titleEn: string | null = null;
+  if (db) {
+    try {
+      const row = db.prepare('SELECT title_en FROM legal_documents WHERE id = ?').get(parsed.document_id) as
+        { title_en: string | null } | undefined;
+      titleEn = row?.title_en?.replace(` (${code})`, '').trim() || null;
+    } catch {
+      // legal_documents may lack title_en in test fixtures
+    }
+  }
+  return { title, title_en: titleEn };
+}
+
+/** A statute citation in the English or OSCOLA style; the EU style cites national law in English */
+export function formatStatuteCitation(parsed: ParsedCitation, style: ForeignCitationStyle, db?: Database): string {
+  const code = parsed.code_abbreviation ?? parsed.document_id;
+  const { title, title_en } = statuteTitles(db, parsed);
+  const gazette = db ? originalGazetteIssue(db, parsed.document_id) : null;
+  const several = parsed.articles && parsed.articles.length > 1;
+
+  if (style === 'oscola') {
+    const indent = englishIndent(parsed);
+    const articles = several
+      ? `arts ${formatArticleList(parsed.articles!, OSCOLA_LIST_WORDS)}`
+      : `art ${englishProvision(parsed.article ?? '', parsed)}${indent ? `, ${indent}` : ''}`;
+    return `${title}${title_en ? ` [${title_en}]` : ''} (${code})${gazette ? ` (Uradni list RS, št. ${gazette})` : ''}, ${articles}`;
+  }
+
+  // "the second indent of Article 10(2)"
+  const indent = englishIndent(parsed);
+  const articles = several
+    ? `Articles ${formatArticleList(parsed.articles!, ENGLISH_LIST_WORDS)}`
+    : `${indent ? `the ${indent} of ` : ''}Article ${englishProvision(parsed.article ?? '', parsed)}`;
+  const name = title_en ? (/^the\s/i.test(title_en) ? title_en : `the ${title_en}`) : title;
+  return `${articles} of ${name} (${code})${gazette ? `, Official Gazette RS No. ${gazette}` : ''}`;
+}
+
+/** Community of an EU act: as cited, or by the year it was adopted */
+function communityOf(year: number, community: string | undefined, language: 'sl' | 'en'): string {
+  if (community) return language === 'en' ? ENGLISH_COMMUNITIES[community] ?? community : community;
+  if (year >= 2010) return 'EU';
+  if (year >= 1993) return language === 'en' ? 'EC' : 'ES';
+  return language === 'en' ? 'EEC' : 'EGS';
+}
+
+/**
+ * An EU directive or regulation in its standard form: Slovenian for the
+ * Slovenian formats ("Direktiva 95/46/ES", "Uredba (ES) št. 1049/2001"),
+ * English for the others. The eu style adds the date of adoption and the
+ * english style the act's short name when the database has them.
+ */
+export function formatEUActCitation(parsed: ParsedCitation, format: CitationFormat, db?: Database): string {
+  const [, reference] = parsed.document_id.split(':');
+  const [year, number] = reference.split('/').map(part => parseInt(part, 10));
+  const isDirective = parsed.type === 'eu_directive';
+  // Before 1999 the year is cited with two digits
+  const citedYear = year < 1999 ? String(year).slice(-2) : String(year);
+
+  if (format === 'full' || format === 'short' || format === 'pinpoint') {
+    const community = communityOf(year, parsed.eu_community, 'sl');
+    if (year >= UNIFIED_NUMBERING_YEAR) return `${isDirective ? 'Direktiva' : 'Uredba'} (${community}) ${year}/${number}`;
+    return isDirective
+      ? `Direktiva ${citedYear}/${number}/${community}`
+      : `Uredba (${community}) št. ${number}/${citedYear}`;
+  }
+
+  const community = communityOf(year, parsed.eu_community, 'en');
+  let act: string;
+  if (year >= UNIFIED_NUMBERING_YEAR) {
+    act = `${isDirective ? 'Directive' : 'Regulation'} (${community}) ${year}/${number}`;
+  } else if (isDirective) {
+    act = `Directive ${citedYear}/${number}/${community}`;
+  } else {
+    // OSCOLA drops the "No"
+    act = `Regulation (${community}) ${format === 'oscola' ? '' : 'No '}${number}/${citedYear}`;
+  }
+
+  let row: { short_name: string | null; adoption_date: string | null } | undefined;
+  if (db && format !== 'oscola') {
+    try {
+      row = db.prepare('SELECT short_name, adoption_date FROM eu_documents WHERE id = ?').get(parsed.document_id) as
+        typeof row;
+    } catch {
+      row = undefined;
+    }
+  }
+  if (format === 'eu' && row?.adoption_date) {
+    const date = new Date(`${row.adoption_date}T00:00:00Z`);
+    const day = date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+    return `${act} of ${day}`;
+  }
+  if (format === 'english' && row?.short_name) return `${act} (${row.short_name})`;
+  return act;
+}
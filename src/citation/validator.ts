@@ -1,10 +1,25 @@
 import type { Database } from '@ansvar/mcp-sqlite';
-import type { ValidationResult } from '../types/citations.js';
+import type { CitationMember, GazettePublication, ValidationResult } from '../types/citations.js';
 import type { DocumentStatus } from '../types/documents.js';
+import { formatArticleList } from '../utils/article-list.js';
+import { findGazettePublications } from '../utils/gazette-index.js';
+import {
+  articleOrdinal, describePinpoint, hasPinpoint, isRepealedText, parseProvisionUnits, readIndexedUnits, renderUnits, selectPinpoint,
+} from '../utils/provision-units.js';
 import { parseCitation } from './parser.js';
 
+function findProvision(
+  db: Database,
+  documentId: string,
+  article: string,
+): { id: number; content: string } | undefined {
+  return db.prepare(
+    'SELECT id, content FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+  ).get(documentId, article) as { id: number; content: string } | undefined;
+}
+
 export function validateCitation(db: Database, citation: string): ValidationResult {
-  const parsed = parseCitation(citation);
+  const parsed = parseCitation(citation, db);
   const warnings: string[] = [];
 
   if (!parsed.valid) {
@@ -37,13 +52,67 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     }
   }
 
+  if (parsed.type === 'case_law' && !documentExists) {
+    warnings.push(`Odločba ${parsed.case_number ?? parsed.ecli} ni v bazi`);
+  }
+
+  // Uradni list citations: the statutes published or changed in the issue
+  let gazettePublications: GazettePublication[] | undefined;
+  if (parsed.uradni_list_ref) {
+    gazettePublications = findGazettePublications(db, parsed.uradni_list_ref) ?? [];
+    if (gazettePublications.length > 0) {
+      documentExists = true;
+    } else {
+      warnings.push(`Uradni list RS, št. ${parsed.uradni_list_ref} ni v indeksu Uradnega lista v bazi`);
+    }
+  }
+
   // Check provision existence (for statutes with article ref)
   let provisionExists = false;
-  if (parsed.type === 'statute' && parsed.article) {
-    const provRow = db.prepare(
-      'SELECT id FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
-    ).get(parsed.document_id, parsed.article);
+  let pinpointExists: boolean | undefined;
+  let pinpointText: string | undefined;
+  let members: CitationMember[] | undefined;
+  if (parsed.type === 'statute' && parsed.articles) {
+    // Range or enumeration: check every člen
+    members = parsed.articles.map(article => {
+      const provRow = findProvision(db, parsed.document_id, article);
+      return { article, provision_exists: !!provRow, repealed: !!provRow && isRepealedText(provRow.content) };
+    });
+    provisionExists = members.every(member => member.provision_exists);
+
+    const missing = members.filter(member => !member.provision_exists).map(member => member.article);
+    const repealed = members.filter(member => member.repealed).map(member => member.article);
+    if (missing.length > 0) {
+      warnings.push(missing.length === 1
+        ? `${formatArticleList(missing)} člen ne obstaja v bazi`
+        : `${formatArticleList(missing)} člen ne obstajajo v bazi`);
+    }
+    if (repealed.length > 0) {
+      warnings.push(repealed.length === 1
+        ? `${formatArticleList(repealed)} člen je črtan ali je prenehal veljati`
+        : `${formatArticleList(repealed)} člen so črtani ali so prenehali veljati`);
+    }
+  } else if (parsed.type === 'statute' && parsed.article) {
+    const provRow = findProvision(db, parsed.document_id, parsed.article);
     provisionExists = !!provRow;
+    if (provRow && isRepealedText(provRow.content)) {
+      warnings.push(`${articleOrdinal(parsed.article)} člen je črtan ali je prenehal veljati`);
+    }
+
+    // Check the odstavek/točka/alineja inside the člen
+    const pinpoint = { paragraph: parsed.paragraph, point: parsed.point, subpoint: parsed.subpoint, indent: parsed.indent };
+    if (provRow && hasPinpoint(pinpoint)) {
+      const units = readIndexedUnits(db, provRow.id) ?? parseProvisionUnits(provRow.content);
+      const groups = selectPinpoint(units, pinpoint);
+      pinpointExists = groups.length > 0;
+      if (groups.length === 0) {
+        warnings.push(`${articleOrdinal(parsed.article)} člen nima enote "${describePinpoint(pinpoint)}"`);
+      } else if (groups.length > 1) {
+        warnings.push(`Enota "${describePinpoint(pinpoint)}" se v ${articleOrdinal(parsed.article)} členu pojavi ${groups.length}-krat — navedite odstavek`);
+      } else {
+        pinpointText = renderUnits(groups[0]);
+      }
+    }
   } else {
     provisionExists = documentExists;
   }
@@ -52,6 +121,10 @@ export function validateCitation(db: Database, citation: string): ValidationResu
     citation: parsed,
     document_exists: documentExists,
     provision_exists: provisionExists,
+    ...(members && { members }),
+    ...(pinpointExists !== undefined && { pinpoint_exists: pinpointExists }),
+    ...(pinpointText !== undefined && { pinpoint_text: pinpointText }),
+    ...(gazettePublications && { gazette_publications: gazettePublications }),
     status,
     document_title: documentTitle,
     warnings,
@@ -0,0 +1,191 @@
+/**
+ * Argument completion for Slovenian Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Answers `completion/complete` for prompt arguments (ref/prompt), resource
+ * template variables (ref/resource) and tool arguments. MCP has no reference
+ * type for tools, so tool arguments are completed through an additional
+ * `{ type: 'ref/tool', name }` reference that clients may send instead.
+ *
+ * Completers are chosen by argument name, so "document_id" completes the same
+ * way in a tool, a prompt and a resource URI.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CompleteRequestSchema,
+  CompleteResult,
+  ErrorCode,
+  McpError,
+  PromptReferenceSchema,
+  ResourceTemplateReferenceSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import Database from '@ansvar/mcp-sqlite';
+
+import { TOOLS } from '../tools/registry.js';
+import { PROMPTS } from '../prompts/registry.js';
+import { RESOURCE_TEMPLATES } from '../resources/registry.js';
+import { normalizeArticleNumber } from '../utils/article-list.js';
+import { rankDocumentCandidates, resolveDocumentId } from '../utils/document-id.js';
+
+/** The protocol caps a completion at 100 values */
+const MAX_VALUES = 100;
+
+const ToolReferenceSchema = z.object({
+  type: z.literal('ref/tool'),
+  name: z.string(),
+});
+
+const CompleteWithToolsRequestSchema = CompleteRequestSchema.extend({
+  params: CompleteRequestSchema.shape.params.extend({
+    ref: z.union([PromptReferenceSchema, ResourceTemplateReferenceSchema, ToolReferenceSchema]),
+  }),
+});
+
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string }
+  | { type: 'ref/tool'; name: string };
+
+/** Previously entered arguments (the statute, when completing an article) */
+type CompletionContext = Record<string, string>;
+
+type Completer = (db: InstanceType<typeof Database>, value: string, context: CompletionContext) => string[];
+
+function completeDocument(db: InstanceType<typeof Database>, value: string): string[] {
+  return rankDocumentCandidates(db, value, { prefix: true }).map(candidate => candidate.matched);
+}
+
+function completeArticle(db: InstanceType<typeof Database>, value: string, context: CompletionContext): string[] {
+  const reference = context.document_id ?? context.statute_id;
+  const documentId = reference ? resolveDocumentId(db, reference) : null;
+  if (!documentId) return [];
+
+  const typed = normalizeArticleNumber(value.trim().replace(/\s*člen$/i, ''));
+  try {
+    const rows = db.prepare(`
+      SELECT provision_ref FROM legal_provisions
+      WHERE document_id = ? AND provision_ref LIKE ? ESCAPE '\\'
+      ORDER BY id
+    `).all(documentId, `${typed.replace(/[\\%_]/g, '\\$&')}%`) as { provision_ref: string }[];
+    // Exact article first, then in statute order: "6" -> 6, 6.a, 60, 61, ...
+    return rows
+      .map(row => row.provision_ref)
+      .sort((a, b) => Number(b === typed) - Number(a === typed));
+  } catch {
+    return []; // legal_provisions may not exist in a test database
+  }
+}
+
+/** Full ECLIs when they fit, otherwise the next segment: "ECLI:SI:V" -> "ECLI:SI:VSRS:", "ECLI:SI:VSL:" */
+function completeEcli(db: InstanceType<typeof Database>, value: string): string[] {
+  const typed = value.trim().toUpperCase();
+  const prefix = typed.startsWith('ECLI') || 'ECLI'.startsWith(typed) ? typed : `ECLI:SI:${typed}`;
+
+  let eclis: string[];
+  try {
+    eclis = (db.prepare(`
+      SELECT ecli FROM case_law
+      WHERE ecli LIKE ? ESCAPE '\\'
+      ORDER BY decision_date DESC, ecli
+    `).all(`${prefix.replace(/[\\%_]/g, '\\$&')}%`) as { ecli: string }[]).map(row => row.ecli);
+  } catch {
+    return []; // case_law is not part of every database tier
+  }
+  if (eclis.length <= MAX_VALUES) return eclis;
+
+  const segments = new Set<string>();
+  for (const ecli of eclis) {
+    const end = ecli.indexOf(':', prefix.length);
+    segments.add(end === -1 ? ecli : ecli.slice(0, end + 1));
+  }
+  return [...segments].sort();
+}
+
+function completeEuDocument(db: InstanceType<typeof Database>, value: string): string[] {
+  const typed = value.trim().toLowerCase();
+  const pattern = `%${typed.replace(/[\\%_]/g, '\\$&')}%`;
+  try {
+    // ID prefix first ("regulation:2016/..."), then number or name anywhere ("2016/679", "GDPR")
+    const rows = db.prepare(`
+      SELECT id FROM eu_documents
+      WHERE LOWER(id) LIKE ? ESCAPE '\\'
+         OR LOWER(COALESCE(short_name, '')) LIKE ? ESCAPE '\\'
+         OR LOWER(COALESCE(celex_number, '')) LIKE ? ESCAPE '\\'
+      ORDER BY (LOWER(id) LIKE ? ESCAPE '\\') DESC, (LOWER(short_name) = ?) DESC, year DESC, number
+    `).all(pattern, pattern, pattern, `${typed.replace(/[\\%_]/g, '\\$&')}%`, typed) as { id: string }[];
+    return rows.map(row => row.id);
+  } catch {
+    return []; // eu_documents is not part of every database tier
+  }
+}
+
+const COMPLETERS: Record<string, Completer> = {
+  document_id: completeDocument,
+  statute_id: completeDocument,
+  article: completeArticle,
+  provision_ref: completeArticle,
+  ecli: completeEcli,
+  eu_document_id: completeEuDocument,
+};
+
+/** Enum values of a tool argument ("court", "format", "grammatical_case", ...) */
+function completeEnum(toolName: string, argument: string, value: string): string[] | undefined {
+  const tool = TOOLS.find(t => t.name === toolName);
+  const property = (tool?.inputSchema.properties as Record<string, { enum?: unknown[] }> | undefined)?.[argument];
+  if (!property?.enum) return undefined;
+  const typed = value.trim().toLowerCase();
+  return property.enum.map(String).filter(option => option.toLowerCase().startsWith(typed));
+}
+
+function argumentNames(ref: CompletionReference): string[] {
+  switch (ref.type) {
+    case 'ref/prompt': {
+      const prompt = PROMPTS.find(p => p.name === ref.name);
+      if (!prompt) throw new McpError(ErrorCode.InvalidParams, `Unknown prompt "${ref.name}"`);
+      return (prompt.arguments ?? []).map(argument => argument.name);
+    }
+    case 'ref/resource': {
+      const template = RESOURCE_TEMPLATES.find(t => t.uriTemplate === ref.uri);
+      if (!template) throw new McpError(ErrorCode.InvalidParams, `Unknown resource template "${ref.uri}"`);
+      return [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+    }
+    case 'ref/tool': {
+      const tool = TOOLS.find(t => t.name === ref.name);
+      if (!tool) throw new McpError(ErrorCode.InvalidParams, `Unknown tool "${ref.name}"`);
+      return Object.keys(tool.inputSchema.properties ?? {});
+    }
+  }
+}
+
+/** Complete one argument; values are ranked best first and capped at 100 */
+export function completeArgument(
+  db: InstanceType<typeof Database>,
+  ref: CompletionReference,
+  argument: { name: string; value: string },
+  context: CompletionContext = {},
+): CompleteResult['completion'] {
+  if (!argumentNames(ref).includes(argument.name)) {
+    throw new McpError(ErrorCode.InvalidParams, `"${argument.name}" is not an argument of ${ref.type === 'ref/resource' ? ref.uri : ref.name}`);
+  }
+
+  const values = (ref.type === 'ref/tool' ? completeEnum(ref.name, argument.name, argument.value) : undefined)
+    ?? COMPLETERS[argument.name]?.(db, argument.value, context)
+    ?? [];
+  const unique = [...new Set(values)];
+  return {
+    values: unique.slice(0, MAX_VALUES),
+    total: unique.length,
+    hasMore: unique.length > MAX_VALUES,
+  };
+}
+
+export function registerCompletions(
+  server: Server,
+  db: InstanceType<typeof Database>,
+): void {
+  server.setRequestHandler(CompleteWithToolsRequestSchema, async (request) => ({
+    completion: completeArgument(db, request.params.ref, request.params.argument, request.params.context?.arguments),
+  }));
+}
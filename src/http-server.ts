@@ -4,7 +4,9 @@
  * HTTP entry point for Law MCP Server (Docker proxy transport).
  *
  * Universal template — works with ANY law MCP that follows the standard
- * pattern: registerTools() in ./tools/registry.js, capabilities.js,
+ * pattern: registerTools() in ./tools/registry.js, registerResources() in
+ * ./resources/registry.js, registerPrompts() in ./prompts/registry.js,
+ * registerCompletions() in ./completions/registry.js, capabilities.js,
  * and @ansvar/mcp-sqlite database.
  *
  * Endpoints:
@@ -25,6 +27,9 @@ import { dirname, join } from 'path';
 import Database from '@ansvar/mcp-sqlite';
 
 import { registerTools } from './tools/registry.js';
+import { registerResources } from './resources/registry.js';
+import { registerPrompts } from './prompts/registry.js';
+import { registerCompletions } from './completions/registry.js';
 import { detectCapabilities, readDbMetadata } from './capabilities.js';
 
 
@@ -101,9 +106,12 @@ async function main() {
   function createMCPServer(): Server {
     const server = new Server(
       { name: SERVER_NAME, version: SERVER_VERSION },
-      { capabilities: { tools: {} } },
+      { capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} } },
     );
     registerTools(server, db);
+    registerResources(server, db);
+    registerPrompts(server);
+    registerCompletions(server, db);
     return server;
   }
 
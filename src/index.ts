@@ -2,17 +2,16 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  ListResourcesRequestSchema,
-  ReadResourceRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 import Database from '@ansvar/mcp-sqlite';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
 import { registerTools } from './tools/registry.js';
+import { registerResources } from './resources/registry.js';
+import { registerPrompts } from './prompts/registry.js';
+import { registerCompletions } from './completions/registry.js';
 import { detectCapabilities, readDbMetadata, type Capability, type DbMetadata } from './capabilities.js';
-import { MCP_SERVER_NAME as SERVER_NAME, MCP_SERVER_VERSION as SERVER_VERSION, METADATA_RESOURCE_URI } from './server-metadata.js';
+import { MCP_SERVER_NAME as SERVER_NAME, MCP_SERVER_VERSION as SERVER_VERSION } from './server-metadata.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -78,6 +77,8 @@ const server = new Server(
     capabilities: {
       tools: {},
       resources: {},
+      prompts: {},
+      completions: {},
     },
   },
 );
@@ -89,65 +90,22 @@ const server = new Server(
 registerTools(server, getDb());
 
 // ---------------------------------------------------------------------------
-// Resources
+// Resources — shared registry (statutes, členi, decisions, metadata)
 // ---------------------------------------------------------------------------
 
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: [
-    {
-      uri: METADATA_RESOURCE_URI,
-      name: 'Slovenian Legal Database Metadata',
-      description:
-        'Metadata about the Slovenian legal database including data sources, coverage, and freshness.',
-      mimeType: 'application/json',
-    },
-  ],
-}));
-
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const { uri } = request.params;
-
-  if (uri === METADATA_RESOURCE_URI) {
-    const metadata = {
-      name: SERVER_NAME,
-      version: SERVER_VERSION,
-      sources: {
-        statutes: {
-          name: 'PIS (pisrs.si)',
-          description: 'Pravno-informacijski sistem RS — official portal for Slovenian legislation',
-          url: 'https://pisrs.si',
-          license: 'Public domain (government data)',
-        },
-        case_law: {
-          name: 'sodnapraksa.si',
-          description: 'Official open data portal for Slovenian court decisions',
-          url: 'https://www.sodnapraksa.si',
-          license: 'Public domain (government data)',
-        },
-        eu_law: {
-          name: 'EUR-Lex',
-          description: 'Official EU legislation database',
-          url: 'https://eur-lex.europa.eu',
-          license: 'Open Data',
-        },
-      },
-      attribution:
-        'Data sourced from pisrs.si and sodnapraksa.si. Case law metadata provided under public domain.',
-    };
-
-    return {
-      contents: [
-        {
-          uri,
-          mimeType: 'application/json',
-          text: JSON.stringify(metadata, null, 2),
-        },
-      ],
-    };
-  }
+registerResources(server, getDb());
 
-  throw new Error(`Unknown resource: ${uri}`);
-});
+// ---------------------------------------------------------------------------
+// Prompts — shared registry (research workflows)
+// ---------------------------------------------------------------------------
+
+registerPrompts(server);
+
+// ---------------------------------------------------------------------------
+// Completions — document IDs, členi, ECLIs and EU acts for arguments
+// ---------------------------------------------------------------------------
+
+registerCompletions(server, getDb());
 
 // ---------------------------------------------------------------------------
 // Start
@@ -26,6 +26,29 @@ export interface ProvisionAmendment {
   amendments: AmendmentReference[];
 }
 
+/**
+ * One entry of a statute's gazette citation, i.e. one publication in the
+ * Uradni list that enacted, amended, corrected or annulled part of the statute
+ */
+export interface GazetteCitationEntry {
+  /** Normalized reference, e.g. "RS, št. 47/15" */
+  uradni_list_ref: string;
+  /** Abbreviation of the amending act as cited, e.g. "ZZSDT"; absent for the statute's own amendments (novele) */
+  amending_act?: string;
+  amendment_type: AmendmentHistoryType;
+  /** Year of the gazette issue */
+  year: number;
+  /** Issue number within the year */
+  issue: number;
+  raw_text: string;
+}
+
+/**
+ * Amendment types stored in the amendment history: the parser's types plus
+ * corrections (popravek) and official consolidated texts (UPB)
+ */
+export type AmendmentHistoryType = AmendmentReference['amendment_type'] | 'popravek' | 'upb';
+
 /**
  * Slovenian month names for date extraction
  */
@@ -169,6 +192,147 @@ export function normalizeUradniListRef(ref: string): string | null {
   return `RS, št. ${match[1]}`;
 }
 
+/**
+ * Year and issue number of an Uradni list reference ("47/15", "RS, št. 2/91-I").
+ * Two-digit years above 50 are read as 19xx.
+ */
+export function parseGazetteIssue(ref: string): { year: number; issue: number } | null {
+  const match = ref.match(/(\d+)\/(\d{2}|\d{4})(?!\d)/);
+  if (!match) return null;
+  const rawYear = parseInt(match[2], 10);
+  const year = match[2].length === 4 ? rawYear : rawYear > 50 ? 1900 + rawYear : 2000 + rawYear;
+  return { year, issue: parseInt(match[1], 10) };
+}
+
+/**
+ * Classify the suffix of a gazette citation entry ("popr.", "odl. US", "ZZSDT")
+ */
+function classifyCitationSuffix(suffix: string | undefined, isFirst: boolean): {
+  amendment_type: AmendmentHistoryType; amending_act?: string;
+} {
+  if (!suffix) return { amendment_type: isFirst ? 'nov' : 'spremenjen' };
+  if (/^popr/i.test(suffix)) return { amendment_type: 'popravek' };
+  if (/^(?:odl|odločba)\.?\s*US/i.test(suffix)) return { amendment_type: 'razveljavljen', amending_act: 'odl. US' };
+  if (/^(?:UPB\d*|uradno prečiščeno besedilo)$/i.test(suffix)) return { amendment_type: 'upb' };
+  return { amendment_type: isFirst ? 'nov' : 'spremenjen', amending_act: suffix };
+}
+
+/**
+ * Parse a statute's gazette citation as printed in PIS, e.g.
+ * "Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT in 52/16".
+ * The first entry is the original publication; the rest are listed in
+ * publication order.
+ */
+export function parseGazetteCitation(citation: string): GazetteCitationEntry[] {
+  const listStart = citation.search(/št\.\s*\d/);
+  if (listStart === -1) return [];
+
+  const list = citation.slice(listStart).replace(/^št\.\s*/, '').replace(/\)\s*$/, '');
+  const entries: GazetteCitationEntry[] = [];
+
+  for (const part of list.split(/,\s*|\s+in\s+/)) {
+    const match = part.trim().match(/^(\d+\/\d+(?:-[IVX]+)?)(?:\s*[–-]\s*(.+?))?\.?$/);
+    if (!match) continue;
+    const issue = parseGazetteIssue(match[1]);
+    if (!issue) continue;
+    const suffix = match[2]?.trim();
+    entries.push({
+      uradni_list_ref: `RS, št. ${match[1]}`,
+      ...classifyCitationSuffix(suffix, entries.length === 0),
+      ...issue,
+      raw_text: part.trim(),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * An act and the Uradni list issue that published it, as PIS names them in
+ * front of the transitional provisions of later acts
+ */
+export interface PublicationNote {
+  /** Title as printed, e.g. "Zakon o spremembi in dopolnitvi Obligacijskega zakonika" */
+  title: string;
+  /** Abbreviation, e.g. "OZ-A"; absent for Ustavno sodišče decisions */
+  abbreviation?: string;
+  /** An Ustavno sodišče decision ("Odločba o delni razveljavitvi ...") */
+  is_decision: boolean;
+  /** Normalized reference, e.g. "RS, št. 40/07" */
+  uradni_list_ref: string;
+  year: number;
+  issue: number;
+  raw_text: string;
+}
+
+// "Zakon o spremembi in dopolnitvi Obligacijskega zakonika – OZ-A (Uradni list RS, št. 40/07) vsebuje ..."
+// "Odločba o delni razveljavitvi 1060. člena Obligacijskega zakonika (Uradni list RS, št. 28/06) spreminja ..."
+const PUBLICATION_NOTE_PATTERN =
+  /^([A-ZČŠŽ][^\n()]*?)(?:\s+[–-]\s+([A-ZČŠŽ][\wČŠŽčšž-]*))?\s+\((?:Uradni\s+list|Ur\.\s*l\.)\s+RS,?\s+št\.\s*(\d+\/\d+(?:-[IVX]+)?)\)\s+(?:vsebuje|spreminja)/gm;
+
+/**
+ * Extract the publication notes of a provision: lines naming an act (or an
+ * Ustavno sodišče decision) with the gazette issue it was published in
+ */
+export function extractPublicationNotes(content: string): PublicationNote[] {
+  const notes: PublicationNote[] = [];
+
+  for (const match of content.matchAll(PUBLICATION_NOTE_PATTERN)) {
+    const issue = parseGazetteIssue(match[3]);
+    if (!issue) continue;
+    const title = match[1].trim();
+    notes.push({
+      title,
+      ...(match[2] && { abbreviation: match[2] }),
+      is_decision: /^Odločb/i.test(title),
+      uradni_list_ref: `RS, št. ${match[3]}`,
+      ...issue,
+      raw_text: match[0],
+    });
+  }
+
+  return notes;
+}
+
+/**
+ * Another act's gazette citation quoted in provision text, e.g. "Zakon o
+ * zavarovalništvu (Uradni list RS, št. 99/10 – uradno prečiščeno besedilo,
+ * 90/12, 102/12, 56/13 in 63/13 – ZS-K)"
+ */
+export interface QuotedGazetteCitation {
+  /** Text in front of the citation, which ends with the name of the cited act */
+  preceding: string;
+  /** The citation, e.g. "Uradni list RS, št. 99/10 – uradno prečiščeno besedilo, 90/12" */
+  citation: string;
+  /** Abbreviation the text introduces ("v nadaljnjem besedilu: ZZavar") */
+  abbreviation?: string;
+}
+
+const QUOTED_GAZETTE_CITATION_PATTERN =
+  /\((?:Uradni\s+list|Ur\.\s*l\.)\s+RS,?\s+(?:št\.\s*)+(\d[^();]*?)(?:[;,:]\s*v\s+nadaljnjem\s+besedilu:\s*([^();]+?))?\)/g;
+
+/**
+ * Extract the gazette citations a provision quotes for the acts it names
+ */
+export function extractQuotedGazetteCitations(content: string): QuotedGazetteCitation[] {
+  return [...content.matchAll(QUOTED_GAZETTE_CITATION_PATTERN)].map(match => ({
+    preceding: content.slice(Math.max(0, match.index - 200), match.index).trimEnd(),
+    citation: `Uradni list RS, št. ${match[1].trim()}`,
+    ...(match[2] && { abbreviation: match[2].trim() }),
+  }));
+}
+
+/**
+ * The statute an amending act changes, by the convention of naming novele
+ * after the amended statute with a letter: "ZS-K" amends ZS, "ZDU-1F" amends
+ * ZDU-1. Null for acts named otherwise ("ZZSDT", "ZST-1").
+ */
+export function amendedStatuteAbbreviation(act: string): string | null {
+  const match = act.match(/^([A-ZČŠŽ][A-Za-zČŠŽčšž]*)(?:-(\d+)([A-ZČŠŽ]{1,2})|-([A-ZČŠŽ]{1,2}))$/);
+  if (!match) return null;
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
 /**
  * Extract effective date from Slovenian text
  * Returns date in ISO format (YYYY-MM-DD) if found
@@ -4,10 +4,14 @@
  * Detects patterns like:
  * - "1. člen ZKP"
  * - "v skladu z 42. členom"
- * - "na podlagi 15. do 20. člena"
+ * - "na podlagi 15. do 20. člena" (one reference per article of the range)
+ * - "5., 7. in 9. člen"
  * - "3. odstavek 7. člena"
  */
 
+import { ARTICLE_LIST_SOURCE, expandArticleList } from '../utils/article-list.js';
+import { getAliasIndex, lookupAlias, type AliasIndex } from '../utils/document-aliases.js';
+
 export interface ExtractedCrossReference {
   /** Target statute abbreviation (e.g. "ZKP", "OZ") */
   target_statute?: string;
@@ -19,32 +23,20 @@ export interface ExtractedCrossReference {
   raw_text: string;
 }
 
-// Map of common Slovenian statute abbreviations to PIS IDs
-const STATUTE_ABBREVIATIONS: Record<string, string> = {
-  'ZKP': 'zakon-o-kazenskem-postopku',
-  'KZ-1': 'kazenski-zakonik',
-  'OZ': 'obligacijski-zakonik',
-  'ZPP': 'zakon-o-pravdnem-postopku',
-  'ZUP': 'zakon-o-splosnem-upravnem-postopku',
-  'ZDR-1': 'zakon-o-delovnih-razmerjih',
-  'ZPIZ-2': 'zakon-o-pokojninskem-in-invalidskem-zavarovanju',
-  'ZGD-1': 'zakon-o-gospodarskih-druzbah',
-  'ZLS': 'zakon-o-lokalni-samoupravi',
-  'ZJN-3': 'zakon-o-javnem-narocanju',
-  'ZVOP-2': 'zakon-o-varstvu-osebnih-podatkov',
-  'ZUS-1': 'zakon-o-upravnem-sporu',
-  'ZDavP-2': 'zakon-o-davcnem-postopku',
-  'ZDDV-1': 'zakon-o-davku-na-dodano-vrednost',
-  'SPZ': 'stvarnopravni-zakonik',
-  'ZZK-1': 'zakon-o-zemljiski-knjigi',
-  'Ustava': 'ustava-republike-slovenije',
-};
-
 // "NN. člen(a) ABBREVIATION"
-const ARTICLE_WITH_STATUTE = /(\d+)\.\s*člen(?:a|om|u)?\s+([A-ZČŠŽ][A-ZČŠŽ0-9-]+(?:-\d+)?)/g;
+// Abbreviations start with two capitals but may continue in mixed case ("ZDavP-2", "ZMed");
+// the Constitution is cited by its inflected name ("Ustave", "Ustavi").
+const ARTICLE_WITH_STATUTE = /(\d+)\.\s*člen(?:a|om|u)?\s+(Ustav[aeio]\b|[A-ZČŠŽ]{2}[A-Za-zČŠŽčšž]*(?:-\d+)?)/g;
+
+// "NN. člen(a)" without statute (refers to current document). The ending must
+// not backtrack ("17. člen|a ZKP"), or the statute lookahead is bypassed.
+const ARTICLE_ONLY = /(\d+)\.\s*člen(?:a|om|u)?(?![a-zčšž])(?!\s+[A-ZČŠŽ])/g;
 
-// "NN. člen(a)" without statute (refers to current document)
-const ARTICLE_ONLY = /(\d+)\.\s*člen(?:a|om|u)?(?!\s+[A-ZČŠŽ])/g;
+// "NN. do MM. člena [ABBREVIATION]", "NN., MM. in KK. člen [ABBREVIATION]"
+const ARTICLE_LIST = new RegExp(
+  `(${ARTICLE_LIST_SOURCE})\\.?\\s*člen(?:a|om|u|ov|ih|i|oma)?(?:\\s+(Ustav[aeio]\\b|[A-ZČŠŽ]{2}[A-Za-zČŠŽčšž]*(?:-\\d+)?))?`,
+  'g',
+);
 
 // "N. odstavek NN. člena"
 const PARAGRAPH_ARTICLE = /(\d+)\.\s*odstavek\s+(\d+)\.\s*člen(?:a|om|u)?/g;
@@ -72,14 +64,33 @@ export function extractCrossReferences(text: string): ExtractedCrossReference[]
     }
   }
 
+  // Article ranges and enumerations, expanded to each article. The last
+  // article is matched again below and skipped as already seen.
+  ARTICLE_LIST.lastIndex = 0;
+  while ((match = ARTICLE_LIST.exec(text)) !== null) {
+    const statute = match[2]?.startsWith('Ustav') ? 'Ustava' : match[2];
+    for (const article of expandArticleList(match[1]) ?? []) {
+      const key = statute ? `${statute}-a${article}` : `self-a${article}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        results.push({
+          ...(statute && { target_statute: statute }),
+          target_article: article,
+          raw_text: match[0],
+        });
+      }
+    }
+  }
+
   // Article with statute abbreviation
   ARTICLE_WITH_STATUTE.lastIndex = 0;
   while ((match = ARTICLE_WITH_STATUTE.exec(text)) !== null) {
-    const key = `${match[2]}-a${match[1]}`;
+    const statute = match[2].startsWith('Ustav') ? 'Ustava' : match[2];
+    const key = `${statute}-a${match[1]}`;
     if (!seen.has(key)) {
       seen.add(key);
       results.push({
-        target_statute: match[2],
+        target_statute: statute,
         target_article: match[1],
         raw_text: match[0],
       });
@@ -103,8 +114,11 @@ export function extractCrossReferences(text: string): ExtractedCrossReference[]
 }
 
 /**
- * Resolve a statute abbreviation to its PIS ID
+ * Resolve a statute abbreviation to its document ID via the alias registry
  */
-export function resolveStatuteAbbreviation(abbreviation: string): string | undefined {
-  return STATUTE_ABBREVIATIONS[abbreviation];
+export function resolveStatuteAbbreviation(
+  abbreviation: string,
+  index: AliasIndex = getAliasIndex(),
+): string | undefined {
+  return lookupAlias(index, abbreviation)?.document_id;
 }
@@ -6,6 +6,8 @@ export interface ExtractedEUReference {
   article?: string;
   reference_type: 'implements' | 'supplements' | 'applies' | 'references';
   raw_match: string;
+  /** Offset of raw_match in the text */
+  offset: number;
 }
 
 /**
@@ -77,76 +79,84 @@ function resolveYearAndNumber(first: number, second: number): { year: number; nu
   return { year: first, number: second };
 }
 
+/**
+ * Year and number of an EU act from the two parts of its citation, in either
+ * order: "95/46" (Direktiva 95/46/ES), "2016/679", "1049/2001" (Uredba (ES) št. 1049/2001)
+ */
+export function parseEUActNumber(first: string, second: string): { year: number; number: number } {
+  return resolveYearAndNumber(normalizeYear(first), parseInt(second, 10));
+}
+
 function typeFromSlovenian(word: string): 'directive' | 'regulation' {
   return word.toLowerCase().startsWith('direktiv') ? 'directive' : 'regulation';
 }
 
 /**
- * Extract EU references from Slovenian statute text.
+ * Every EU reference match, modern-style first, then old-style.
  */
-export function extractEUReferences(text: string): ExtractedEUReference[] {
+function scanEUReferences(text: string): ExtractedEUReference[] {
   const results: ExtractedEUReference[] = [];
-  const seen = new Set<string>();
-
   let match: RegExpExecArray | null;
 
   // Modern-style: "Direktiva (EU) 2019/770" or "Uredba (EU) 2016/679"
   MODERN_PATTERN.lastIndex = 0;
   while ((match = MODERN_PATTERN.exec(text)) !== null) {
-    const article = match[1] || undefined;
-    const docType = typeFromSlovenian(match[2]);
-    const community = match[3];
     const rawFirst = normalizeYear(match[4]);
     const rawSecond = parseInt(match[5], 10);
     const { year, number } = resolveYearAndNumber(rawFirst, rawSecond);
 
     const precedingStart = Math.max(0, match.index - 50);
-    const precedingText = text.slice(precedingStart, match.index);
-    const reference_type = classifyReferenceType(precedingText);
-
-    const key = `${docType}:${year}/${number}:${article ?? ''}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      results.push({
-        type: docType,
-        year,
-        number,
-        community,
-        article,
-        reference_type,
-        raw_match: match[0],
-      });
-    }
+    results.push({
+      type: typeFromSlovenian(match[2]),
+      year,
+      number,
+      community: match[3],
+      article: match[1] || undefined,
+      reference_type: classifyReferenceType(text.slice(precedingStart, match.index)),
+      raw_match: match[0],
+      offset: match.index,
+    });
   }
 
   // Old-style: "Direktiva 95/46/ES"
   OLD_STYLE_PATTERN.lastIndex = 0;
   while ((match = OLD_STYLE_PATTERN.exec(text)) !== null) {
-    const article = match[1] || undefined;
-    const docType = typeFromSlovenian(match[2]);
     const rawFirst = normalizeYear(match[3]);
     const rawSecond = parseInt(match[4], 10);
     const { year, number } = resolveYearAndNumber(rawFirst, rawSecond);
-    const community = match[5];
 
     const precedingStart = Math.max(0, match.index - 50);
-    const precedingText = text.slice(precedingStart, match.index);
-    const reference_type = classifyReferenceType(precedingText);
-
-    const key = `${docType}:${year}/${number}:${article ?? ''}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      results.push({
-        type: docType,
-        year,
-        number,
-        community,
-        article,
-        reference_type,
-        raw_match: match[0],
-      });
-    }
+    results.push({
+      type: typeFromSlovenian(match[2]),
+      year,
+      number,
+      community: match[5],
+      article: match[1] || undefined,
+      reference_type: classifyReferenceType(text.slice(precedingStart, match.index)),
+      raw_match: match[0],
+      offset: match.index,
+    });
   }
 
   return results;
 }
+
+/**
+ * Extract EU references from Slovenian statute text, once per act and article.
+ */
+export function extractEUReferences(text: string): ExtractedEUReference[] {
+  const seen = new Set<string>();
+  return scanEUReferences(text).filter(ref => {
+    const key = `${ref.type}:${ref.year}/${ref.number}:${ref.article ?? ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Every occurrence of an EU reference in the text, in text order.
+ */
+export function findEUReferences(text: string): ExtractedEUReference[] {
+  return scanEUReferences(text).sort((a, b) => a.offset - b.offset);
+}
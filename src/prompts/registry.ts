@@ -0,0 +1,194 @@
+/**
+ * Prompt registry for Slovenian Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Each prompt encodes one of the team's recurring research workflows as a
+ * parameterised instruction: which tools to call, in which order, and how
+ * to structure the answer. The instructions are in Slovenian, like the work.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+type PromptArguments = Record<string, string | undefined>;
+
+interface PromptTemplate {
+  prompt: Prompt;
+  render(args: PromptArguments): string;
+}
+
+const DOCUMENT_ID_ARGUMENT = {
+  name: 'document_id',
+  description: 'Predpis: kratica ("ZVOP-2"), ID PIS ("ZAKO7959") ali naslov',
+};
+
+/** Numbered steps, skipping the ones that do not apply */
+function steps(...lines: (string | false)[]): string {
+  return lines.filter(Boolean).map((line, i) => `${i + 1}. ${line}`).join('\n');
+}
+
+const TEMPLATES: PromptTemplate[] = [
+  {
+    prompt: {
+      name: 'analiza_skladnosti_gdpr',
+      title: 'Analiza skladnosti z GDPR',
+      description: 'Analiza slovenskega predpisa ali člena glede na Splošno uredbo o varstvu podatkov (Uredba (EU) 2016/679): veljavnost, povezave z EU pravom, neskladja in sodna praksa.',
+      arguments: [
+        { ...DOCUMENT_ID_ARGUMENT, required: true },
+        { name: 'provision_ref', description: 'Člen, na katerega se analiza omeji (npr. "6")' },
+      ],
+    },
+    render: ({ document_id, provision_ref }) => {
+      const subject = provision_ref ? `${provision_ref}. člena ${document_id}` : document_id;
+      return [
+        `Analiziraj skladnost ${subject} s Splošno uredbo o varstvu podatkov (GDPR, Uredba (EU) 2016/679, v bazi "regulation:2016/679").`,
+        '',
+        'Postopek:',
+        steps(
+          `check_currency (document_id: "${document_id}"${provision_ref ? `, provision_ref: "${provision_ref}"` : ''}) – preveri, ali predpis velja; če ne, to navedi na začetku analize.`,
+          `get_eu_basis (document_id: "${document_id}", include_articles: true) – ugotovi, ali predpis izvaja GDPR ali se nanj sklicuje.`,
+          provision_ref
+            ? `get_provision_eu_basis (document_id: "${document_id}", provision_ref: "${provision_ref}") – na katere člene GDPR se člen sklicuje.`
+            : 'get_provision_eu_basis – za ključne člene (pravne podlage za obdelavo, pravice posameznika, nadzorni organ) ugotovi, na katere člene GDPR se sklicujejo.',
+          `validate_eu_compliance (document_id: "${document_id}"${provision_ref ? `, provision_ref: "${provision_ref}"` : ''}, eu_document_id: "regulation:2016/679") – povzemi ugotovljene težave po resnosti.`,
+          `get_provision (document_id: "${document_id}") – preberi besedilo členov, ki jih analiziraš.`,
+          'search_case_law (query: "varstvo osebnih podatkov") – poišči sodno prakso, najprej Ustavnega sodišča (court: "USRS").',
+        ),
+        '',
+        'Odgovor strukturiraj: (a) veljavnost predpisa, (b) povezave z GDPR po členih, (c) neskladja in tveganja, (d) sodna praksa, (e) priporočila. Vsako trditev podpri s citatom (format_citation) in ne navajaj ničesar, česar orodja niso vrnila.',
+      ].join('\n');
+    },
+  },
+  {
+    prompt: {
+      name: 'casovni_pregled_clena',
+      title: 'Časovni pregled člena',
+      description: 'Kronologija sprememb enega člena: veljavnost, spremembe z Uradnim listom RS, besedilo pred in po vsaki spremembi ter sodna praksa.',
+      arguments: [
+        { ...DOCUMENT_ID_ARGUMENT, required: true },
+        { name: 'article', description: 'Člen (npr. "148" ali "6.a")', required: true },
+        { name: 'from_date', description: 'Začetek obdobja (YYYY-MM-DD)' },
+        { name: 'to_date', description: 'Konec obdobja (YYYY-MM-DD), privzeto danes' },
+      ],
+    },
+    render: ({ document_id, article, from_date, to_date }) => {
+      const range = [from_date && `from_date: "${from_date}"`, to_date && `to_date: "${to_date}"`].filter(Boolean).join(', ');
+      const period = from_date || to_date
+        ? ` v obdobju${from_date ? ` od ${from_date}` : ''}${to_date ? ` do ${to_date}` : ''}`
+        : '';
+      const target = `document_id: "${document_id}", provision_ref: "${article}"`;
+      return [
+        `Pripravi časovni pregled ${article}. člena ${document_id}${period}.`,
+        '',
+        'Postopek:',
+        steps(
+          `check_currency (${target}) – ali predpis in člen danes veljata.`,
+          `get_amendment_history (${target}${range ? `, ${range}` : ''}) – spremembe člena z Uradnim listom RS in datumi začetka veljavnosti.`,
+          `get_provision_at_date (${target}, date: …) – besedilo člena dan pred in na dan vsake spremembe.`,
+          `diff_provision (${target}, from_date: …, to_date: …) – za vsako spremembo, kateri odstavki, točke in alineje so bili dodani, črtani ali spremenjeni.`,
+          `search_case_law (query: "${article}. člen ${document_id}") – sodna praksa, ki člen razlaga; pri vsaki odločbi navedi datum, da je jasno, katero besedilo je sodišče uporabilo.`,
+        ),
+        '',
+        'Odgovor: kronološka tabela (datum, spreminjajoči akt, Uradni list RS, vrsta spremembe, bistvo spremembe), nato veljavno besedilo in opozorila, npr. na razveljavitev z odločbo Ustavnega sodišča.',
+      ].join('\n');
+    },
+  },
+  {
+    prompt: {
+      name: 'preveri_citate',
+      title: 'Preveri citate v osnutku',
+      description: 'Preveri vse pravne citate v osnutku pogodbe, vloge ali mnenja: obstoj, veljavnost, pravilna oblika.',
+      arguments: [
+        { name: 'text', description: 'Besedilo osnutka', required: true },
+      ],
+    },
+    render: ({ text }) => [
+      'Preveri vse pravne citate v spodnjem osnutku.',
+      '',
+      'Postopek:',
+      steps(
+        'extract_citations (text: osnutek) – najdi citate predpisov, Uradnega lista RS, ECLI, opravilnih številk in aktov EU.',
+        'validate_citation – za vsak citat, ki ga ni v bazi (exists: false) ali ima opozorila, ugotovi, ali je napaka v oznaki predpisa, številki člena ali pinpointu (odstavek, točka, alineja).',
+        'check_currency – za vsak citirani predpis opozori na razveljavljene ali spremenjene predpise in člene.',
+        'format_citation (format: "full") – predlagaj pravilno obliko vsakega citata; kjer citat stoji v stavku, uporabi ustrezni sklon (grammatical_case).',
+      ),
+      '',
+      'Odgovor: tabela (citat v besedilu, težava, predlagani popravek), na koncu pa seznam citatov, ki so pravilni.',
+      '',
+      'Osnutek:',
+      '"""',
+      text ?? '',
+      '"""',
+    ].join('\n'),
+  },
+  {
+    prompt: {
+      name: 'pravno_stalisce',
+      title: 'Pravno stališče s sodno prakso',
+      description: 'Pravno stališče do vprašanja na podlagi predpisov, sodne prakse, zakonodajnega gradiva in sklicev med določbami.',
+      arguments: [
+        { name: 'question', description: 'Pravno vprašanje', required: true },
+        { ...DOCUMENT_ID_ARGUMENT, description: 'Predpis, na katerega se omejiš (neobvezno)' },
+        { name: 'as_of_date', description: 'Dan, na katerega se presoja pravno stanje (YYYY-MM-DD)' },
+      ],
+    },
+    render: ({ question, document_id, as_of_date }) => {
+      const scope = [document_id && `document_id: "${document_id}"`, as_of_date && `as_of_date: "${as_of_date}"`].filter(Boolean);
+      return [
+        `Pripravi pravno stališče do vprašanja: ${question}`,
+        ...(document_id ? [`Osredotoči se na ${document_id}.`] : []),
+        ...(as_of_date ? [`Upoštevaj pravno stanje na dan ${as_of_date}.`] : []),
+        '',
+        'Postopek:',
+        steps(
+          `build_legal_stance (query: vprašanje${scope.length > 0 ? `, ${scope.join(', ')}` : ''}) – zberi določbe, sodno prakso, zakonodajno gradivo in sklice.`,
+          'get_provision – preberi celotno besedilo ključnih členov, po potrebi samo odstavek ali točko.',
+          `check_currency – preveri, ali ključni členi veljajo${as_of_date ? ` na dan ${as_of_date}` : ''}.`,
+          'search_case_law – dopolni sodno prakso, najprej Ustavno (court: "USRS") in Vrhovno sodišče (court: "VSRS"), nato višja sodišča.',
+          'get_preparatory_works – kjer besedilo ni jasno, preveri namen zakonodajalca.',
+          'get_cross_references – katere določbe ključni členi uporabljajo in katere se sklicujejo nanje.',
+        ),
+        '',
+        'Odgovor: (a) kratek odgovor, (b) pravna podlaga s citati, (c) sodna praksa (ECLI, opravilna številka, bistvo odločitve), (d) odprta vprašanja in tveganja. Jasno loči, kaj izhaja iz virov in kaj je tvoja razlaga.',
+      ].join('\n');
+    },
+  },
+];
+
+export const PROMPTS: Prompt[] = TEMPLATES.map(template => template.prompt);
+
+/** Render a prompt; throws InvalidParams for unknown prompts and missing required arguments */
+export function getPrompt(name: string, args: PromptArguments = {}): GetPromptResult {
+  const template = TEMPLATES.find(t => t.prompt.name === name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt "${name}". Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+
+  const missing = (template.prompt.arguments ?? [])
+    .filter(argument => argument.required && !args[argument.name]?.trim())
+    .map(argument => argument.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(', ')}`);
+  }
+
+  const trimmed = Object.fromEntries(Object.entries(args).map(([key, value]) => [key, value?.trim() || undefined]));
+  return {
+    description: template.prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: template.render(trimmed) } }],
+  };
+}
+
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(request.params.name, request.params.arguments),
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * Resource registry for Slovenian Legal Citation MCP Server.
+ * Shared between stdio (index.ts) and HTTP (http-server.ts, api/mcp.ts) entry points.
+ *
+ * Resources let a client attach a statute, a člen or a decision as context
+ * instead of calling a tool:
+ *
+ *   si-law://statute/{document_id}                 current consolidated text
+ *   si-law://statute/{document_id}/clen/{article}  one člen
+ *   si-law://statute/{document_id}@{date}          the statute as it stood on a date
+ *   si-law://case/{ecli}                           a court decision
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import Database from '@ansvar/mcp-sqlite';
+
+import { getDocumentAtDate, renderDocumentText, type ArticleAtDate } from '../tools/get-document-at-date.js';
+import { normalizeArticleNumber } from '../utils/article-list.js';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { resolveDocumentReference } from '../utils/document-id.js';
+import { ToolError } from '../utils/errors.js';
+import { MCP_SERVER_NAME, MCP_SERVER_VERSION, METADATA_RESOURCE_URI } from '../server-metadata.js';
+
+/** "Resource not found" from the MCP specification */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Largest page get_document_at_date serves; statutes are read page by page */
+const DOCUMENT_PAGE_SIZE = 200;
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'si-law://statute/{document_id}',
+    name: 'Slovenian statute',
+    description: 'Current consolidated text of a Slovenian statute from PIS, every člen in structural order. document_id accepts a short name ("ZVOP-2"), PIS ID ("ZAKO7959") or title slug.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'si-law://statute/{document_id}/clen/{article}',
+    name: 'Člen of a Slovenian statute',
+    description: 'Current text of one article (člen), e.g. si-law://statute/ZVOP-2/clen/6 or si-law://statute/OZ/clen/382.a.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'si-law://statute/{document_id}@{date}',
+    name: 'Slovenian statute at a date',
+    description: 'A statute as it stood on a date (YYYY-MM-DD), e.g. si-law://statute/ZDR-1@2015-06-01. Articles not yet or no longer in force on that date are marked.',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'si-law://case/{ecli}',
+    name: 'Slovenian court decision',
+    description: 'A decision from sodnapraksa.si by ECLI, e.g. si-law://case/ECLI:SI:VSRS:2020:II.IPS.45.2019: court, case number, date and summary.',
+    mimeType: 'text/plain',
+  },
+];
+
+// Most specific first: "{document_id}" alone would also match ".../clen/6" and "...@2020-01-01"
+const ARTICLE_TEMPLATE = new UriTemplate('si-law://statute/{document_id}/clen/{article}');
+const DATED_STATUTE_TEMPLATE = new UriTemplate('si-law://statute/{document_id}@{date}');
+const STATUTE_TEMPLATE = new UriTemplate('si-law://statute/{document_id}');
+const CASE_TEMPLATE = new UriTemplate('si-law://case/{ecli}');
+
+interface DocumentRow {
+  id: string;
+  title: string;
+  short_name: string | null;
+  status: string;
+}
+
+interface ProvisionRow {
+  provision_ref: string;
+  article: string;
+  chapter: string | null;
+  section: string | null;
+  title: string | null;
+  content: string;
+}
+
+interface DecisionRow {
+  title: string;
+  url: string | null;
+  court: string;
+  ecli: string;
+  case_number: string | null;
+  decision_date: string | null;
+  procedure_type: string | null;
+  legal_domain: string | null;
+  summary: string | null;
+  keywords: string | null;
+}
+
+function notFound(uri: string, reason: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri} (${reason})`, { uri });
+}
+
+/** Template variables arrive percent-encoded when the client encoded them ("ECLI%3ASI%3A...") */
+function variable(value: string | string[]): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function textContents(uri: string, text: string): ReadResourceResult {
+  return { contents: [{ uri, mimeType: 'text/plain', text }] };
+}
+
+function findDocument(db: InstanceType<typeof Database>, uri: string, reference: string): DocumentRow {
+  const resolution = resolveDocumentReference(db, reference);
+  if (resolution.ambiguous) {
+    const alternatives = resolution.candidates.map(c => c.short_name ?? c.document_id).join(', ');
+    throw notFound(uri, `"${reference}" is ambiguous: ${alternatives}`);
+  }
+  const documentId = resolution.document_id;
+  const row = documentId
+    ? db.prepare('SELECT id, title, short_name, status FROM legal_documents WHERE id = ?').get(documentId) as
+      DocumentRow | undefined
+    : undefined;
+  if (!row) throw notFound(uri, `no document matching "${reference}"`);
+  return row;
+}
+
+/** "Zakon o varstvu osebnih podatkov (ZVOP-2)", with the status when it is no longer plain in force */
+function documentHeading(doc: DocumentRow): string {
+  const title = doc.short_name && !doc.title.includes(`(${doc.short_name})`) ? `${doc.title} (${doc.short_name})` : doc.title;
+  return doc.status === 'in_force' ? title : `${title}\n[Status: ${doc.status}]`;
+}
+
+function currentArticles(rows: ProvisionRow[]): ArticleAtDate[] {
+  return rows.map(row => ({
+    ...row,
+    status: 'in_force',
+    version_id: null,
+    valid_from: null,
+    valid_to: null,
+  }));
+}
+
+function readStatute(db: InstanceType<typeof Database>, uri: string, reference: string): ReadResourceResult {
+  const doc = findDocument(db, uri, reference);
+  const rows = db.prepare(`
+    SELECT provision_ref, article, chapter, section, title, content
+    FROM legal_provisions
+    WHERE document_id = ?
+    ORDER BY id
+  `).all(doc.id) as ProvisionRow[];
+  const today = new Date().toISOString().slice(0, 10);
+  return textContents(uri, `${documentHeading(doc)}\n\n${renderDocumentText(currentArticles(rows), today)}`);
+}
+
+function readArticle(db: InstanceType<typeof Database>, uri: string, reference: string, article: string): ReadResourceResult {
+  const doc = findDocument(db, uri, reference);
+  const provisionRef = normalizeArticleNumber(article.trim());
+  const row = db.prepare(`
+    SELECT provision_ref, article, chapter, section, title, content
+    FROM legal_provisions
+    WHERE document_id = ? AND provision_ref = ?
+  `).get(doc.id, provisionRef) as ProvisionRow | undefined;
+  if (!row) throw notFound(uri, `${doc.id} has no člen ${provisionRef}`);
+  const today = new Date().toISOString().slice(0, 10);
+  return textContents(uri, `${documentHeading(doc)}\n\n${renderDocumentText(currentArticles([row]), today)}`);
+}
+
+async function readStatuteAtDate(
+  db: InstanceType<typeof Database>,
+  uri: string,
+  reference: string,
+  rawDate: string,
+): Promise<ReadResourceResult> {
+  let date: string | undefined;
+  try {
+    date = normalizeIsoDate(rawDate, 'date');
+  } catch (error) {
+    const details = error instanceof ToolError ? { uri, error: error.info } : { uri };
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI ${uri}: ${(error as Error).message}`, details);
+  }
+  const doc = findDocument(db, uri, reference);
+
+  const articles: ArticleAtDate[] = [];
+  // Not yet in force on the date, no dated versions, no versions at all
+  let note: string | undefined;
+  let cursor: string | undefined;
+  do {
+    const page = await getDocumentAtDate(db, { document_id: doc.id, date: date!, limit: DOCUMENT_PAGE_SIZE, cursor });
+    articles.push(...(page.results?.articles ?? []));
+    note ??= page._metadata.note;
+    cursor = page.results?.next_cursor ?? undefined;
+  } while (cursor);
+
+  const heading = `${documentHeading(doc)}\n[Text as in force on ${date}]${note ? `\n[${note}]` : ''}`;
+  if (articles.length === 0) {
+    return textContents(uri, note ? heading : `${heading}\n\n[No provision versions stored for ${doc.id}]`);
+  }
+  return textContents(uri, `${heading}\n\n${renderDocumentText(articles, date!)}`);
+}
+
+function readDecision(db: InstanceType<typeof Database>, uri: string, ecli: string): ReadResourceResult {
+  let row: DecisionRow | undefined;
+  try {
+    row = db.prepare(`
+      SELECT d.title, d.url, c.court, c.ecli, c.case_number, c.decision_date,
+             c.procedure_type, c.legal_domain, c.summary, c.keywords
+      FROM case_law AS c
+      JOIN legal_documents AS d ON c.document_id = d.id
+      WHERE c.ecli = ?
+    `).get(ecli.trim().toUpperCase()) as DecisionRow | undefined;
+  } catch {
+    // case_law may not exist in a free-tier or test database
+  }
+  if (!row) throw notFound(uri, `no decision with ${ecli}`);
+
+  const lines = [
+    row.title,
+    `ECLI: ${row.ecli}`,
+    `Court: ${row.court}`,
+    row.case_number && `Case number: ${row.case_number}`,
+    row.decision_date && `Decision date: ${row.decision_date}`,
+    row.procedure_type && `Procedure: ${row.procedure_type}`,
+    row.legal_domain && `Legal domain: ${row.legal_domain}`,
+    row.keywords && `Keywords: ${row.keywords}`,
+    row.url && `Source: ${row.url}`,
+  ].filter(Boolean);
+  return textContents(uri, `${lines.join('\n')}${row.summary ? `\n\n${row.summary}` : ''}`);
+}
+
+function readMetadata(uri: string): ReadResourceResult {
+  const metadata = {
+    name: MCP_SERVER_NAME,
+    version: MCP_SERVER_VERSION,
+    sources: {
+      statutes: {
+        name: 'PIS (pisrs.si)',
+        description: 'Pravno-informacijski sistem RS — official portal for Slovenian legislation',
+        url: 'https://pisrs.si',
+        license: 'Public domain (government data)',
+      },
+      case_law: {
+        name: 'sodnapraksa.si',
+        description: 'Official open data portal for Slovenian court decisions',
+        url: 'https://www.sodnapraksa.si',
+        license: 'Public domain (government data)',
+      },
+      eu_law: {
+        name: 'EUR-Lex',
+        description: 'Official EU legislation database',
+        url: 'https://eur-lex.europa.eu',
+        license: 'Open Data',
+      },
+    },
+    attribution:
+      'Data sourced from pisrs.si and sodnapraksa.si. Case law metadata provided under public domain.',
+  };
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(metadata, null, 2),
+      },
+    ],
+  };
+}
+
+/** Read any resource this server offers; throws McpError -32002 for unknown URIs */
+export async function readResource(db: InstanceType<typeof Database>, uri: string): Promise<ReadResourceResult> {
+  if (uri === METADATA_RESOURCE_URI) return readMetadata(uri);
+
+  const article = ARTICLE_TEMPLATE.match(uri);
+  if (article) return readArticle(db, uri, variable(article.document_id), variable(article.article));
+
+  const dated = DATED_STATUTE_TEMPLATE.match(uri);
+  if (dated) return readStatuteAtDate(db, uri, variable(dated.document_id), variable(dated.date));
+
+  const statute = STATUTE_TEMPLATE.match(uri);
+  if (statute) return readStatute(db, uri, variable(statute.document_id));
+
+  const decision = CASE_TEMPLATE.match(uri);
+  if (decision) return readDecision(db, uri, variable(decision.ecli));
+
+  throw notFound(uri, 'unknown URI');
+}
+
+export function registerResources(
+  server: Server,
+  db: InstanceType<typeof Database>,
+): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: METADATA_RESOURCE_URI,
+        name: 'Slovenian Legal Database Metadata',
+        description:
+          'Metadata about the Slovenian legal database including data sources, coverage, and freshness.',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => readResource(db, request.params.uri));
+}
@@ -1,6 +1,7 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import { resolveDocumentId } from '../utils/document-id.js';
+import { ToolError } from '../utils/errors.js';
 import { searchLegislation, type SearchLegislationResult } from './search-legislation.js';
 import { searchCaseLaw, type SearchCaseLawResult } from './search-case-law.js';
 
@@ -90,19 +91,7 @@ export async function buildLegalStance(
     const resolved = resolveDocumentId(db, input.document_id);
     resolvedDocId = resolved ?? undefined;
     if (!resolved) {
-      return {
-        results: {
-          query,
-          provisions: [],
-          case_law: [],
-          preparatory_works: [],
-          cross_references: [],
-        },
-        _metadata: {
-          ...generateResponseMetadata(db),
-          note: `No document found matching "${input.document_id}"`,
-        },
-      };
+      throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
     }
   }
 
@@ -172,14 +161,19 @@ export async function buildLegalStance(
     cross_references: crossReferences,
   };
 
-  // Propagate query_strategy from search if fallback was used
+  // Propagate query_strategy from search if fallback or thesaurus expansion was used
   const metadata = generateResponseMetadata(db);
-  if (provisionResults._metadata.query_strategy) {
+  const diacriticsFolded =
+    provisionResults._metadata.diacritics_folded || caseLawResults._metadata.diacritics_folded;
+  const { query_strategy, query_expansion } = provisionResults._metadata;
+  if (query_strategy || diacriticsFolded) {
     return {
       results: result,
       _metadata: {
         ...metadata,
-        query_strategy: provisionResults._metadata.query_strategy,
+        ...(query_strategy && { query_strategy }),
+        ...(query_expansion && { query_expansion }),
+        ...(diacriticsFolded && { diacritics_folded: true }),
       },
     };
   }
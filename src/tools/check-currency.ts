@@ -1,6 +1,7 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { normalizeAsOfDate, extractRepealDateFromDescription } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { ToolError, toolErrorInfo, type ToolErrorInfo } from '../utils/errors.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -38,6 +39,7 @@ export async function checkCurrency(
   const { document_id, provision_ref } = input;
   const asOfDate = normalizeAsOfDate(input.as_of_date) ?? new Date().toISOString().slice(0, 10);
   const warnings: string[] = [];
+  const errors: ToolErrorInfo[] = [];
 
   const docRow = db.prepare(
     'SELECT id, title, status, in_force_date, description FROM legal_documents WHERE id = ?'
@@ -50,23 +52,7 @@ export async function checkCurrency(
   } | undefined;
 
   if (!docRow) {
-    return {
-      results: {
-        document_id,
-        document_title: '',
-        status: 'not_found',
-        is_current: false,
-        as_of_date: asOfDate,
-        in_force_date: null,
-        repeal_date: null,
-        provision_ref: provision_ref ?? null,
-        provision_valid_from: null,
-        provision_valid_to: null,
-        warnings: [`Dokument ${document_id} ni najden v bazi podatkov`],
-        related_case_law: [],
-      },
-      _metadata: generateResponseMetadata(db),
-    };
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id });
   }
 
   const repealDate = extractRepealDateFromDescription(docRow.description) ?? null;
@@ -120,6 +106,7 @@ export async function checkCurrency(
 
       if (anyVersion.c > 0) {
         warnings.push(`Člen ${provision_ref} nima veljavne različice na datum ${asOfDate}`);
+        errors.push(toolErrorInfo('PROVISION_NOT_FOUND', { document_id, provision_ref, date: asOfDate }));
         isCurrent = false;
       } else {
         const currentProv = db.prepare(
@@ -127,6 +114,7 @@ export async function checkCurrency(
         ).get(document_id, provision_ref);
         if (!currentProv) {
           warnings.push(`Člen ${provision_ref} ni najden v dokumentu ${document_id}`);
+          errors.push(toolErrorInfo('PROVISION_NOT_FOUND', { document_id, provision_ref }));
         }
       }
     }
@@ -173,6 +161,6 @@ export async function checkCurrency(
       warnings,
       related_case_law: relatedCaseLaw,
     },
-    _metadata: generateResponseMetadata(db),
+    _metadata: { ...generateResponseMetadata(db), ...(errors.length > 0 && { errors }) },
   };
 }
@@ -0,0 +1,326 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { describeUnitLocation, parseProvisionUnits, type ProvisionUnit, type ProvisionUnitKind } from '../utils/provision-units.js';
+import { diffWords, wordSimilarity, type DiffSegment } from '../utils/word-diff.js';
+import { invalidArgument, ToolError, toolErrorInfo } from '../utils/errors.js';
+
+export interface DiffProvisionInput {
+  document_id: string;
+  provision_ref: string;
+  from_date?: string;
+  to_date?: string;
+  from_version_id?: number;
+  to_version_id?: number;
+  include_unified?: boolean;
+}
+
+export interface DiffVersionInfo {
+  version_id: number;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export type UnitChangeStatus = 'added' | 'deleted' | 'changed' | 'renumbered' | 'unchanged';
+
+export interface UnitDiff {
+  status: UnitChangeStatus;
+  kind: ProvisionUnitKind;
+  /** Location in the newer version (older version for deleted units), e.g. "2. odstavek, 3. točka" */
+  location: string;
+  from_label?: string | null;
+  to_label?: string | null;
+  /** Word-level segments; omitted for unchanged units */
+  segments?: DiffSegment[];
+}
+
+export interface DiffProvisionResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  from: DiffVersionInfo;
+  to: DiffVersionInfo;
+  identical: boolean;
+  summary: Record<UnitChangeStatus, number>;
+  title_change?: { from: string | null; to: string | null };
+  units: UnitDiff[];
+  /** Line-based rendering, only with include_unified */
+  unified?: string;
+}
+
+interface VersionRow {
+  id: number;
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+/** Units sharing fewer words than this are treated as a deletion plus an addition */
+const MATCH_THRESHOLD = 0.5;
+
+const VERSION_COLUMNS = 'id, title, content, valid_from, valid_to';
+
+function getVersionById(
+  db: Database,
+  documentId: string,
+  provisionRef: string,
+  versionId: number,
+  field: 'from_version_id' | 'to_version_id',
+): VersionRow {
+  const row = db.prepare(`
+    SELECT ${VERSION_COLUMNS} FROM legal_provision_versions
+    WHERE id = ? AND document_id = ? AND provision_ref = ?
+  `).get(versionId, documentId, provisionRef) as VersionRow | undefined;
+  if (!row) {
+    throw invalidArgument(field, `${versionId} is not a version of ${documentId} ${provisionRef}`);
+  }
+  return row;
+}
+
+function getVersionAtDate(db: Database, documentId: string, provisionRef: string, date: string): VersionRow | undefined {
+  return db.prepare(`
+    SELECT ${VERSION_COLUMNS} FROM legal_provision_versions
+    WHERE document_id = ? AND provision_ref = ?
+      AND (valid_from IS NULL OR valid_from <= ?)
+      AND (valid_to IS NULL OR valid_to > ?)
+    ORDER BY valid_from DESC, id DESC
+    LIMIT 1
+  `).get(documentId, provisionRef, date, date) as VersionRow | undefined;
+}
+
+/** The version in force before `version`, i.e. the text its last amendment replaced. */
+function getPreviousVersion(db: Database, documentId: string, provisionRef: string, version: VersionRow): VersionRow | undefined {
+  return db.prepare(`
+    SELECT ${VERSION_COLUMNS} FROM legal_provision_versions
+    WHERE document_id = ? AND provision_ref = ?
+      AND (COALESCE(valid_from, '') < COALESCE(?, '')
+        OR (COALESCE(valid_from, '') = COALESCE(?, '') AND id < ?))
+    ORDER BY COALESCE(valid_from, '') DESC, id DESC
+    LIMIT 1
+  `).get(documentId, provisionRef, version.valid_from, version.valid_from, version.id) as VersionRow | undefined;
+}
+
+type Alignment = { before?: ProvisionUnit; after?: ProvisionUnit; similarity: number };
+
+/**
+ * Pair units of the two versions in order, maximising total word similarity.
+ * Only units of the same kind are paired; the rest are additions/deletions.
+ */
+function alignUnits(before: ProvisionUnit[], after: ProvisionUnit[]): Alignment[] {
+  const n = before.length;
+  const m = after.length;
+  const similarity = before.map(a => after.map(b =>
+    a.kind === b.kind ? wordSimilarity(a.text, b.text) : 0));
+
+  const score = Array.from({ length: n + 1 }, () => new Float64Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      const paired = similarity[i][j] >= MATCH_THRESHOLD ? score[i + 1][j + 1] + similarity[i][j] : -1;
+      score[i][j] = Math.max(paired, score[i + 1][j], score[i][j + 1]);
+    }
+  }
+
+  const alignment: Alignment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (similarity[i][j] >= MATCH_THRESHOLD && score[i][j] === score[i + 1][j + 1] + similarity[i][j]) {
+      alignment.push({ before: before[i], after: after[j], similarity: similarity[i][j] });
+      i++;
+      j++;
+    } else if (score[i][j] === score[i + 1][j]) {
+      alignment.push({ before: before[i++], similarity: 0 });
+    } else {
+      alignment.push({ after: after[j++], similarity: 0 });
+    }
+  }
+  while (i < n) alignment.push({ before: before[i++], similarity: 0 });
+  while (j < m) alignment.push({ after: after[j++], similarity: 0 });
+  return alignment;
+}
+
+function toUnitDiff({ before, after }: Alignment): UnitDiff {
+  if (before && after) {
+    const status: UnitChangeStatus = before.text !== after.text
+      ? 'changed'
+      : before.label !== after.label || describeUnitLocation(before) !== describeUnitLocation(after)
+        ? 'renumbered'
+        : 'unchanged';
+    return {
+      status,
+      kind: after.kind,
+      location: describeUnitLocation(after),
+      from_label: before.label,
+      to_label: after.label,
+      ...(status !== 'unchanged' && { segments: diffWords(before.text, after.text) }),
+    };
+  }
+  if (after) {
+    return {
+      status: 'added', kind: after.kind, location: describeUnitLocation(after),
+      to_label: after.label, segments: [{ op: 'insert', text: after.text }],
+    };
+  }
+  return {
+    status: 'deleted', kind: before!.kind, location: describeUnitLocation(before!),
+    from_label: before!.label, segments: [{ op: 'delete', text: before!.text }],
+  };
+}
+
+function unitLine(unit: ProvisionUnit): string {
+  return unit.label ? `${unit.label} ${unit.text}` : unit.text;
+}
+
+function describeVersion(provisionRef: string, version: VersionRow): string {
+  const validity = version.valid_from || version.valid_to
+    ? `, valid ${version.valid_from ?? '…'} – ${version.valid_to ?? '…'}`
+    : '';
+  return `${provisionRef} (version ${version.id}${validity})`;
+}
+
+function renderUnified(provisionRef: string, from: VersionRow, to: VersionRow, alignment: Alignment[]): string {
+  const lines = [`--- ${describeVersion(provisionRef, from)}`, `+++ ${describeVersion(provisionRef, to)}`];
+  if (from.title !== to.title) {
+    if (from.title) lines.push(`- ${from.title}`);
+    if (to.title) lines.push(`+ ${to.title}`);
+  }
+  for (const { before, after } of alignment) {
+    if (before && after && unitLine(before) === unitLine(after)) {
+      lines.push(`  ${unitLine(after)}`);
+      continue;
+    }
+    if (before) lines.push(`- ${unitLine(before)}`);
+    if (after) lines.push(`+ ${unitLine(after)}`);
+  }
+  return lines.join('\n');
+}
+
+/** Seed text without validity dates says nothing about which version came first */
+function isUndated(version: VersionRow): boolean {
+  return version.valid_from === null && version.valid_to === null;
+}
+
+/** "Version 3 has" or "Versions 3 and 4 have" */
+function undatedVersions(ids: number[]): string {
+  const sorted = [...ids].sort((a, b) => a - b);
+  return sorted.length > 1 ? `Versions ${sorted.join(' and ')} have` : `Version ${sorted[0]} has`;
+}
+
+function versionInfo(version: VersionRow): DiffVersionInfo {
+  return { version_id: version.id, valid_from: version.valid_from, valid_to: version.valid_to };
+}
+
+export async function diffProvision(
+  db: Database,
+  input: DiffProvisionInput,
+): Promise<ToolResponse<DiffProvisionResult | null>> {
+  if (!input.document_id || !input.provision_ref) {
+    throw invalidArgument(input.document_id ? 'provision_ref' : 'document_id', 'is required');
+  }
+  const fromDate = normalizeIsoDate(input.from_date, 'from_date');
+  const toDate = normalizeIsoDate(input.to_date, 'to_date');
+  if (fromDate && input.from_version_id != null) {
+    throw invalidArgument('from_version_id', 'cannot be combined with from_date');
+  }
+  if (toDate && input.to_version_id != null) {
+    throw invalidArgument('to_version_id', 'cannot be combined with to_date');
+  }
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  const document = documentId
+    ? db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string } | undefined
+    : undefined;
+  if (!document) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
+  const provisionRef = input.provision_ref;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const to = input.to_version_id != null
+    ? getVersionById(db, document.id, provisionRef, input.to_version_id, 'to_version_id')
+    : getVersionAtDate(db, document.id, provisionRef, toDate ?? today);
+  if (!to) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No version of ${document.id} ${provisionRef} in force on ${toDate ?? today}`,
+        errors: [toolErrorInfo('PROVISION_NOT_FOUND', { document_id: document.id, provision_ref: provisionRef, date: toDate ?? today })],
+      },
+    };
+  }
+
+  // Without a starting point, show what the latest amendment changed
+  const from = input.from_version_id != null
+    ? getVersionById(db, document.id, provisionRef, input.from_version_id, 'from_version_id')
+    : fromDate
+      ? getVersionAtDate(db, document.id, provisionRef, fromDate)
+      : getPreviousVersion(db, document.id, provisionRef, to);
+  if (!from) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: fromDate
+          ? `No version of ${document.id} ${provisionRef} in force on ${fromDate}`
+          : `${document.id} ${provisionRef} has no earlier version to compare with`,
+        ...(fromDate && {
+          errors: [toolErrorInfo('PROVISION_NOT_FOUND', { document_id: document.id, provision_ref: provisionRef, date: fromDate })],
+        }),
+      },
+    };
+  }
+
+  const undated = [from, to].filter(isUndated).map(version => version.id);
+  const bothChosen = input.from_version_id != null && input.to_version_id != null;
+  if (from.id !== to.id && undated.length > 0 && !bothChosen) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `${undatedVersions(undated)} no validity dates, so ${document.id} ${provisionRef} cannot be ordered `
+          + 'from one version to the next; pass from_version_id and to_version_id to compare the texts anyway',
+      },
+    };
+  }
+
+  const alignment = alignUnits(parseProvisionUnits(from.content), parseProvisionUnits(to.content));
+  const units = alignment.map(toUnitDiff);
+  const summary: Record<UnitChangeStatus, number> = { added: 0, deleted: 0, changed: 0, renumbered: 0, unchanged: 0 };
+  for (const unit of units) summary[unit.status]++;
+
+  const titleChanged = from.title !== to.title;
+  const result: DiffProvisionResult = {
+    document_id: document.id,
+    document_title: document.title,
+    provision_ref: provisionRef,
+    from: versionInfo(from),
+    to: versionInfo(to),
+    identical: !titleChanged && units.every(unit => unit.status === 'unchanged'),
+    summary,
+    ...(titleChanged && { title_change: { from: from.title, to: to.title } }),
+    units,
+  };
+  if (input.include_unified) {
+    result.unified = renderUnified(provisionRef, from, to, alignment);
+  }
+
+  return {
+    results: result,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(from.id === to.id && {
+        note: isUndated(from)
+          ? `Only the current text of ${provisionRef}. člen is recorded, without validity dates, so both sides resolve to it and no changes can be shown`
+          : 'Both sides resolve to the same version',
+      }),
+      ...(from.id !== to.id && undated.length > 0 && {
+        note: `${undatedVersions(undated)} no validity dates; the units show how the two texts differ, `
+          + 'not what an amendment changed',
+      }),
+    },
+  };
+}
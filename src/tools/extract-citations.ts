@@ -0,0 +1,69 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { extractCitations as extract, type ExtractedCitation, type ExtractedCitationKind } from '../citation/extractor.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { invalidArgument } from '../utils/errors.js';
+
+export interface ExtractCitationsInput {
+  text: string;
+  /** Only these kinds of citation (default all) */
+  kinds?: ExtractedCitationKind[];
+  limit?: number;
+}
+
+export interface ExtractCitationsSummary {
+  total: number;
+  by_kind: Partial<Record<ExtractedCitationKind, number>>;
+  /** Citations of a document, člen or pinpoint missing from the database */
+  not_found: number;
+  /** Citations with warnings: repealed statutes or členi, missing units, unknown abbreviations */
+  with_warnings: number;
+}
+
+export interface ExtractCitationsResult {
+  summary: ExtractCitationsSummary;
+  citations: ExtractedCitation[];
+  /** More citations were found than limit; the summary counts all of them */
+  truncated: boolean;
+}
+
+const MAX_LIMIT = 500;
+const DEFAULT_LIMIT = 100;
+const MAX_TEXT_LENGTH = 500_000;
+
+function clampLimit(limit: number | undefined): number {
+  if (limit == null) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(limit, MAX_LIMIT));
+}
+
+export async function extractCitationsTool(
+  db: Database,
+  input: ExtractCitationsInput,
+): Promise<ToolResponse<ExtractCitationsResult>> {
+  if (!input.text || !input.text.trim()) {
+    throw invalidArgument('text', 'is required');
+  }
+  if (input.text.length > MAX_TEXT_LENGTH) {
+    throw invalidArgument('text', `is ${input.text.length} characters; the maximum is ${MAX_TEXT_LENGTH}. Split the document.`);
+  }
+  const limit = clampLimit(input.limit);
+
+  const all = extract(db, input.text, input.kinds?.length ? new Set(input.kinds) : undefined);
+  const summary: ExtractCitationsSummary = {
+    total: all.length,
+    by_kind: {},
+    not_found: all.filter(citation => !citation.exists).length,
+    with_warnings: all.filter(citation => citation.warnings.length > 0).length,
+  };
+  for (const citation of all) {
+    summary.by_kind[citation.kind] = (summary.by_kind[citation.kind] ?? 0) + 1;
+  }
+
+  const note = all.length === 0
+    ? 'No citations found. Statute citations are recognised by člen and abbreviation, e.g. "6. člena ZVOP-2"; statutes cited by full title are not.'
+    : undefined;
+
+  return {
+    results: { summary, citations: all.slice(0, limit), truncated: all.length > limit },
+    _metadata: { ...generateResponseMetadata(db), ...(note && { note }) },
+  };
+}
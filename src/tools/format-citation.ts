@@ -1,29 +1,35 @@
+import type { Database } from '@ansvar/mcp-sqlite';
 import { formatCitation } from '../citation/formatter.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
-import type { CitationFormat } from '../types/citations.js';
+import type { CitationFormat, GrammaticalCase } from '../types/citations.js';
 
 export interface FormatCitationInput {
   citation: string;
   format?: CitationFormat;
+  /** Inflect a statute citation for use in a sentence, e.g. "orodnik" for "v skladu s ..." */
+  grammatical_case?: GrammaticalCase;
 }
 
 export interface FormatCitationResult {
   original: string;
   formatted: string;
   format_used: CitationFormat;
+  grammatical_case?: GrammaticalCase;
 }
 
 export async function formatCitationTool(
+  db: Database,
   input: FormatCitationInput,
 ): Promise<ToolResponse<FormatCitationResult>> {
   const format = input.format ?? 'full';
-  const formatted = formatCitation(input.citation, format);
+  const formatted = formatCitation(input.citation, format, db, input.grammatical_case);
 
   const result: FormatCitationResult = {
     original: input.citation,
     formatted,
     format_used: format,
+    ...(input.grammatical_case && { grammatical_case: input.grammatical_case }),
   };
 
-  return { results: result, _metadata: generateResponseMetadata() };
+  return { results: result, _metadata: generateResponseMetadata(db) };
 }
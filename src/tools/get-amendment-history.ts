@@ -0,0 +1,148 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { invalidArgument, ToolError, toolErrorInfo } from '../utils/errors.js';
+import type { AmendmentHistoryType } from '../parsers/amendment-parser.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  provision_ref?: string;
+  from_date?: string;
+  to_date?: string;
+  amendment_types?: AmendmentHistoryType[];
+}
+
+export interface AmendmentHistoryEntry {
+  /** Effective date, else publication date; null when only the gazette year is known */
+  date: string | null;
+  effective_date: string | null;
+  published_date: string | null;
+  gazette_year: number | null;
+  amendment_type: AmendmentHistoryType;
+  /** Amending act as cited, e.g. "ZZSDT" or "odl. US"; null for the statute's own novele */
+  amending_act: string | null;
+  amending_document_id: string | null;
+  amending_document_title: string | null;
+  uradni_list_ref: string | null;
+  /** Article affected; null when the amendment is only known at statute level */
+  provision_ref: string | null;
+  /** Where the entry comes from: seed data (or the seed's own dates), the PIS gazette citation, a note in the article text, or dated versions */
+  source: 'seed' | 'gazette_citation' | 'provision_note' | 'version_history';
+}
+
+export interface AmendmentHistoryResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  entries: AmendmentHistoryEntry[];
+}
+
+interface AmendmentRow extends Omit<AmendmentHistoryEntry, 'date'> {
+  id: number;
+  gazette_issue: number | null;
+}
+
+/**
+ * Amendment rows for a statute, or for one of its articles, in chronological
+ * order. Returns null when the database predates the amendments table.
+ */
+export function queryAmendments(
+  db: Database,
+  documentId: string,
+  provisionRef?: string,
+): AmendmentHistoryEntry[] | null {
+  let rows: AmendmentRow[];
+  try {
+    rows = db.prepare(`
+      SELECT a.id, a.provision_ref, a.amending_act, a.amending_document_id,
+        d.title AS amending_document_title, a.uradni_list_ref, a.gazette_year, a.gazette_issue,
+        a.published_date, a.effective_date, a.amendment_type, a.source
+      FROM amendments a
+      LEFT JOIN legal_documents d ON d.id = a.amending_document_id
+      WHERE a.document_id = ?
+        ${provisionRef !== undefined ? 'AND a.provision_ref = ?' : ''}
+    `).all(...(provisionRef !== undefined ? [documentId, provisionRef] : [documentId])) as AmendmentRow[];
+  } catch {
+    return null;
+  }
+
+  const yearOf = (row: AmendmentRow): number => {
+    const date = row.effective_date ?? row.published_date;
+    return date ? parseInt(date.slice(0, 4), 10) : row.gazette_year ?? Number.MAX_SAFE_INTEGER;
+  };
+  rows.sort((a, b) =>
+    yearOf(a) - yearOf(b)
+    || (a.gazette_issue != null && b.gazette_issue != null ? a.gazette_issue - b.gazette_issue : 0)
+    || (a.effective_date ?? a.published_date ?? '').localeCompare(b.effective_date ?? b.published_date ?? '')
+    || a.id - b.id);
+
+  return rows.map(({ id: _id, gazette_issue: _issue, ...row }) => ({
+    date: row.effective_date ?? row.published_date,
+    ...row,
+  }));
+}
+
+function withinRange(entry: AmendmentHistoryEntry, fromDate?: string, toDate?: string): boolean {
+  if (entry.date) {
+    return (!fromDate || entry.date >= fromDate) && (!toDate || entry.date <= toDate);
+  }
+  if (entry.gazette_year == null) return false;
+  return (!fromDate || entry.gazette_year >= parseInt(fromDate.slice(0, 4), 10))
+    && (!toDate || entry.gazette_year <= parseInt(toDate.slice(0, 4), 10));
+}
+
+export async function getAmendmentHistory(
+  db: Database,
+  input: GetAmendmentHistoryInput,
+): Promise<ToolResponse<AmendmentHistoryResult | null>> {
+  if (!input.document_id) {
+    throw invalidArgument('document_id', 'is required');
+  }
+  const fromDate = normalizeIsoDate(input.from_date, 'from_date');
+  const toDate = normalizeIsoDate(input.to_date, 'to_date');
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  const document = documentId
+    ? db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string } | undefined
+    : undefined;
+  if (!document) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
+
+  const provisionRef = input.provision_ref?.trim() || undefined;
+  const allEntries = queryAmendments(db, document.id, provisionRef);
+  if (allEntries === null) {
+    return {
+      results: { document_id: document.id, document_title: document.title, provision_ref: provisionRef ?? null, entries: [] },
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'This database was built without amendment history. Rebuild it with npm run build:db.',
+        errors: [toolErrorInfo('CAPABILITY_UNAVAILABLE', { capability: 'amendment_history', fallback: null })],
+      },
+    };
+  }
+
+  const types = input.amendment_types?.length ? new Set(input.amendment_types) : null;
+  const entries = allEntries.filter(entry =>
+    (!types || types.has(entry.amendment_type))
+    && (!fromDate && !toDate || withinRange(entry, fromDate, toDate)));
+
+  let note: string | undefined;
+  if (allEntries.length === 0) {
+    const statuteLevel = provisionRef ? queryAmendments(db, document.id)?.length ?? 0 : 0;
+    note = statuteLevel > 0
+      ? `No amendments recorded for ${provisionRef}. člen; call without provision_ref for the ${statuteLevel} statute-level entries.`
+      : `No amendment history recorded for ${document.id}. Re-ingest it from PIS to capture its gazette citation.`;
+  } else if (allEntries.every(entry => entry.amendment_type === 'nov')) {
+    note = `Only the original publication of ${document.id} is recorded. Re-ingest it from PIS to capture later amendments.`;
+  } else if (entries.some(entry => entry.date === null)) {
+    note = 'Some entries are dated only by their Uradni list year; verify effective dates on pisrs.si.';
+  }
+
+  return {
+    results: { document_id: document.id, document_title: document.title, provision_ref: provisionRef ?? null, entries },
+    _metadata: { ...generateResponseMetadata(db), ...(note && { note }) },
+  };
+}
@@ -0,0 +1,252 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CrossReference } from '../types/index.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { normalizeProvisionRef } from '../utils/article-list.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { ToolError } from '../utils/errors.js';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  provision_ref?: string;
+  depth?: number;
+  ref_types?: string[];
+}
+
+type RefType = CrossReference['ref_type'];
+
+export interface CrossReferenceEdge {
+  source_document_id: string;
+  source_document_title: string | null;
+  source_provision_ref: string | null;
+  target_document_id: string;
+  target_document_title: string | null;
+  target_provision_ref: string | null;
+  ref_type: RefType;
+  /** Number of hops from the requested provision (1 = direct reference) */
+  hop: number;
+}
+
+export type EdgesByType = Record<RefType, CrossReferenceEdge[]>;
+
+export interface GetCrossReferencesResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  depth: number;
+  outbound: EdgesByType;
+  inbound: EdgesByType;
+  statistics: {
+    outbound_count: number;
+    inbound_count: number;
+    truncated: boolean;
+  };
+}
+
+interface EdgeRow extends Omit<CrossReferenceEdge, 'hop'> {
+  id: number;
+}
+
+interface GraphNode {
+  document_id: string;
+  provision_ref: string | null;
+}
+
+type Direction = 'outbound' | 'inbound';
+
+const REF_TYPES: RefType[] = ['references', 'amended_by', 'implements', 'see_also'];
+const MAX_DEPTH = 3;
+const DEFAULT_DEPTH = 1;
+const MAX_EDGES_PER_DIRECTION = 500;
+
+function clampDepth(depth: number | undefined): number {
+  if (depth == null) return DEFAULT_DEPTH;
+  return Math.max(1, Math.min(Math.floor(depth), MAX_DEPTH));
+}
+
+function nodeKey(node: GraphNode): string {
+  return `${node.document_id}::${node.provision_ref ?? ''}`;
+}
+
+function emptyGroups(): EdgesByType {
+  return { references: [], amended_by: [], implements: [], see_also: [] };
+}
+
+function queryEdges(
+  db: Database,
+  direction: Direction,
+  node: GraphNode,
+  refTypes: RefType[],
+): EdgeRow[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (direction === 'outbound') {
+    conditions.push('xr.source_document_id = ?');
+    params.push(node.document_id);
+    if (node.provision_ref) {
+      conditions.push('xr.source_provision_ref = ?');
+      params.push(node.provision_ref);
+    }
+  } else {
+    conditions.push('xr.target_document_id = ?');
+    params.push(node.document_id);
+    if (node.provision_ref) {
+      // A reference to the whole statute also reaches each of its provisions
+      conditions.push('(xr.target_provision_ref = ? OR xr.target_provision_ref IS NULL)');
+      params.push(node.provision_ref);
+    }
+  }
+
+  conditions.push(`xr.ref_type IN (${refTypes.map(() => '?').join(', ')})`);
+  params.push(...refTypes);
+
+  const sql = `
+    SELECT
+      xr.id,
+      xr.source_document_id,
+      sd.title AS source_document_title,
+      xr.source_provision_ref,
+      xr.target_document_id,
+      td.title AS target_document_title,
+      xr.target_provision_ref,
+      xr.ref_type
+    FROM cross_references AS xr
+    LEFT JOIN legal_documents AS sd ON xr.source_document_id = sd.id
+    LEFT JOIN legal_documents AS td ON xr.target_document_id = td.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY xr.id
+  `;
+  return db.prepare(sql).all(...params) as EdgeRow[];
+}
+
+/**
+ * Breadth-first walk of the cross-reference graph in one direction.
+ * Outbound follows source → target; inbound follows target → source.
+ */
+function walkGraph(
+  db: Database,
+  direction: Direction,
+  start: GraphNode,
+  depth: number,
+  refTypes: RefType[],
+): { edges: CrossReferenceEdge[]; truncated: boolean } {
+  const edges: CrossReferenceEdge[] = [];
+  const seenEdges = new Set<number>();
+  const visited = new Set<string>([nodeKey(start)]);
+  let frontier: GraphNode[] = [start];
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: GraphNode[] = [];
+
+    for (const node of frontier) {
+      for (const row of queryEdges(db, direction, node, refTypes)) {
+        if (seenEdges.has(row.id)) continue;
+        seenEdges.add(row.id);
+
+        edges.push({
+          source_document_id: row.source_document_id,
+          source_document_title: row.source_document_title,
+          source_provision_ref: row.source_provision_ref,
+          target_document_id: row.target_document_id,
+          target_document_title: row.target_document_title,
+          target_provision_ref: row.target_provision_ref,
+          ref_type: row.ref_type,
+          hop,
+        });
+        if (edges.length >= MAX_EDGES_PER_DIRECTION) {
+          return { edges, truncated: true };
+        }
+
+        const neighbour: GraphNode = direction === 'outbound'
+          ? { document_id: row.target_document_id, provision_ref: row.target_provision_ref }
+          : { document_id: row.source_document_id, provision_ref: row.source_provision_ref };
+        const key = nodeKey(neighbour);
+        if (!visited.has(key)) {
+          visited.add(key);
+          next.push(neighbour);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return { edges, truncated: false };
+}
+
+function groupByType(edges: CrossReferenceEdge[]): EdgesByType {
+  const groups = emptyGroups();
+  for (const edge of edges) {
+    groups[edge.ref_type]?.push(edge);
+  }
+  return groups;
+}
+
+export async function getCrossReferences(
+  db: Database,
+  input: GetCrossReferencesInput,
+): Promise<ToolResponse<GetCrossReferencesResult>> {
+  const depth = clampDepth(input.depth);
+  const provisionRef = input.provision_ref?.trim() ? normalizeProvisionRef(input.provision_ref) : null;
+  const refTypes = input.ref_types && input.ref_types.length > 0
+    ? REF_TYPES.filter(t => input.ref_types!.includes(t))
+    : REF_TYPES;
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  if (!documentId) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
+  if (refTypes.length === 0) {
+    return {
+      results: {
+        document_id: documentId,
+        document_title: '',
+        provision_ref: provisionRef,
+        depth,
+        outbound: emptyGroups(),
+        inbound: emptyGroups(),
+        statistics: { outbound_count: 0, inbound_count: 0, truncated: false },
+      },
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No supported ref_types given. Use any of: ${REF_TYPES.join(', ')}`,
+      },
+    };
+  }
+
+  const docRow = db.prepare(
+    'SELECT title FROM legal_documents WHERE id = ?'
+  ).get(documentId) as { title: string } | undefined;
+
+  const start: GraphNode = { document_id: documentId, provision_ref: provisionRef };
+  const outbound = walkGraph(db, 'outbound', start, depth, refTypes);
+  const inbound = walkGraph(db, 'inbound', start, depth, refTypes);
+  const truncated = outbound.truncated || inbound.truncated;
+
+  const result: GetCrossReferencesResult = {
+    document_id: documentId,
+    document_title: docRow?.title ?? '',
+    provision_ref: provisionRef,
+    depth,
+    outbound: groupByType(outbound.edges),
+    inbound: groupByType(inbound.edges),
+    statistics: {
+      outbound_count: outbound.edges.length,
+      inbound_count: inbound.edges.length,
+      truncated,
+    },
+  };
+
+  const metadata = generateResponseMetadata(db);
+  if (truncated) {
+    return {
+      results: result,
+      _metadata: {
+        ...metadata,
+        warning: `Graph walk truncated at ${MAX_EDGES_PER_DIRECTION} edges per direction. Reduce depth or filter by ref_types.`,
+      },
+    };
+  }
+
+  return { results: result, _metadata: metadata };
+}
@@ -0,0 +1,143 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { buildProvisionCitation } from '../utils/citation.js';
+import { foldDiacritics, foldedSql } from '../utils/diacritics.js';
+import { ToolError } from '../utils/errors.js';
+
+export interface GetDefinitionInput {
+  term: string;
+  document_id?: string;
+  as_of_date?: string;
+}
+
+export interface GetDefinitionResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  term: string;
+  term_en: string | null;
+  definition: string;
+  source_provision: string | null;
+}
+
+const MAX_PREFIX_MATCHES = 20;
+
+function findDefinitions(
+  db: Database,
+  termCondition: string,
+  termParam: string,
+  documentId: string | undefined,
+  asOfDate: string | undefined,
+): GetDefinitionResult[] {
+  const conditions: string[] = [termCondition];
+  const params: (string | number)[] = [termParam];
+
+  if (documentId) {
+    conditions.push('def.document_id = ?');
+    params.push(documentId);
+  }
+
+  if (asOfDate) {
+    conditions.push('(d.in_force_date IS NULL OR d.in_force_date <= ?)');
+    params.push(asOfDate);
+    conditions.push(`(
+      def.source_provision IS NULL OR EXISTS (
+        SELECT 1 FROM legal_provision_versions AS pv
+        WHERE pv.document_id = def.document_id
+          AND pv.provision_ref = def.source_provision
+          AND (pv.valid_from IS NULL OR pv.valid_from <= ?)
+          AND (pv.valid_to IS NULL OR pv.valid_to > ?)
+      )
+    )`);
+    params.push(asOfDate, asOfDate);
+  }
+
+  const sql = `
+    SELECT
+      def.document_id,
+      d.title AS document_title,
+      d.status AS document_status,
+      def.term,
+      def.term_en,
+      def.definition,
+      def.source_provision
+    FROM definitions AS def
+    JOIN legal_documents AS d ON def.document_id = d.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY LENGTH(def.term), d.title
+    LIMIT ?
+  `;
+  params.push(MAX_PREFIX_MATCHES);
+
+  return db.prepare(sql).all(...params) as GetDefinitionResult[];
+}
+
+export async function getDefinition(
+  db: Database,
+  input: GetDefinitionInput,
+): Promise<ToolResponse<GetDefinitionResult[]>> {
+  const term = input.term.trim();
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+
+  let resolvedDocId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+    }
+    resolvedDocId = resolved;
+  }
+
+  // Exact diacritics first, then "casovni rok" for "časovni rok"
+  let exact = findDefinitions(db, 'def.term = ? COLLATE NOCASE', term, resolvedDocId, asOfDate);
+  let folded = false;
+  if (exact.length === 0) {
+    exact = findDefinitions(db, `${foldedSql('def.term')} = ?`, foldDiacritics(term), resolvedDocId, asOfDate);
+    folded = exact.length > 0;
+  }
+
+  if (exact.length === 0) {
+    // No exact statutory term — offer terms that start with the input instead
+    let prefix = findDefinitions(db, 'def.term LIKE ?', `${term}%`, resolvedDocId, asOfDate);
+    if (prefix.length === 0) {
+      prefix = findDefinitions(db, `${foldedSql('def.term')} LIKE ?`, `${foldDiacritics(term)}%`, resolvedDocId, asOfDate);
+      folded = prefix.length > 0;
+    }
+    return {
+      results: prefix,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: prefix.length > 0
+          ? `No exact definition of "${term}"; returning terms that start with it.`
+          : `No definition of "${term}" found. Try search_definitions for a full-text search.`,
+        ...(folded && { diacritics_folded: true }),
+      },
+    };
+  }
+
+  const metadata = {
+    ...generateResponseMetadata(db),
+    ...(folded && { diacritics_folded: true }),
+  };
+
+  const r = exact[0];
+  if (exact.length === 1 && r.source_provision) {
+    return {
+      results: exact,
+      _citation: buildProvisionCitation(
+        r.document_id,
+        r.document_title,
+        r.source_provision,
+        input.document_id ?? r.document_id,
+        r.source_provision,
+        null,
+        null,
+      ),
+      _metadata: metadata,
+    };
+  }
+
+  return { results: exact, _metadata: metadata };
+}
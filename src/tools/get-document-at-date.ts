@@ -0,0 +1,269 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { invalidArgument, ToolError } from '../utils/errors.js';
+
+export interface GetDocumentAtDateInput {
+  document_id: string;
+  date: string;
+  /** 'text' renders the page as a consolidated text for export */
+  format?: 'structured' | 'text';
+  /** List articles not in force on the date (default true); they are counted in the summary either way */
+  include_absent?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+export type ArticleStatusAtDate = 'in_force' | 'not_yet_in_force' | 'deleted';
+
+export interface ArticleAtDate {
+  provision_ref: string;
+  article: string;
+  status: ArticleStatusAtDate;
+  chapter: string | null;
+  section: string | null;
+  title: string | null;
+  /** Text valid on the date; null for articles not in force */
+  content: string | null;
+  version_id: number | null;
+  /** For in-force articles the version's validity; otherwise when the article enters into force or ceased to apply */
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+export interface DocumentAtDateSummary {
+  total: number;
+  in_force: number;
+  not_yet_in_force: number;
+  deleted: number;
+}
+
+export interface GetDocumentAtDateResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  date: string;
+  summary: DocumentAtDateSummary;
+  articles?: ArticleAtDate[];
+  /** Consolidated text of this page, with format 'text' */
+  text?: string;
+  next_cursor: string | null;
+}
+
+interface ArticleStateRow {
+  provision_ref: string;
+  valid_versions: number;
+  first_valid_from: string | null;
+  last_valid_to: string | null;
+}
+
+interface VersionRow {
+  id: number;
+  provision_ref: string;
+  article: string;
+  chapter: string | null;
+  section: string | null;
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+interface Cursor {
+  provision_ref: string;
+}
+
+const MAX_LIMIT = 200;
+const DEFAULT_LIMIT = 50;
+
+function clampLimit(limit: number | undefined): number {
+  if (limit == null) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(limit, MAX_LIMIT));
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8')) as Partial<Cursor>;
+    if (typeof parsed.provision_ref === 'string') {
+      return { provision_ref: parsed.provision_ref };
+    }
+  } catch {
+    // fall through
+  }
+  throw invalidArgument('cursor', 'is invalid; pass the next_cursor value from a previous get_document_at_date response');
+}
+
+/** Before the statute entered into force no article applies, whatever its versions say */
+function statusOf(row: ArticleStateRow, date: string, inForceDate: string | null): ArticleStatusAtDate {
+  if (inForceDate && date < inForceDate) return 'not_yet_in_force';
+  if (row.valid_versions > 0) return 'in_force';
+  return row.first_valid_from && row.first_valid_from > date ? 'not_yet_in_force' : 'deleted';
+}
+
+/**
+ * Every article of the statute with whether a version is valid on the date,
+ * in structural order: by article number, then letter suffix ("27", "27.a").
+ */
+function getArticleStates(db: Database, documentId: string, date: string): ArticleStateRow[] {
+  return db.prepare(`
+    SELECT provision_ref,
+      SUM(CASE WHEN (valid_from IS NULL OR valid_from <= ?) AND (valid_to IS NULL OR valid_to > ?) THEN 1 ELSE 0 END)
+        AS valid_versions,
+      MIN(valid_from) AS first_valid_from,
+      MAX(valid_to) AS last_valid_to
+    FROM legal_provision_versions
+    WHERE document_id = ?
+    GROUP BY provision_ref
+    ORDER BY CAST(provision_ref AS INTEGER), provision_ref
+  `).all(date, date, documentId) as ArticleStateRow[];
+}
+
+/** Latest version of each article in force on the date, plus the last known version of the rest for headings */
+function getVersions(db: Database, documentId: string, refs: string[], date: string): Map<string, VersionRow> {
+  if (refs.length === 0) return new Map();
+  const rows = db.prepare(`
+    SELECT id, provision_ref, article, chapter, section, title, content, valid_from, valid_to
+    FROM legal_provision_versions
+    WHERE document_id = ? AND provision_ref IN (${refs.map(() => '?').join(', ')})
+    ORDER BY
+      CASE WHEN (valid_from IS NULL OR valid_from <= ?) AND (valid_to IS NULL OR valid_to > ?) THEN 0 ELSE 1 END,
+      valid_from DESC, id
+  `).all(documentId, ...refs, date, date) as VersionRow[];
+
+  const versions = new Map<string, VersionRow>();
+  for (const row of rows) {
+    if (!versions.has(row.provision_ref)) versions.set(row.provision_ref, row);
+  }
+  return versions;
+}
+
+function toArticle(
+  state: ArticleStateRow,
+  version: VersionRow | undefined,
+  date: string,
+  inForceDate: string | null,
+): ArticleAtDate {
+  const status = statusOf(state, date, inForceDate);
+  const inForce = status === 'in_force';
+  return {
+    provision_ref: state.provision_ref,
+    article: version?.article ?? state.provision_ref,
+    status,
+    chapter: version?.chapter ?? null,
+    section: version?.section ?? null,
+    title: version?.title ?? null,
+    content: inForce ? version?.content ?? null : null,
+    version_id: inForce ? version?.id ?? null : null,
+    valid_from: inForce
+      ? version?.valid_from ?? null
+      : status === 'not_yet_in_force' ? maxDate(state.first_valid_from, inForceDate) : null,
+    valid_to: inForce ? version?.valid_to ?? null : status === 'deleted' ? state.last_valid_to : null,
+  };
+}
+
+function maxDate(a: string | null, b: string | null): string | null {
+  if (a === null || b === null) return a ?? b;
+  return a > b ? a : b;
+}
+
+/** Render articles as consolidated text, repeating a heading only when it changes */
+export function renderDocumentText(articles: ArticleAtDate[], date: string): string {
+  const blocks: string[] = [];
+  let chapter: string | null = null;
+  let section: string | null = null;
+
+  for (const article of articles) {
+    if (article.chapter && article.chapter !== chapter) {
+      blocks.push(article.chapter);
+      section = null;
+    }
+    if (article.section && article.section !== section) blocks.push(article.section);
+    chapter = article.chapter;
+    section = article.section;
+
+    // "27. člen", but "27.a člen"
+    const label = /\d$/.test(article.article) ? `${article.article}. člen` : `${article.article} člen`;
+    const heading = [article.title, label].filter(Boolean).join('\n');
+    if (article.status === 'in_force') {
+      blocks.push(`${heading}\n${article.content ?? ''}`);
+    } else if (article.status === 'not_yet_in_force') {
+      blocks.push(`${heading}\n[Not yet in force on ${date}${article.valid_from ? `; applies from ${article.valid_from}` : ''}]`);
+    } else {
+      blocks.push(`${heading}\n[No longer in force on ${date}${article.valid_to ? `; ceased to apply on ${article.valid_to}` : ''}]`);
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+export async function getDocumentAtDate(
+  db: Database,
+  input: GetDocumentAtDateInput,
+): Promise<ToolResponse<GetDocumentAtDateResult | null>> {
+  const date = normalizeIsoDate(input.date, 'date');
+  if (!date) {
+    throw new ToolError('INVALID_DATE', { argument: 'date', value: input.date ?? '' });
+  }
+  const limit = clampLimit(input.limit);
+  const includeAbsent = input.include_absent ?? true;
+  const cursor = input.cursor ? decodeCursor(input.cursor) : undefined;
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  const docRow = documentId
+    ? db.prepare('SELECT id, title, status, in_force_date FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string; status: string; in_force_date: string | null } | undefined
+    : undefined;
+  if (!docRow) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
+
+  const states = getArticleStates(db, docRow.id, date);
+  const summary: DocumentAtDateSummary = { total: states.length, in_force: 0, not_yet_in_force: 0, deleted: 0 };
+  for (const state of states) summary[statusOf(state, date, docRow.in_force_date)]++;
+
+  const listed = includeAbsent
+    ? states
+    : states.filter(state => statusOf(state, date, docRow.in_force_date) === 'in_force');
+  const start = cursor ? listed.findIndex(state => state.provision_ref === cursor.provision_ref) + 1 : 0;
+  if (cursor && start === 0) {
+    throw invalidArgument('cursor', 'is invalid; pass the next_cursor value from a previous get_document_at_date response');
+  }
+  const page = listed.slice(start, start + limit);
+  const hasMore = start + limit < listed.length;
+
+  const versions = getVersions(db, docRow.id, page.map(state => state.provision_ref), date);
+  const articles = page.map(state => toArticle(state, versions.get(state.provision_ref), date, docRow.in_force_date));
+
+  const result: GetDocumentAtDateResult = {
+    document_id: docRow.id,
+    document_title: docRow.title,
+    document_status: docRow.status,
+    date,
+    summary,
+    ...(input.format === 'text' ? { text: renderDocumentText(articles, date) } : { articles }),
+    next_cursor: hasMore ? encodeCursor({ provision_ref: page[page.length - 1].provision_ref }) : null,
+  };
+
+  const notes: string[] = [];
+  if (states.length === 0) {
+    notes.push(`No provision versions stored for ${docRow.id}`);
+  } else {
+    if (docRow.in_force_date && date < docRow.in_force_date) {
+      notes.push(`${docRow.id} entered into force on ${docRow.in_force_date}, after ${date}`);
+    }
+    if (states.every(state => state.first_valid_from === null && state.last_valid_to === null)) {
+      notes.push(`No dated versions are stored for ${docRow.id}; the current consolidated text is returned for every date from its entry into force`);
+    }
+  }
+  const note = notes.length > 0 ? notes.join('. ') : undefined;
+
+  return {
+    results: result,
+    _metadata: { ...generateResponseMetadata(db), ...(note && { note }) },
+  };
+}
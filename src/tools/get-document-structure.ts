@@ -0,0 +1,204 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { ToolError } from '../utils/errors.js';
+
+export interface GetDocumentStructureInput {
+  document_id: string;
+  as_of_date?: string;
+  include_articles?: boolean;
+}
+
+export type StructureNodeKind = 'part' | 'chapter' | 'section';
+
+export interface StructureArticle {
+  provision_ref: string;
+  article: string;
+  title: string | null;
+}
+
+export interface StructureNode {
+  kind: StructureNodeKind;
+  heading: string;
+  provision_count: number;
+  first_article: string;
+  last_article: string;
+  children: StructureNode[];
+  articles?: StructureArticle[];
+}
+
+export interface GetDocumentStructureResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  as_of_date: string | null;
+  provision_count: number;
+  /** Provisions that sit outside any chapter (e.g. short statutes without divisions) */
+  articles?: StructureArticle[];
+  outline: StructureNode[];
+}
+
+interface OutlineRow {
+  provision_ref: string;
+  article: string;
+  title: string | null;
+  chapter: string | null;
+  section: string | null;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Classify a heading by its Slovenian division keyword.
+ * PIS stores "DEL" (part) headings in the chapter column for codes that have
+ * parts, so the column alone does not tell the level.
+ */
+function classifyHeading(heading: string, fallback: StructureNodeKind): StructureNodeKind {
+  if (/\bDEL\b/.test(heading)) return 'part';
+  if (/poglavje/i.test(heading)) return 'chapter';
+  if (/oddelek|odsek/i.test(heading)) return 'section';
+  return fallback;
+}
+
+function getCurrentOutlineRows(db: Database, documentId: string): OutlineRow[] {
+  return db.prepare(`
+    SELECT provision_ref, article, title, chapter, section
+    FROM legal_provisions
+    WHERE document_id = ?
+    ORDER BY id
+  `).all(documentId) as OutlineRow[];
+}
+
+function getVersionedOutlineRows(db: Database, documentId: string, asOfDate: string): OutlineRow[] {
+  return db.prepare(`
+    SELECT provision_ref, article, title, chapter, section
+    FROM legal_provision_versions
+    WHERE document_id = ?
+      AND (valid_from IS NULL OR valid_from <= ?)
+      AND (valid_to IS NULL OR valid_to > ?)
+    ORDER BY id
+  `).all(documentId, asOfDate, asOfDate) as OutlineRow[];
+}
+
+function createNode(kind: StructureNodeKind, heading: string, row: OutlineRow): StructureNode {
+  return {
+    kind,
+    heading,
+    provision_count: 0,
+    first_article: row.article,
+    last_article: row.article,
+    children: [],
+  };
+}
+
+function addArticle(node: StructureNode, row: OutlineRow, includeArticles: boolean): void {
+  node.provision_count++;
+  node.last_article = row.article;
+  if (includeArticles) {
+    node.articles ??= [];
+    node.articles.push({ provision_ref: row.provision_ref, article: row.article, title: row.title });
+  }
+}
+
+/**
+ * Fold the flat chapter/section columns into a nested outline.
+ * Headings that reappear later in the statute are merged into their first node.
+ */
+function buildOutline(
+  rows: OutlineRow[],
+  includeArticles: boolean,
+): { outline: StructureNode[]; articles: StructureArticle[] } {
+  const outline: StructureNode[] = [];
+  const topLevel = new Map<string, StructureNode>();
+  const subLevel = new Map<StructureNode, Map<string, StructureNode>>();
+  const looseArticles: StructureArticle[] = [];
+
+  for (const row of rows) {
+    if (!row.chapter) {
+      looseArticles.push({ provision_ref: row.provision_ref, article: row.article, title: row.title });
+      continue;
+    }
+
+    const chapterHeading = normalizeHeading(row.chapter);
+    let chapterNode = topLevel.get(chapterHeading);
+    if (!chapterNode) {
+      chapterNode = createNode(classifyHeading(chapterHeading, 'chapter'), chapterHeading, row);
+      topLevel.set(chapterHeading, chapterNode);
+      subLevel.set(chapterNode, new Map());
+      outline.push(chapterNode);
+    }
+    chapterNode.provision_count++;
+    chapterNode.last_article = row.article;
+
+    if (!row.section) {
+      if (includeArticles) {
+        chapterNode.articles ??= [];
+        chapterNode.articles.push({ provision_ref: row.provision_ref, article: row.article, title: row.title });
+      }
+      continue;
+    }
+
+    const sectionHeading = normalizeHeading(row.section);
+    const children = subLevel.get(chapterNode)!;
+    let sectionNode = children.get(sectionHeading);
+    if (!sectionNode) {
+      const fallback: StructureNodeKind = chapterNode.kind === 'part' ? 'chapter' : 'section';
+      sectionNode = createNode(classifyHeading(sectionHeading, fallback), sectionHeading, row);
+      children.set(sectionHeading, sectionNode);
+      chapterNode.children.push(sectionNode);
+    }
+    addArticle(sectionNode, row, includeArticles);
+  }
+
+  return { outline, articles: looseArticles };
+}
+
+export async function getDocumentStructure(
+  db: Database,
+  input: GetDocumentStructureInput,
+): Promise<ToolResponse<GetDocumentStructureResult>> {
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const includeArticles = input.include_articles ?? true;
+
+  const documentId = resolveDocumentId(db, input.document_id);
+  const docRow = documentId
+    ? db.prepare('SELECT id, title, status FROM legal_documents WHERE id = ?').get(documentId) as
+      { id: string; title: string; status: string } | undefined
+    : undefined;
+
+  if (!docRow) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
+
+  const rows = asOfDate
+    ? getVersionedOutlineRows(db, docRow.id, asOfDate)
+    : getCurrentOutlineRows(db, docRow.id);
+  const { outline, articles } = buildOutline(rows, includeArticles);
+
+  const result: GetDocumentStructureResult = {
+    document_id: docRow.id,
+    document_title: docRow.title,
+    document_status: docRow.status,
+    as_of_date: asOfDate ?? null,
+    provision_count: rows.length,
+    ...(includeArticles && articles.length > 0 && { articles }),
+    outline,
+  };
+
+  if (rows.length === 0) {
+    return {
+      results: result,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: asOfDate
+          ? `No provision versions of ${docRow.id} are valid at ${asOfDate}`
+          : `No provisions stored for ${docRow.id}`,
+      },
+    };
+  }
+
+  return { results: result, _metadata: generateResponseMetadata(db) };
+}
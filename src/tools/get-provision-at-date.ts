@@ -1,6 +1,8 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { ToolError, toolErrorInfo } from '../utils/errors.js';
+import { queryAmendments } from './get-amendment-history.js';
 
 export interface GetProvisionAtDateInput {
   document_id: string;
@@ -10,9 +12,12 @@ export interface GetProvisionAtDateInput {
 }
 
 export interface AmendmentRecord {
-  source_document_id: string;
+  /** Amending document, or the amending act as cited when it is not in the database */
+  source_document_id: string | null;
   amendment_date: string | null;
   ref_type: string;
+  amendment_type?: string;
+  uradni_list_ref?: string | null;
 }
 
 export interface ProvisionVersion {
@@ -50,6 +55,17 @@ function getAmendments(
   documentId: string,
   provisionRef: string,
 ): AmendmentRecord[] {
+  const history = queryAmendments(db, documentId, provisionRef);
+  if (history && history.length > 0) {
+    return history.map(entry => ({
+      source_document_id: entry.amending_document_id ?? entry.amending_act,
+      amendment_date: entry.date,
+      ref_type: 'amended_by',
+      amendment_type: entry.amendment_type,
+      uradni_list_ref: entry.uradni_list_ref,
+    }));
+  }
+
   const sql = `
     SELECT source_document_id, ref_type
     FROM cross_references
@@ -78,7 +94,7 @@ export async function getProvisionAtDate(
   const queryDate = normalizeAsOfDate(input.date);
 
   if (!queryDate) {
-    throw new Error('date parameter is required and must be in YYYY-MM-DD format');
+    throw new ToolError('INVALID_DATE', { argument: 'date', value: input.date ?? '' });
   }
 
   const sql = `
@@ -125,7 +141,10 @@ export async function getProvisionAtDate(
         article: provision_ref, title: null, content: '',
         valid_from: null, valid_to: null, status: 'not_found',
       },
-      _metadata: generateResponseMetadata(db),
+      _metadata: {
+        ...generateResponseMetadata(db),
+        errors: [toolErrorInfo('PROVISION_NOT_FOUND', { document_id, provision_ref, date: queryDate })],
+      },
     };
   }
 
@@ -1,6 +1,7 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import type { ProvisionEUReference } from '../types/index.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { toolErrorInfo } from '../utils/errors.js';
 
 export interface GetProvisionEUBasisInput {
   document_id: string;
@@ -55,7 +56,10 @@ export async function getProvisionEUBasis(
         eu_references: [],
         statistics: { total_references: 0, directive_count: 0, regulation_count: 0 },
       },
-      _metadata: generateResponseMetadata(db),
+      _metadata: {
+        ...generateResponseMetadata(db),
+        errors: [toolErrorInfo('PROVISION_NOT_FOUND', { document_id, provision_ref })],
+      },
     };
   }
 
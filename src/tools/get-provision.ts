@@ -3,12 +3,22 @@ import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import { resolveDocumentId } from '../utils/document-id.js';
 import { buildProvisionCitation } from '../utils/citation.js';
+import { invalidArgument, ToolError, toolErrorInfo } from '../utils/errors.js';
+import {
+  articleOrdinal, describePinpoint, hasPinpoint, parseProvisionUnits, renderUnits, selectPinpoint,
+  type ProvisionPinpoint,
+} from '../utils/provision-units.js';
 
 export interface GetProvisionInput {
   document_id: string;
   article?: string;
   provision_ref?: string;
   as_of_date?: string;
+  /** Odstavek within the article; with point/subpoint/indent, narrows content to that unit */
+  paragraph?: string;
+  point?: string;
+  subpoint?: string;
+  indent?: string;
 }
 
 export interface GetProvisionResult {
@@ -23,6 +33,8 @@ export interface GetProvisionResult {
   content: string;
   valid_from?: string | null;
   valid_to?: string | null;
+  /** Cited unit, e.g. "1. odstavek, 3. točka", when content was narrowed to it */
+  pinpoint?: string;
 }
 
 function buildProvisionRef(input: GetProvisionInput): string | undefined {
@@ -114,25 +126,61 @@ function getVersionedProvisions(
   return db.prepare(sql).all(...params) as GetProvisionResult[];
 }
 
+/**
+ * Narrow each provision's content to the cited unit and the units nested
+ * under it. Provisions without the unit keep their full text; the returned
+ * note says which.
+ */
+function applyPinpoint(results: GetProvisionResult[], pinpoint: ProvisionPinpoint): string | undefined {
+  const location = describePinpoint(pinpoint);
+  const notes: string[] = [];
+
+  for (const result of results) {
+    const groups = selectPinpoint(parseProvisionUnits(result.content), pinpoint);
+    const article = `${articleOrdinal(result.article)} člen`;
+    if (groups.length === 0) {
+      notes.push(`${article} has no ${location}; the full article is returned`);
+      continue;
+    }
+    if (groups.length > 1) {
+      notes.push(`${location} occurs in ${groups.length} paragraphs of ${article}; specify paragraph to narrow it`);
+    }
+    result.content = groups.map(renderUnits).join('\n');
+    result.pinpoint = location;
+  }
+
+  return notes.length > 0 ? notes.join('. ') : undefined;
+}
+
 export async function getProvision(
   db: Database,
   input: GetProvisionInput,
 ): Promise<ToolResponse<GetProvisionResult[]>> {
-  const document_id = resolveDocumentId(db, input.document_id) ?? input.document_id;
+  const document_id = resolveDocumentId(db, input.document_id);
+  if (!document_id) {
+    throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+  }
   const asOfDate = normalizeAsOfDate(input.as_of_date);
   const provisionRef = buildProvisionRef(input);
+  const pinpoint: ProvisionPinpoint = {
+    paragraph: input.paragraph, point: input.point, subpoint: input.subpoint, indent: input.indent,
+  };
+  if (hasPinpoint(pinpoint) && !provisionRef) {
+    throw invalidArgument('article', 'or provision_ref is required with paragraph, point, subpoint or indent');
+  }
 
   const results = asOfDate
     ? getVersionedProvisions(db, document_id, provisionRef, asOfDate)
     : getCurrentProvisions(db, document_id, provisionRef);
 
-  const metadata = generateResponseMetadata(db);
+  const note = hasPinpoint(pinpoint) ? applyPinpoint(results, pinpoint) : undefined;
+  const metadata = { ...generateResponseMetadata(db), ...(note && { note }) };
   if (!provisionRef && results.length >= 200) {
     return {
       results,
       _metadata: {
         ...metadata,
-        warning: 'Results truncated at 200 provisions. Specify an article or provision_ref to retrieve a specific provision.',
+        warning: 'Results truncated at 200 provisions. Specify an article or provision_ref to retrieve a specific provision, or use get_document_structure for the full outline.',
       },
     };
   }
@@ -153,5 +201,11 @@ export async function getProvision(
       _metadata: metadata,
     };
   }
+  if (provisionRef && results.length === 0) {
+    const notFound = toolErrorInfo('PROVISION_NOT_FOUND', {
+      document_id, provision_ref: provisionRef, ...(asOfDate && { date: asOfDate }),
+    });
+    return { results, _metadata: { ...metadata, errors: [notFound] } };
+  }
   return { results, _metadata: metadata };
 }
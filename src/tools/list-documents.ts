@@ -0,0 +1,282 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { normalizeIsoDate } from '../utils/as-of-date.js';
+import { foldDiacritics, foldedSql } from '../utils/diacritics.js';
+import {
+  collectDocumentAliases, extractPisId, getAliasIndex, slugifyTitle, type StatuteAlias,
+} from '../utils/document-aliases.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { invalidArgument } from '../utils/errors.js';
+
+export interface ListDocumentsInput {
+  type?: string;
+  status?: string;
+  title_prefix?: string;
+  issued_from?: string;
+  issued_to?: string;
+  in_force_from?: string;
+  in_force_to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface DocumentAliases {
+  short_name: string | null;
+  pis_id: string | null;
+  slug: string;
+  /** Abbreviations in common use besides the PIS kratica, e.g. "Ustava" */
+  legacy: string[];
+}
+
+export interface DocumentListing {
+  document_id: string;
+  type: string;
+  title: string;
+  title_en: string | null;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  url: string | null;
+  provision_count: number;
+  aliases: DocumentAliases;
+}
+
+export interface DocumentFacets {
+  type: Record<string, number>;
+  status: Record<string, number>;
+  issued_year: Record<string, number>;
+}
+
+export interface ListDocumentsResult {
+  documents: DocumentListing[];
+  total: number;
+  facets: DocumentFacets;
+  next_cursor: string | null;
+}
+
+interface DocumentRow {
+  id: string;
+  type: string;
+  title: string;
+  title_en: string | null;
+  short_name: string | null;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  url: string | null;
+  provision_count: number;
+}
+
+interface Cursor {
+  title: string;
+  id: string;
+}
+
+type FacetName = keyof DocumentFacets;
+
+interface Filter {
+  facet?: FacetName;
+  sql: string;
+  params: string[];
+}
+
+const MAX_LIMIT = 100;
+const DEFAULT_LIMIT = 50;
+
+function clampLimit(limit: number | undefined): number {
+  if (limit == null) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(limit, MAX_LIMIT));
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(raw: string): Cursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf-8')) as Partial<Cursor>;
+    if (typeof parsed.title === 'string' && typeof parsed.id === 'string') {
+      return { title: parsed.title, id: parsed.id };
+    }
+  } catch {
+    // fall through
+  }
+  throw invalidArgument('cursor', 'is invalid; pass the next_cursor value from a previous list_documents response');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+function buildFilters(input: ListDocumentsInput): Filter[] {
+  const filters: Filter[] = [];
+
+  if (input.type) {
+    filters.push({ facet: 'type', sql: 'd.type = ?', params: [input.type] });
+  }
+
+  if (input.status) {
+    filters.push({ facet: 'status', sql: 'd.status = ?', params: [input.status] });
+  }
+
+  const issuedFrom = normalizeIsoDate(input.issued_from, 'issued_from');
+  const issuedTo = normalizeIsoDate(input.issued_to, 'issued_to');
+  if (issuedFrom) {
+    filters.push({ facet: 'issued_year', sql: 'd.issued_date >= ?', params: [issuedFrom] });
+  }
+  if (issuedTo) {
+    filters.push({ facet: 'issued_year', sql: 'd.issued_date <= ?', params: [issuedTo] });
+  }
+
+  const inForceFrom = normalizeIsoDate(input.in_force_from, 'in_force_from');
+  const inForceTo = normalizeIsoDate(input.in_force_to, 'in_force_to');
+  if (inForceFrom) {
+    filters.push({ sql: 'd.in_force_date >= ?', params: [inForceFrom] });
+  }
+  if (inForceTo) {
+    filters.push({ sql: 'd.in_force_date <= ?', params: [inForceTo] });
+  }
+
+  const prefix = input.title_prefix?.trim();
+  if (prefix) {
+    const pattern = `${escapeLike(prefix)}%`;
+    filters.push({
+      sql: `(${foldedSql('d.title')} LIKE ? ESCAPE '\\' OR d.short_name LIKE ? ESCAPE '\\')`,
+      params: [foldDiacritics(pattern), pattern],
+    });
+  }
+
+  return filters;
+}
+
+function whereClause(filters: Filter[], extra: string[] = []): string {
+  const conditions = [...filters.map(f => f.sql), ...extra];
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+function filterParams(filters: Filter[]): string[] {
+  return filters.flatMap(f => f.params);
+}
+
+/**
+ * Count documents per facet value. Each facet is counted with every filter
+ * applied except its own, so callers can see what switching the value yields.
+ */
+function computeFacets(db: Database, filters: Filter[]): DocumentFacets {
+  const facetExpressions: Record<FacetName, string> = {
+    type: 'd.type',
+    status: 'd.status',
+    issued_year: "COALESCE(SUBSTR(d.issued_date, 1, 4), 'unknown')",
+  };
+
+  const facets: DocumentFacets = { type: {}, status: {}, issued_year: {} };
+
+  for (const [facet, expression] of Object.entries(facetExpressions) as [FacetName, string][]) {
+    const others = filters.filter(f => f.facet !== facet);
+    const rows = db.prepare(`
+      SELECT ${expression} AS value, COUNT(*) AS count
+      FROM legal_documents AS d
+      ${whereClause(others)}
+      GROUP BY value
+      ORDER BY value
+    `).all(...filterParams(others)) as { value: string; count: number }[];
+
+    for (const row of rows) {
+      facets[facet][row.value] = row.count;
+    }
+  }
+
+  return facets;
+}
+
+/**
+ * Registered aliases of the listed documents, read from the alias index
+ * (document_aliases plus the legacy abbreviations), highest priority first.
+ */
+function registeredAliases(db: Database, documentIds: Set<string>): Map<string, StatuteAlias[]> {
+  const byDocument = new Map<string, StatuteAlias[]>();
+  for (const bucket of getAliasIndex(db).aliases.values()) {
+    for (const entry of bucket) {
+      if (!documentIds.has(entry.document_id)) continue;
+      const entries = byDocument.get(entry.document_id) ?? [];
+      if (!entries.some(existing => existing.alias === entry.alias)) entries.push(entry);
+      byDocument.set(entry.document_id, entries);
+    }
+  }
+  return byDocument;
+}
+
+function toListing(row: DocumentRow, registered: StatuteAlias[] | undefined): DocumentListing {
+  // Documents without registered aliases (case law) get the derived ones
+  const entries = registered ?? collectDocumentAliases(row);
+  const first = (type: StatuteAlias['alias_type']) => entries.find(entry => entry.alias_type === type)?.alias;
+  return {
+    document_id: row.id,
+    type: row.type,
+    title: row.title,
+    title_en: row.title_en,
+    status: row.status,
+    issued_date: row.issued_date,
+    in_force_date: row.in_force_date,
+    url: row.url,
+    provision_count: row.provision_count,
+    aliases: {
+      short_name: first('short_name') ?? row.short_name,
+      pis_id: first('pis_id') ?? extractPisId(row.id, row.url),
+      slug: first('slug') ?? slugifyTitle(row.title),
+      legacy: entries.filter(entry => entry.alias_type === 'legacy').map(entry => entry.alias),
+    },
+  };
+}
+
+export async function listDocuments(
+  db: Database,
+  input: ListDocumentsInput,
+): Promise<ToolResponse<ListDocumentsResult>> {
+  const limit = clampLimit(input.limit);
+  const filters = buildFilters(input);
+  const cursor = input.cursor ? decodeCursor(input.cursor) : undefined;
+
+  const totalRow = db.prepare(
+    `SELECT COUNT(*) AS count FROM legal_documents AS d ${whereClause(filters)}`
+  ).get(...filterParams(filters)) as { count: number };
+
+  const pageConditions: string[] = [];
+  const pageParams: string[] = [...filterParams(filters)];
+  if (cursor) {
+    pageConditions.push('(d.title > ? OR (d.title = ? AND d.id > ?))');
+    pageParams.push(cursor.title, cursor.title, cursor.id);
+  }
+
+  const rows = db.prepare(`
+    SELECT
+      d.id,
+      d.type,
+      d.title,
+      d.title_en,
+      d.short_name,
+      d.status,
+      d.issued_date,
+      d.in_force_date,
+      d.url,
+      (SELECT COUNT(*) FROM legal_provisions AS p WHERE p.document_id = d.id) AS provision_count
+    FROM legal_documents AS d
+    ${whereClause(filters, pageConditions)}
+    ORDER BY d.title, d.id
+    LIMIT ?
+  `).all(...pageParams, limit + 1) as DocumentRow[];
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+  const aliases = registeredAliases(db, new Set(page.map(row => row.id)));
+
+  return {
+    results: {
+      documents: page.map(row => toListing(row, aliases.get(row.id))),
+      total: totalRow.count,
+      facets: computeFacets(db, filters),
+      next_cursor: hasMore && last ? encodeCursor({ title: last.title, id: last.id }) : null,
+    },
+    _metadata: generateResponseMetadata(db),
+  };
+}
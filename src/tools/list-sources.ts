@@ -18,6 +18,8 @@ interface DatabaseInfo {
   schema_version: string;
   built_at: string;
   jurisdiction: string;
+  /** Embedding model for hybrid search (mode: "hybrid"), null when the database has no vectors */
+  vector_model: string | null;
 }
 
 export async function listSources(db: Database): Promise<ListSourcesResult> {
@@ -48,6 +50,7 @@ export async function listSources(db: Database): Promise<ListSourcesResult> {
   let tier = 'unknown';
   let schemaVersion = '1';
   let builtAt = 'unknown';
+  let vectorModel: string | null = null;
 
   try {
     const hasTable = db.prepare(
@@ -60,6 +63,7 @@ export async function listSources(db: Database): Promise<ListSourcesResult> {
         if (row.key === 'tier') tier = row.value;
         if (row.key === 'schema_version') schemaVersion = row.value;
         if (row.key === 'built_at') builtAt = row.value;
+        if (row.key === 'vector_model') vectorModel = row.value;
       }
     }
   } catch { /* ignore */ }
@@ -71,6 +75,7 @@ export async function listSources(db: Database): Promise<ListSourcesResult> {
       schema_version: schemaVersion,
       built_at: builtAt,
       jurisdiction: 'SI',
+      vector_model: vectorModel,
     },
   };
 }
@@ -0,0 +1,528 @@
+/**
+ * Output schemas for the tools in the registry, so clients can read
+ * structuredContent instead of parsing the JSON text.
+ *
+ * Each schema mirrors the tool's result interface: required fields are
+ * the ones every response carries, nullable fields are the ones the
+ * interface declares `| null`. Objects stay open (no additionalProperties)
+ * so adding a field to a result is not a breaking change.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../utils/json-schema.js';
+
+type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const STRING: JsonSchema = { type: 'string' };
+const NUMBER: JsonSchema = { type: 'number' };
+const BOOLEAN: JsonSchema = { type: 'boolean' };
+const NULLABLE_STRING: JsonSchema = { type: ['string', 'null'] };
+const NULLABLE_NUMBER: JsonSchema = { type: ['number', 'null'] };
+const STRINGS: JsonSchema = { type: 'array', items: STRING };
+
+/** An object whose `required` fields are always present and `optional` ones may be left out */
+function object(required: Record<string, JsonSchema>, optional: Record<string, JsonSchema> = {}): JsonSchema {
+  return { type: 'object', properties: { ...required, ...optional }, required: Object.keys(required) };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  return { ...schema, type: [schema.type as 'object', 'null'] };
+}
+
+/** Counts keyed by a value that is not known in advance (facets, by_kind) */
+const COUNTS: JsonSchema = { type: 'object', additionalProperties: NUMBER };
+
+const METADATA: JsonSchema = object(
+  {
+    data_freshness: object({
+      statute_last_updated: NULLABLE_STRING,
+      case_law_last_sync: NULLABLE_STRING,
+      staleness_warning: NULLABLE_STRING,
+    }),
+    disclaimer: STRING,
+    source_authority: object({ primary_source: STRING, authority_level: STRING, verification_required: STRING }),
+    coverage_gaps: STRINGS,
+    ai_disclosure: STRING,
+  },
+  {
+    warning: STRING,
+    note: STRING,
+    query_strategy: STRING,
+    query_expansion: { type: 'object', additionalProperties: STRINGS },
+    diacritics_folded: BOOLEAN,
+    resolved_document: object({
+      argument: STRING,
+      reference: STRING,
+      document_id: STRING,
+      title: STRING,
+      short_name: NULLABLE_STRING,
+      match: STRING,
+      score: NUMBER,
+    }),
+    errors: arrayOf(object({ code: STRING, message: STRING, message_sl: STRING, details: { type: 'object' } })),
+  },
+);
+
+const CITATION_METADATA: JsonSchema = object(
+  {
+    canonical_ref: STRING,
+    display_text: STRING,
+    lookup: object({ tool: STRING, args: { type: 'object', additionalProperties: STRING } }),
+  },
+  { aliases: STRINGS, source_url: STRING },
+);
+
+/** The { results, _metadata } envelope every tool except list_sources returns */
+function toolResponse(results: JsonSchema): OutputSchema {
+  return {
+    type: 'object',
+    properties: { results, _metadata: METADATA, _citation: CITATION_METADATA },
+    required: ['results', '_metadata'],
+  };
+}
+
+const MATCHED_BY: JsonSchema = arrayOf({ type: 'string', enum: ['keyword', 'semantic'] });
+
+const LEGISLATION_HIT = object(
+  {
+    document_id: STRING,
+    document_title: STRING,
+    provision_ref: STRING,
+    chapter: NULLABLE_STRING,
+    section: NULLABLE_STRING,
+    title: NULLABLE_STRING,
+    snippet: STRING,
+    relevance: NUMBER,
+  },
+  { valid_from: NULLABLE_STRING, valid_to: NULLABLE_STRING, matched_by: MATCHED_BY },
+);
+
+const CASE_LAW_HIT = object(
+  {
+    document_id: STRING,
+    document_title: STRING,
+    ecli: STRING,
+    court: STRING,
+    case_number: NULLABLE_STRING,
+    decision_date: NULLABLE_STRING,
+    procedure_type: NULLABLE_STRING,
+    legal_domain: NULLABLE_STRING,
+    summary: NULLABLE_STRING,
+    snippet: NULLABLE_STRING,
+    relevance: NULLABLE_NUMBER,
+    url: NULLABLE_STRING,
+  },
+  { matched_by: MATCHED_BY },
+);
+
+const DEFINITION = {
+  document_id: STRING,
+  document_title: STRING,
+  document_status: STRING,
+  term: STRING,
+  term_en: NULLABLE_STRING,
+  definition: STRING,
+  source_provision: NULLABLE_STRING,
+};
+
+const PARSED_CITATION = object(
+  { raw: STRING, type: STRING, document_id: STRING, valid: BOOLEAN },
+  {
+    article: STRING,
+    articles: STRINGS,
+    paragraph: STRING,
+    point: STRING,
+    subpoint: STRING,
+    indent: STRING,
+    code_abbreviation: STRING,
+    ecli: STRING,
+    case_number: STRING,
+    court: STRING,
+    uradni_list_ref: STRING,
+    eu_community: STRING,
+    error: STRING,
+  },
+);
+
+const PROVISION_VALIDITY = { valid_from: NULLABLE_STRING, valid_to: NULLABLE_STRING };
+
+const CROSS_REFERENCE_EDGE = object({
+  source_document_id: STRING,
+  source_document_title: NULLABLE_STRING,
+  source_provision_ref: NULLABLE_STRING,
+  target_document_id: STRING,
+  target_document_title: NULLABLE_STRING,
+  target_provision_ref: NULLABLE_STRING,
+  ref_type: STRING,
+  hop: NUMBER,
+});
+
+const EDGES_BY_TYPE: JsonSchema = { type: 'object', additionalProperties: arrayOf(CROSS_REFERENCE_EDGE) };
+
+const STRUCTURE_ARTICLE = object({ provision_ref: STRING, article: STRING, title: NULLABLE_STRING });
+
+/** Outline nodes nest to any depth; children are checked one level down */
+const STRUCTURE_NODE = object(
+  {
+    kind: { type: 'string', enum: ['part', 'chapter', 'section'] },
+    heading: STRING,
+    provision_count: NUMBER,
+    first_article: STRING,
+    last_article: STRING,
+    children: arrayOf({ type: 'object' }),
+  },
+  { articles: arrayOf(STRUCTURE_ARTICLE) },
+);
+
+export const OUTPUT_SCHEMAS: Record<string, OutputSchema> = {
+  search_legislation: toolResponse(arrayOf(LEGISLATION_HIT)),
+
+  get_provision: toolResponse(arrayOf(object(
+    {
+      document_id: STRING,
+      document_title: STRING,
+      document_status: STRING,
+      provision_ref: STRING,
+      chapter: NULLABLE_STRING,
+      section: NULLABLE_STRING,
+      article: STRING,
+      title: NULLABLE_STRING,
+      content: STRING,
+    },
+    { ...PROVISION_VALIDITY, pinpoint: STRING },
+  ))),
+
+  search_case_law: toolResponse(arrayOf(CASE_LAW_HIT)),
+
+  get_preparatory_works: toolResponse(arrayOf(object({
+    statute_id: STRING,
+    statute_title: STRING,
+    prep_document_id: STRING,
+    parliamentary_ref: NULLABLE_STRING,
+    document_type: NULLABLE_STRING,
+    title: NULLABLE_STRING,
+    summary: NULLABLE_STRING,
+  }))),
+
+  validate_citation: toolResponse(object(
+    {
+      citation: PARSED_CITATION,
+      document_exists: BOOLEAN,
+      provision_exists: BOOLEAN,
+      warnings: STRINGS,
+      formatted_citation: STRING,
+    },
+    {
+      members: arrayOf(object({ article: STRING, provision_exists: BOOLEAN, repealed: BOOLEAN })),
+      pinpoint_exists: BOOLEAN,
+      pinpoint_text: STRING,
+      gazette_publications: arrayOf(object(
+        { document_id: STRING, title: STRING, publication_type: STRING },
+        { act: STRING, act_document_id: STRING, published_date: STRING },
+      )),
+      status: STRING,
+      document_title: STRING,
+    },
+  )),
+
+  extract_citations: toolResponse(object({
+    summary: object({ total: NUMBER, by_kind: COUNTS, not_found: NUMBER, with_warnings: NUMBER }),
+    citations: arrayOf(object(
+      {
+        kind: { type: 'string', enum: ['statute', 'uradni_list', 'ecli', 'constitutional_court', 'eu_act'] },
+        text: STRING,
+        start: NUMBER,
+        end: NUMBER,
+        normalized: STRING,
+        document_id: NULLABLE_STRING,
+        document_title: NULLABLE_STRING,
+        exists: BOOLEAN,
+        warnings: STRINGS,
+      },
+      { articles: STRINGS },
+    )),
+    truncated: BOOLEAN,
+  })),
+
+  build_legal_stance: toolResponse(object({
+    query: STRING,
+    provisions: arrayOf(LEGISLATION_HIT),
+    case_law: arrayOf(CASE_LAW_HIT),
+    preparatory_works: arrayOf(object({
+      statute_id: STRING,
+      prep_document_id: STRING,
+      parliamentary_ref: NULLABLE_STRING,
+      document_type: NULLABLE_STRING,
+      title: NULLABLE_STRING,
+      summary: NULLABLE_STRING,
+    })),
+    cross_references: arrayOf(object({
+      source_document_id: STRING,
+      source_provision_ref: NULLABLE_STRING,
+      target_document_id: STRING,
+      target_provision_ref: NULLABLE_STRING,
+      ref_type: STRING,
+    })),
+  })),
+
+  format_citation: toolResponse(object(
+    { original: STRING, formatted: STRING, format_used: STRING },
+    { grammatical_case: STRING },
+  )),
+
+  check_currency: toolResponse(object({
+    document_id: STRING,
+    document_title: STRING,
+    status: STRING,
+    is_current: BOOLEAN,
+    as_of_date: STRING,
+    in_force_date: NULLABLE_STRING,
+    repeal_date: NULLABLE_STRING,
+    provision_ref: NULLABLE_STRING,
+    provision_valid_from: NULLABLE_STRING,
+    provision_valid_to: NULLABLE_STRING,
+    warnings: STRINGS,
+    related_case_law: arrayOf(object({
+      ecli: STRING,
+      court: STRING,
+      decision_date: NULLABLE_STRING,
+      summary: NULLABLE_STRING,
+      url: NULLABLE_STRING,
+    })),
+  })),
+
+  get_eu_basis: toolResponse(object({
+    document_id: STRING,
+    document_title: STRING,
+    eu_documents: arrayOf(object(
+      {
+        id: STRING,
+        type: STRING,
+        year: NUMBER,
+        number: NUMBER,
+        community: NULLABLE_STRING,
+        reference_type: STRING,
+        is_primary_implementation: BOOLEAN,
+      },
+      { celex_number: STRING, title: STRING, short_name: STRING, articles: STRINGS, url_eur_lex: STRING },
+    )),
+    statistics: object({ total_eu_references: NUMBER, directive_count: NUMBER, regulation_count: NUMBER }),
+  })),
+
+  get_slovenian_implementations: toolResponse(object({
+    eu_document: object(
+      { id: STRING, type: STRING, year: NUMBER, number: NUMBER },
+      { title: STRING, short_name: STRING, celex_number: STRING },
+    ),
+    implementations: arrayOf(object(
+      {
+        statute_id: STRING,
+        title: STRING,
+        status: STRING,
+        reference_type: STRING,
+        is_primary_implementation: BOOLEAN,
+      },
+      { short_name: STRING, implementation_status: STRING, articles_referenced: STRINGS },
+    )),
+    statistics: object({ total_statutes: NUMBER, primary_implementations: NUMBER, in_force: NUMBER, repealed: NUMBER }),
+  })),
+
+  search_eu_implementations: toolResponse(object({
+    documents: arrayOf(object({
+      id: STRING,
+      type: STRING,
+      year: NUMBER,
+      number: NUMBER,
+      community: NULLABLE_STRING,
+      celex_number: NULLABLE_STRING,
+      title: NULLABLE_STRING,
+      title_sl: NULLABLE_STRING,
+      short_name: NULLABLE_STRING,
+      in_force: BOOLEAN,
+      url_eur_lex: NULLABLE_STRING,
+      slovenian_statute_count: NUMBER,
+      has_slovenian_implementation: BOOLEAN,
+    })),
+    total_count: NUMBER,
+  })),
+
+  get_provision_eu_basis: toolResponse(object({
+    document_id: STRING,
+    provision_ref: STRING,
+    provision_title: NULLABLE_STRING,
+    eu_references: arrayOf(object(
+      { id: STRING, type: STRING, reference_type: STRING, full_citation: STRING },
+      { title: STRING, short_name: STRING, article: STRING, context: STRING },
+    )),
+    statistics: object({ total_references: NUMBER, directive_count: NUMBER, regulation_count: NUMBER }),
+  })),
+
+  validate_eu_compliance: toolResponse(object(
+    {
+      document_id: STRING,
+      compliance_status: { type: 'string', enum: ['compliant', 'partially_compliant', 'non_compliant', 'unknown'] },
+      issues: arrayOf(object(
+        { type: STRING, severity: { type: 'string', enum: ['high', 'medium', 'low'] }, description: STRING, recommendation: STRING },
+        { eu_document_id: STRING },
+      )),
+      eu_references_checked: NUMBER,
+      statistics: object({ total_issues: NUMBER, high_severity: NUMBER, medium_severity: NUMBER, low_severity: NUMBER }),
+    },
+    { provision_ref: STRING },
+  )),
+
+  get_provision_at_date: toolResponse(object(
+    {
+      provision_ref: STRING,
+      chapter: NULLABLE_STRING,
+      section: NULLABLE_STRING,
+      article: STRING,
+      title: NULLABLE_STRING,
+      content: STRING,
+      ...PROVISION_VALIDITY,
+      status: { type: 'string', enum: ['current', 'historical', 'future', 'not_found'] },
+    },
+    {
+      amendments: arrayOf(object(
+        { source_document_id: NULLABLE_STRING, amendment_date: NULLABLE_STRING, ref_type: STRING },
+        { amendment_type: STRING, uradni_list_ref: NULLABLE_STRING },
+      )),
+    },
+  )),
+
+  get_document_at_date: toolResponse(nullable(object(
+    {
+      document_id: STRING,
+      document_title: STRING,
+      document_status: STRING,
+      date: STRING,
+      summary: object({ total: NUMBER, in_force: NUMBER, not_yet_in_force: NUMBER, deleted: NUMBER }),
+      next_cursor: NULLABLE_STRING,
+    },
+    {
+      articles: arrayOf(object({
+        provision_ref: STRING,
+        article: STRING,
+        status: { type: 'string', enum: ['in_force', 'not_yet_in_force', 'deleted'] },
+        chapter: NULLABLE_STRING,
+        section: NULLABLE_STRING,
+        title: NULLABLE_STRING,
+        content: NULLABLE_STRING,
+        version_id: NULLABLE_NUMBER,
+        ...PROVISION_VALIDITY,
+      })),
+      text: STRING,
+    },
+  ))),
+
+  diff_provision: toolResponse(nullable(object(
+    {
+      document_id: STRING,
+      document_title: STRING,
+      provision_ref: STRING,
+      from: object({ version_id: NUMBER, ...PROVISION_VALIDITY }),
+      to: object({ version_id: NUMBER, ...PROVISION_VALIDITY }),
+      identical: BOOLEAN,
+      summary: COUNTS,
+      units: arrayOf(object(
+        {
+          status: { type: 'string', enum: ['added', 'deleted', 'changed', 'renumbered', 'unchanged'] },
+          kind: { type: 'string', enum: ['paragraph', 'point', 'subpoint', 'indent'] },
+          location: STRING,
+        },
+        {
+          from_label: NULLABLE_STRING,
+          to_label: NULLABLE_STRING,
+          segments: arrayOf(object({ op: STRING, text: STRING })),
+        },
+      )),
+    },
+    {
+      title_change: object({ from: NULLABLE_STRING, to: NULLABLE_STRING }),
+      unified: STRING,
+    },
+  ))),
+
+  get_amendment_history: toolResponse(nullable(object({
+    document_id: STRING,
+    document_title: STRING,
+    provision_ref: NULLABLE_STRING,
+    entries: arrayOf(object({
+      date: NULLABLE_STRING,
+      effective_date: NULLABLE_STRING,
+      published_date: NULLABLE_STRING,
+      gazette_year: NULLABLE_NUMBER,
+      amendment_type: { type: 'string', enum: ['nov', 'spremenjen', 'dodan', 'črtan', 'razveljavljen', 'popravek', 'upb'] },
+      amending_act: NULLABLE_STRING,
+      amending_document_id: NULLABLE_STRING,
+      amending_document_title: NULLABLE_STRING,
+      uradni_list_ref: NULLABLE_STRING,
+      provision_ref: NULLABLE_STRING,
+      source: { type: 'string', enum: ['seed', 'gazette_citation', 'provision_note', 'version_history'] },
+    })),
+  }))),
+
+  search_definitions: toolResponse(arrayOf(object({ ...DEFINITION, snippet: STRING, relevance: NUMBER }))),
+
+  get_definition: toolResponse(arrayOf(object(DEFINITION))),
+
+  get_cross_references: toolResponse(object({
+    document_id: STRING,
+    document_title: STRING,
+    provision_ref: NULLABLE_STRING,
+    depth: NUMBER,
+    outbound: EDGES_BY_TYPE,
+    inbound: EDGES_BY_TYPE,
+    statistics: object({ outbound_count: NUMBER, inbound_count: NUMBER, truncated: BOOLEAN }),
+  })),
+
+  get_document_structure: toolResponse(object(
+    {
+      document_id: STRING,
+      document_title: STRING,
+      document_status: STRING,
+      as_of_date: NULLABLE_STRING,
+      provision_count: NUMBER,
+      outline: arrayOf(STRUCTURE_NODE),
+    },
+    { articles: arrayOf(STRUCTURE_ARTICLE) },
+  )),
+
+  list_documents: toolResponse(object({
+    documents: arrayOf(object({
+      document_id: STRING,
+      type: STRING,
+      title: STRING,
+      title_en: NULLABLE_STRING,
+      status: STRING,
+      issued_date: NULLABLE_STRING,
+      in_force_date: NULLABLE_STRING,
+      url: NULLABLE_STRING,
+      provision_count: NUMBER,
+      aliases: object({ short_name: NULLABLE_STRING, pis_id: NULLABLE_STRING, slug: STRING }),
+    })),
+    total: NUMBER,
+    facets: object({ type: COUNTS, status: COUNTS, issued_year: COUNTS }),
+    next_cursor: NULLABLE_STRING,
+  })),
+
+  // list_sources describes the server itself and has no _metadata envelope
+  list_sources: {
+    type: 'object',
+    properties: {
+      sources: arrayOf(object({ name: STRING, authority: STRING, url: STRING, data_type: STRING, license: STRING })),
+      database: object({
+        tier: STRING,
+        schema_version: STRING,
+        built_at: STRING,
+        jurisdiction: STRING,
+        vector_model: NULLABLE_STRING,
+      }),
+    },
+    required: ['sources', 'database'],
+  },
+};
@@ -19,6 +19,7 @@ import { getProvision, type GetProvisionInput } from './get-provision.js';
 import { searchCaseLaw, type SearchCaseLawInput } from './search-case-law.js';
 import { getPreparatoryWorks, type GetPreparatoryWorksInput } from './get-preparatory-works.js';
 import { validateCitationTool, type ValidateCitationInput } from './validate-citation.js';
+import { extractCitationsTool, type ExtractCitationsInput } from './extract-citations.js';
 import { buildLegalStance, type BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, type FormatCitationInput } from './format-citation.js';
 import { checkCurrency, type CheckCurrencyInput } from './check-currency.js';
@@ -28,7 +29,20 @@ import { searchEUImplementations, type SearchEUImplementationsInput } from './se
 import { getProvisionEUBasis, type GetProvisionEUBasisInput } from './get-provision-eu-basis.js';
 import { validateEUCompliance, type ValidateEUComplianceInput } from './validate-eu-compliance.js';
 import { getProvisionAtDate, type GetProvisionAtDateInput } from './get-provision-at-date.js';
+import { diffProvision, type DiffProvisionInput } from './diff-provision.js';
+import { getAmendmentHistory, type GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { getDocumentAtDate, type GetDocumentAtDateInput } from './get-document-at-date.js';
 import { listSources } from './list-sources.js';
+import { searchDefinitions, type SearchDefinitionsInput } from './search-definitions.js';
+import { getDefinition, type GetDefinitionInput } from './get-definition.js';
+import { getCrossReferences, type GetCrossReferencesInput } from './get-cross-references.js';
+import { getDocumentStructure, type GetDocumentStructureInput } from './get-document-structure.js';
+import { listDocuments, type ListDocumentsInput } from './list-documents.js';
+import { OUTPUT_SCHEMAS } from './output-schemas.js';
+import { validateAgainstSchema, type JsonSchema } from '../utils/json-schema.js';
+import { resolveDocumentReference } from '../utils/document-id.js';
+import { generateResponseMetadata, type ResolvedDocument } from '../utils/metadata.js';
+import { ToolError, toToolErrorInfo, toolErrorInfo, type ToolErrorInfo } from '../utils/errors.js';
 
 export const TOOLS: Tool[] = [
   {
@@ -38,19 +52,22 @@ export const TOOLS: Tool[] = [
     inputSchema: {
       type: 'object',
       properties: {
-        query: { type: 'string', description: 'Search terms (Slovenian or English). Examples: "osebni podatki", "varstvo okolja", "kaznivo dejanje"' },
+        query: { type: 'string', description: 'Search terms (Slovenian or English). English legal terms are expanded to Slovenian ("employment contract" → "pogodba o zaposlitvi"). Examples: "osebni podatki", "varstvo okolja", "kaznivo dejanje"' },
         document_id: { type: 'string', description: 'Document ID to restrict search to a specific statute (e.g. "ZVOP-2", "KZ-1")' },
         status: { type: 'string', description: 'Filter by status: in_force, repealed, amended', enum: ['in_force', 'repealed', 'amended'] },
         as_of_date: { type: 'string', description: 'ISO date to query historical versions (e.g. "2020-01-01"). Returns provisions valid at that date.' },
         limit: { type: 'number', description: 'Max results (1-50, default 10)', minimum: 1, maximum: 50, default: 10 },
+        mode: { type: 'string', description: 'keyword (default): BM25 full-text ranking. hybrid: fuse BM25 with semantic vector similarity to also find provisions worded differently from the query (falls back to keyword when the database has no vectors)', enum: ['keyword', 'hybrid'], default: 'keyword' },
       },
       required: ['query'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.search_legislation,
   },
   {
     name: 'get_provision',
     description:
-      'Retrieve a specific provision (člen) from a Slovenian statute. Examples: document_id="zakon-o-kazenskem-postopku", article="148" for 148. člen ZKP. Can also use provision_ref directly. Omit article to get all provisions in the statute.',
+      'Retrieve a specific provision (člen) from a Slovenian statute. Examples: document_id="zakon-o-kazenskem-postopku", article="148" for 148. člen ZKP. Can also use provision_ref directly. Omit article to get all provisions in the statute. Add paragraph/point/subpoint/indent to get one unit, e.g. article="6", paragraph="1", point="3" for 3. točka 1. odstavka 6. člena.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -59,9 +76,15 @@ export const TOOLS: Tool[] = [
         article: { type: 'string', description: 'Article number (e.g. "148"). Slovenian articles use člen notation.' },
         provision_ref: { type: 'string', description: 'Full provision reference (e.g. "148" or "3:5")' },
         as_of_date: { type: 'string', description: 'ISO date to retrieve historical version (YYYY-MM-DD)' },
+        paragraph: { type: 'string', description: 'Odstavek within the article (e.g. "1"). With point, subpoint or indent, returns only that unit' },
+        point: { type: 'string', description: 'Točka (e.g. "3" for 3. točka, "a" for a lettered a) točka directly under an odstavek)' },
+        subpoint: { type: 'string', description: 'Podtočka letter (e.g. "a" for a) podtočka)' },
+        indent: { type: 'string', description: 'Alineja number (e.g. "2" for druga alineja)' },
       },
       required: ['document_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_provision,
   },
   {
     name: 'search_case_law',
@@ -78,9 +101,12 @@ export const TOOLS: Tool[] = [
         date_from: { type: 'string', description: 'Start date filter (ISO format YYYY-MM-DD)' },
         date_to: { type: 'string', description: 'End date filter (ISO format YYYY-MM-DD)' },
         limit: { type: 'number', description: 'Max results (1-50, default 10)', minimum: 1, maximum: 50, default: 10 },
+        mode: { type: 'string', description: 'keyword (default): BM25 full-text ranking. hybrid: fuse BM25 with semantic vector similarity to also find decisions worded differently from the query (falls back to keyword when the database has no vectors)', enum: ['keyword', 'hybrid'], default: 'keyword' },
       },
       required: [],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.search_case_law,
   },
   {
     name: 'get_preparatory_works',
@@ -94,19 +120,43 @@ export const TOOLS: Tool[] = [
         limit: { type: 'number', description: 'Max results (1-50, default 20)', minimum: 1, maximum: 50, default: 20 },
       },
       required: ['statute_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_preparatory_works,
   },
   {
     name: 'validate_citation',
     description:
-      'Validate a Slovenian legal citation and check whether the referenced document and provision exist in the database. Supported formats: "1. člen ZKP", "Uradni list RS, št. 63/13", "ECLI:SI:VSRS:2020:123". Returns validation status, warnings for repealed/amended laws, and normalized citation.',
+      'Validate a Slovenian legal citation and check whether the referenced document and provision exist in the database. Supported formats: "1. člen ZKP", "6.a člen ZKP", "3. točka 1. odstavka 6. člena ZVOP-2", "druga alineja 2. odstavka 10. člena KZ-1", ranges and lists such as "15. do 20. člen ZKP" or "5., 7. in 9. člen ZKP", "Uradni list RS, št. 63/13", "ECLI:SI:VSRS:2020:II.IPS.45.2019", and case numbers such as "odločba US, št. U-I-123/18", "sklep VSRS II Ips 45/2019" or "VDSS Pdp 123/2020" (mapped to the decision and its ECLI). Pinpoints below the člen are checked against the article text; for ranges, members lists which členi exist and which were repealed. Uradni list citations resolve to the statutes the issue published, amended, corrected or annulled (gazette_publications). Returns validation status, warnings for repealed/amended laws, and normalized citation.',
     inputSchema: {
       type: 'object',
       properties: {
         citation: { type: 'string', description: 'Citation string to validate' },
       },
       required: ['citation'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.validate_citation,
+  },
+  {
+    name: 'extract_citations',
+    description:
+      'Find and check every legal citation in a free text such as a contract, brief or draft memo. Recognises Slovenian statute citations in any grammatical case ("v skladu s 6. členom ZVOP-2", "3. točke 1. odstavka 6. člena ZVOP-2", "15. do 20. člena ZKP", "23. člena Ustave"), Uradni list RS references including lists ("Uradni list RS, št. 21/13, 78/13 – popr."), ECLI identifiers, Ustavno sodišče case numbers (U-I-123/20, Up-456/19) and EU directives and regulations. Each citation comes with its character offsets, a normalized form, whether it exists in the database and warnings for repealed statutes or členi.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Text to check (up to 500,000 characters)' },
+        kinds: {
+          type: 'array',
+          description: 'Only these kinds of citation (default all)',
+          items: { type: 'string', enum: ['statute', 'uradni_list', 'ecli', 'constitutional_court', 'eu_act'] },
+        },
+        limit: { type: 'number', description: 'Max citations returned (1-500, default 100); the summary counts all', minimum: 1, maximum: 500, default: 100 },
+      },
+      required: ['text'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.extract_citations,
   },
   {
     name: 'build_legal_stance',
@@ -121,20 +171,33 @@ export const TOOLS: Tool[] = [
         limit: { type: 'number', description: 'Max results per category (default 5, max 20)', minimum: 1, maximum: 20, default: 5 },
       },
       required: ['query'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.build_legal_stance,
   },
   {
     name: 'format_citation',
     description:
-      'Format a Slovenian legal citation into the standard format. Outputs proper Slovenian citation format, e.g. "1. člen Zakon o kazenskem postopku (ZKP)". Supports full, short, and pinpoint formats.',
+      'Format a Slovenian legal citation into the standard format. Outputs proper Slovenian citation format, e.g. "1. člen Zakon o kazenskem postopku (ZKP)". Supports full, short, and pinpoint formats, plus english, oscola and eu styles for English memos and EU-facing work. EU acts are normalized ("Direktiva 95/46/ES", "Uredba (ES) št. 1049/2001", "Directive 95/46/EC"). Court decisions are formatted as case number and ECLI in full format ("VSRS II Ips 45/2019, ECLI:SI:VSRS:2020:II.IPS.45.2019"), whichever of the two was cited.',
     inputSchema: {
       type: 'object',
       properties: {
         citation: { type: 'string', description: 'Citation string to format' },
-        format: { type: 'string', description: 'Output format: full, short, or pinpoint', enum: ['full', 'short', 'pinpoint'] },
+        format: {
+          type: 'string',
+          description: 'Output format: full, short or pinpoint (Slovenian); english ("Article 6(1) of the Personal Data Protection Act (ZVOP-2), Official Gazette RS No. 163/22"); oscola; eu (EU Interinstitutional Style Guide form for EU acts, e.g. "Directive 95/46/EC")',
+          enum: ['full', 'short', 'pinpoint', 'english', 'oscola', 'eu'],
+        },
+        grammatical_case: {
+          type: 'string',
+          description: 'Inflect a statute citation to fit a sentence, e.g. orodnik for "v skladu s 6. členom Zakona o ...". Pinpoints are ordered from the smallest unit up: "3. točko 1. odstavka 6. člena". Omit for the plain citation form.',
+          enum: ['imenovalnik', 'rodilnik', 'dajalnik', 'tožilnik', 'mestnik', 'orodnik'],
+        },
       },
       required: ['citation'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.format_citation,
   },
   {
     name: 'check_currency',
@@ -148,7 +211,9 @@ export const TOOLS: Tool[] = [
         as_of_date: { type: 'string', description: 'ISO date to check validity at a specific point in time (YYYY-MM-DD)' },
       },
       required: ['document_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.check_currency,
   },
   {
     name: 'get_eu_basis',
@@ -166,7 +231,9 @@ export const TOOLS: Tool[] = [
         },
       },
       required: ['document_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_eu_basis,
   },
   {
     name: 'get_slovenian_implementations',
@@ -180,7 +247,9 @@ export const TOOLS: Tool[] = [
         in_force_only: { type: 'boolean', description: 'Only return statutes currently in force (default false)', default: false },
       },
       required: ['eu_document_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_slovenian_implementations,
   },
   {
     name: 'search_eu_implementations',
@@ -198,7 +267,9 @@ export const TOOLS: Tool[] = [
         limit: { type: 'number', description: 'Max results (1-100, default 20)', minimum: 1, maximum: 100, default: 20 },
       },
       required: [],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.search_eu_implementations,
   },
   {
     name: 'get_provision_eu_basis',
@@ -211,7 +282,9 @@ export const TOOLS: Tool[] = [
         provision_ref: { type: 'string', description: 'Provision reference (e.g. "148" or "3:5")' },
       },
       required: ['document_id', 'provision_ref'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.get_provision_eu_basis,
   },
   {
     name: 'validate_eu_compliance',
@@ -225,7 +298,9 @@ export const TOOLS: Tool[] = [
         eu_document_id: { type: 'string', description: 'EU document ID to check compliance against' },
       },
       required: ['document_id'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.validate_eu_compliance,
   },
   {
     name: 'get_provision_at_date',
@@ -240,7 +315,162 @@ export const TOOLS: Tool[] = [
         include_amendments: { type: 'boolean', description: 'Include amendment history records (default false)', default: false },
       },
       required: ['document_id', 'provision_ref', 'date'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_provision_at_date,
+  },
+  {
+    name: 'get_document_at_date',
+    description:
+      'Reconstruct a whole Slovenian statute as it stood on a given date (e.g. ZDR-1 on the day an employment contract was signed). Returns every article (člen) in structural order with the version valid on that date; articles that were not yet in force or had already been deleted are flagged instead of silently dropped. Paginated: pass next_cursor to continue through large codes. format "text" returns the page as consolidated text for export.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Statute identifier (e.g. "ZDR-1", "ZAKO5944")' },
+        date: { type: 'string', description: 'ISO date (YYYY-MM-DD) to reconstruct the statute at' },
+        format: { type: 'string', enum: ['structured', 'text'], description: 'structured (default) returns article objects; text returns a consolidated text rendering', default: 'structured' },
+        include_absent: { type: 'boolean', description: 'List articles not in force on the date (default true)', default: true },
+        limit: { type: 'number', description: 'Articles per page (1-200, default 50)', minimum: 1, maximum: 200, default: 50 },
+        cursor: { type: 'string', description: 'next_cursor from a previous response' },
+      },
+      required: ['document_id', 'date'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_document_at_date,
+  },
+  {
+    name: 'diff_provision',
+    description:
+      'Compare two versions of a provision word by word. Versions are picked by date (the text in force on from_date and to_date) or by version id. Paragraphs (odstavki), points (točke), subpoints and indents (alineje) are aligned and marked as added, deleted, changed, renumbered or unchanged, with word-level insert/delete segments for each change. Without a starting version, shows what the latest amendment before to_date (default today) changed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Document ID of the statute' },
+        provision_ref: { type: 'string', description: 'Provision reference (e.g. "148")' },
+        from_date: { type: 'string', description: 'ISO date (YYYY-MM-DD) of the older text' },
+        to_date: { type: 'string', description: 'ISO date (YYYY-MM-DD) of the newer text (default today)' },
+        from_version_id: { type: 'number', description: 'Version id of the older text (instead of from_date)' },
+        to_version_id: { type: 'number', description: 'Version id of the newer text (instead of to_date)' },
+        include_unified: { type: 'boolean', description: 'Also return a unified-diff style text rendering (default false)', default: false },
+      },
+      required: ['document_id', 'provision_ref'],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.diff_provision,
+  },
+  {
+    name: 'get_amendment_history',
+    description:
+      'Chronological amendment timeline for a Slovenian statute or one of its articles (členi). Each entry gives the amending act, its Uradni list RS reference, the effective date (or publication year when the date is unknown) and the amendment type: nov (original publication), spremenjen, dodan, črtan, razveljavljen (incl. Constitutional Court annulments), popravek or upb (official consolidated text).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Statute identifier (e.g. "ZDR-1", "ZAKO5944")' },
+        provision_ref: { type: 'string', description: 'Article to restrict the timeline to (e.g. "148")' },
+        from_date: { type: 'string', description: 'ISO date (YYYY-MM-DD). Only amendments on or after this date.' },
+        to_date: { type: 'string', description: 'ISO date (YYYY-MM-DD). Only amendments on or before this date.' },
+        amendment_types: {
+          type: 'array',
+          items: { type: 'string', enum: ['nov', 'spremenjen', 'dodan', 'črtan', 'razveljavljen', 'popravek', 'upb'] },
+          description: 'Only return these amendment types',
+        },
+      },
+      required: ['document_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_amendment_history,
+  },
+  {
+    name: 'search_definitions',
+    description:
+      'Full-text search over statutory definitions (pomen izrazov) extracted from the definitions articles of Slovenian statutes. Searches both the defined term and its definition text. Use document_id to restrict to one statute and as_of_date to only return definitions whose defining provision was valid at that date.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search terms (Slovenian). Examples: "upravljavec", "osebni podatek", "javni sektor"' },
+        document_id: { type: 'string', description: 'Document ID to restrict search to a specific statute (e.g. "ZVOP-2", "ZBan-3")' },
+        as_of_date: { type: 'string', description: 'ISO date (YYYY-MM-DD). Only returns definitions in force at that date.' },
+        limit: { type: 'number', description: 'Max results (1-50, default 10)', minimum: 1, maximum: 50, default: 10 },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.search_definitions,
+  },
+  {
+    name: 'get_definition',
+    description:
+      'Get the exact statutory definition of a term, e.g. what "nadzorni organ" means under ZVOP-2. Returns the verbatim definition, the source provision (člen) that defines it, and the status of the statute. Omit document_id to list the definition in every statute that defines the term.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        term: { type: 'string', description: 'Defined term in Slovenian (e.g. "nadzorni organ", "javni sektor")' },
+        document_id: { type: 'string', description: 'Document ID of the statute (e.g. "ZVOP-2")' },
+        as_of_date: { type: 'string', description: 'ISO date (YYYY-MM-DD). Only returns definitions in force at that date.' },
+      },
+      required: ['term'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_definition,
+  },
+  {
+    name: 'get_cross_references',
+    description:
+      'Get the cross-reference graph around a Slovenian statute or provision: which provisions cite it (inbound) and which provisions it cites (outbound). Edges are grouped by ref_type (references, amended_by, implements, see_also). Use depth to walk the graph up to 3 hops, e.g. to see which articles depend on 37. člen ZDR-1 before assessing an amendment.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Document ID of the statute (e.g. "ZDR-1", "ZAKO5944")' },
+        provision_ref: { type: 'string', description: 'Provision reference (e.g. "37", "37.a" or "37. člen"). Omit for references to and from the whole statute.' },
+        depth: { type: 'number', description: 'Number of hops to walk (1-3, default 1)', minimum: 1, maximum: 3, default: 1 },
+        ref_types: {
+          type: 'array',
+          items: { type: 'string', enum: ['references', 'amended_by', 'implements', 'see_also'] },
+          description: 'Only follow these reference types (default: all)',
+        },
+      },
+      required: ['document_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_cross_references,
+  },
+  {
+    name: 'get_document_structure',
+    description:
+      'Get the table of contents of a Slovenian statute as a nested outline: parts (deli), chapters (poglavja), sections (oddelki) and articles (členi) with their titles, plus a provision count and article range per node. Works for large codes such as OZ and ZPP. Use this to find the right člen before calling get_provision. Supports as_of_date to show the structure at a historical date.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: { type: 'string', description: 'Document ID of the statute (e.g. "OZ", "ZPP", "ZAKO1263")' },
+        as_of_date: { type: 'string', description: 'ISO date (YYYY-MM-DD) to build the outline from provision versions valid at that date' },
+        include_articles: { type: 'boolean', description: 'List individual articles under each node (default true). Set false for headings and counts only.', default: true },
+      },
+      required: ['document_id'],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.get_document_structure,
+  },
+  {
+    name: 'list_documents',
+    description:
+      'Browse the Slovenian statutes in the database instead of guessing document IDs. Filter by type, status, issued and in-force date ranges, and title or short-name prefix. Each row lists every accepted alias (short name such as "ZVOP-2", PIS ID such as "ZAKO7959", title slug, and legacy abbreviations such as "Ustava"), and the response includes facet counts per filter value. Paginate with next_cursor.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', description: 'Filter by document type', enum: ['statute', 'constitutional', 'parliamentary', 'regulation', 'decree', 'case_law'] },
+        status: { type: 'string', description: 'Filter by status', enum: ['in_force', 'amended', 'repealed', 'not_yet_in_force'] },
+        title_prefix: { type: 'string', description: 'Title or short name prefix (e.g. "Zakon o varstvu", "ZD")' },
+        issued_from: { type: 'string', description: 'Earliest issued date (YYYY-MM-DD)' },
+        issued_to: { type: 'string', description: 'Latest issued date (YYYY-MM-DD)' },
+        in_force_from: { type: 'string', description: 'Earliest in-force date (YYYY-MM-DD)' },
+        in_force_to: { type: 'string', description: 'Latest in-force date (YYYY-MM-DD)' },
+        limit: { type: 'number', description: 'Page size (1-100, default 50)', minimum: 1, maximum: 100, default: 50 },
+        cursor: { type: 'string', description: 'Opaque cursor from a previous response (next_cursor) to fetch the next page' },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: OUTPUT_SCHEMAS.list_documents,
   },
   {
     name: 'list_sources',
@@ -250,10 +480,24 @@ export const TOOLS: Tool[] = [
       type: 'object',
       properties: {},
       required: [],
+      additionalProperties: false,
     },
+    outputSchema: OUTPUT_SCHEMAS.list_sources,
   },
 ];
 
+/** Arguments naming a statute; resolved here so every tool reports what it resolved to and refuses ambiguous references */
+const DOCUMENT_ARGUMENTS = ['document_id', 'statute_id'];
+
+/** isError response carrying the coded error, also listed in _metadata.errors like degraded answers */
+function errorResponse(db: InstanceType<typeof Database>, error: ToolErrorInfo) {
+  const body = { error, _metadata: { ...generateResponseMetadata(db), errors: [error] } };
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body, null, 2) }],
+    isError: true,
+  };
+}
+
 export function registerTools(
   server: Server,
   db: InstanceType<typeof Database>,
@@ -263,7 +507,48 @@ export function registerTools(
   });
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+    const { name } = request.params;
+    let args = request.params.arguments ?? {};
+
+    const tool = TOOLS.find(t => t.name === name);
+    if (!tool) {
+      return errorResponse(db, toolErrorInfo('UNKNOWN_TOOL', { tool: name, available: TOOLS.map(t => t.name) }));
+    }
+
+    const violations = validateAgainstSchema(tool.inputSchema as JsonSchema, args);
+    if (violations.length > 0) {
+      return errorResponse(db, toolErrorInfo('INVALID_ARGUMENTS', { tool: name, violations }));
+    }
+
+    let resolved: ResolvedDocument | undefined;
+    for (const argument of DOCUMENT_ARGUMENTS) {
+      const reference = args[argument];
+      if (typeof reference !== 'string' || !reference.trim()) continue;
+
+      const resolution = resolveDocumentReference(db, reference);
+      if (resolution.ambiguous) {
+        return errorResponse(db, toolErrorInfo('AMBIGUOUS_REFERENCE', {
+          argument,
+          reference: resolution.reference,
+          candidates: resolution.candidates,
+        }));
+      }
+
+      const [best] = resolution.candidates;
+      if (!best) {
+        return errorResponse(db, toolErrorInfo('DOCUMENT_NOT_FOUND', { document_id: resolution.reference }));
+      }
+      args = { ...args, [argument]: best.document_id };
+      resolved = {
+        argument,
+        reference: resolution.reference,
+        document_id: best.document_id,
+        title: best.title,
+        short_name: best.short_name,
+        match: best.match,
+        score: best.score,
+      };
+    }
 
     try {
       let result: unknown;
@@ -284,11 +569,14 @@ export function registerTools(
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
+        case 'extract_citations':
+          result = await extractCitationsTool(db, args as unknown as ExtractCitationsInput);
+          break;
         case 'build_legal_stance':
           result = await buildLegalStance(db, args as unknown as BuildLegalStanceInput);
           break;
         case 'format_citation':
-          result = await formatCitationTool(args as unknown as FormatCitationInput);
+          result = await formatCitationTool(db, args as unknown as FormatCitationInput);
           break;
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
@@ -311,25 +599,46 @@ export function registerTools(
         case 'get_provision_at_date':
           result = await getProvisionAtDate(db, args as unknown as GetProvisionAtDateInput);
           break;
+        case 'get_document_at_date':
+          result = await getDocumentAtDate(db, args as unknown as GetDocumentAtDateInput);
+          break;
+        case 'diff_provision':
+          result = await diffProvision(db, args as unknown as DiffProvisionInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
+        case 'search_definitions':
+          result = await searchDefinitions(db, args as unknown as SearchDefinitionsInput);
+          break;
+        case 'get_definition':
+          result = await getDefinition(db, args as unknown as GetDefinitionInput);
+          break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'get_document_structure':
+          result = await getDocumentStructure(db, args as unknown as GetDocumentStructureInput);
+          break;
+        case 'list_documents':
+          result = await listDocuments(db, args as unknown as ListDocumentsInput);
+          break;
         default:
-          return {
-            content: [{ type: 'text', text: `Error: Unknown tool "${name}".` }],
-            isError: true,
-          };
+          throw new ToolError('UNKNOWN_TOOL', { tool: name, available: TOOLS.map(t => t.name) });
       }
 
+      const metadata = (result as { _metadata?: Record<string, unknown> } | null)?._metadata;
+      if (resolved && metadata) metadata.resolved_document = resolved;
+
       return {
         content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as Record<string, unknown>,
       };
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return {
-        content: [{ type: 'text', text: `Error executing ${name}: ${message}` }],
-        isError: true,
-      };
+      return errorResponse(db, toToolErrorInfo(error));
     }
   });
 }
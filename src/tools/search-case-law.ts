@@ -1,6 +1,9 @@
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants } from '../utils/fts-query.js';
+import { buildFtsSearchVariants, variantMatchText, type FtsSearchVariant } from '../utils/fts-query.js';
+import { rankExactDiacriticsFirst } from '../utils/diacritics.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { fuseRankings, hasVectorIndex, searchVectors } from '../utils/vector-search.js';
+import { toolErrorInfo } from '../utils/errors.js';
 
 export interface SearchCaseLawInput {
   query: string;
@@ -11,6 +14,8 @@ export interface SearchCaseLawInput {
   date_from?: string;
   date_to?: string;
   limit?: number;
+  /** 'keyword' (default): BM25 only. 'hybrid': BM25 fused with vector similarity */
+  mode?: 'keyword' | 'hybrid';
 }
 
 export interface SearchCaseLawResult {
@@ -26,6 +31,8 @@ export interface SearchCaseLawResult {
   snippet: string | null;
   relevance: number | null;
   url: string | null;
+  /** Hybrid mode only: which retrievers returned the decision */
+  matched_by?: ('keyword' | 'semantic')[];
 }
 
 const MAX_LIMIT = 50;
@@ -58,48 +65,58 @@ function lookupByEcli(db: Database, ecli: string): SearchCaseLawResult[] {
   return db.prepare(sql).all(ecli) as SearchCaseLawResult[];
 }
 
-function runFtsSearch(
-  db: Database,
-  ftsQuery: string,
-  court: string | undefined,
-  legalDomain: string | undefined,
-  procedureType: string | undefined,
-  dateFrom: string | undefined,
-  dateTo: string | undefined,
-  limit: number,
-): SearchCaseLawResult[] {
-  const conditions: string[] = [];
-  const params: (string | number)[] = [];
+interface CaseLawFilters {
+  court?: string;
+  legal_domain?: string;
+  procedure_type?: string;
+  date_from?: string;
+  date_to?: string;
+}
 
-  conditions.push('case_law_fts MATCH ?');
-  params.push(ftsQuery);
+function buildFilterConditions(filters: CaseLawFilters): { conditions: string[]; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
 
-  if (court) {
+  if (filters.court) {
     conditions.push('cl.court = ?');
-    params.push(court);
+    params.push(filters.court);
   }
 
-  if (legalDomain) {
+  if (filters.legal_domain) {
     conditions.push('cl.legal_domain = ?');
-    params.push(legalDomain);
+    params.push(filters.legal_domain);
   }
 
-  if (procedureType) {
+  if (filters.procedure_type) {
     conditions.push('cl.procedure_type = ?');
-    params.push(procedureType);
+    params.push(filters.procedure_type);
   }
 
-  if (dateFrom) {
+  if (filters.date_from) {
     conditions.push('cl.decision_date >= ?');
-    params.push(dateFrom);
+    params.push(filters.date_from);
   }
 
-  if (dateTo) {
+  if (filters.date_to) {
     conditions.push('cl.decision_date <= ?');
-    params.push(dateTo);
+    params.push(filters.date_to);
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return { conditions, params };
+}
+
+function runFtsSearch(
+  db: Database,
+  variant: FtsSearchVariant,
+  filters: CaseLawFilters,
+  limit: number,
+): SearchCaseLawResult[] {
+  const fts = variant.table;
+  const filter = buildFilterConditions(filters);
+  const conditions = [`${fts} MATCH ?`, ...filter.conditions];
+  const params: (string | number)[] = [variant.query, ...filter.params];
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
 
   const sql = `
     SELECT
@@ -112,14 +129,14 @@ function runFtsSearch(
       cl.procedure_type,
       cl.legal_domain,
       cl.summary,
-      snippet(case_law_fts, 0, '**', '**', '...', 32) AS snippet,
-      bm25(case_law_fts) AS relevance,
+      snippet(${fts}, 0, '**', '**', '...', 32) AS snippet,
+      bm25(${fts}) AS relevance,
       d.url
-    FROM case_law_fts
-    JOIN case_law AS cl ON case_law_fts.rowid = cl.id
+    FROM ${fts}
+    JOIN case_law AS cl ON ${fts}.rowid = cl.id
     JOIN legal_documents AS d ON cl.document_id = d.id
     ${whereClause}
-    ORDER BY bm25(case_law_fts)
+    ORDER BY bm25(${fts})
     LIMIT ?
   `;
   params.push(limit);
@@ -127,6 +144,56 @@ function runFtsSearch(
   return db.prepare(sql).all(...params) as SearchCaseLawResult[];
 }
 
+/**
+ * Fuse keyword results with vector hits by reciprocal rank fusion.
+ * `relevance` becomes the negated fused score, so lower is still better.
+ */
+function fuseWithVectorHits(
+  db: Database,
+  query: string,
+  keywordRows: SearchCaseLawResult[],
+  filters: CaseLawFilters,
+  limit: number,
+): SearchCaseLawResult[] {
+  const filter = buildFilterConditions(filters);
+  const allowedIds = filter.conditions.length > 0
+    ? new Set((db.prepare(`SELECT cl.id FROM case_law AS cl WHERE ${filter.conditions.join(' AND ')}`)
+      .all(...filter.params) as { id: number }[]).map(row => row.id))
+    : undefined;
+
+  const hits = searchVectors(db, 'case_law', query, limit, allowedIds);
+  const ids = hits.map(hit => hit.id);
+  const rows = ids.length === 0 ? [] : db.prepare(`
+    SELECT
+      cl.id,
+      cl.document_id,
+      d.title AS document_title,
+      cl.ecli,
+      cl.court,
+      cl.case_number,
+      cl.decision_date,
+      cl.procedure_type,
+      cl.legal_domain,
+      cl.summary,
+      NULL AS snippet,
+      NULL AS relevance,
+      d.url
+    FROM case_law AS cl
+    JOIN legal_documents AS d ON cl.document_id = d.id
+    WHERE cl.id IN (${ids.map(() => '?').join(', ')})
+  `).all(...ids) as (SearchCaseLawResult & { id: number })[];
+  const byId = new Map(rows.map(({ id, ...row }) => [id, row]));
+  const semanticRows = ids.map(id => byId.get(id)).filter((row): row is SearchCaseLawResult => !!row);
+
+  return fuseRankings([keywordRows, semanticRows], row => row.document_id)
+    .slice(0, limit)
+    .map(({ item, score, sources }) => ({
+      ...item,
+      relevance: -score,
+      matched_by: sources.map(source => (source === 0 ? 'keyword' as const : 'semantic' as const)),
+    }));
+}
+
 export async function searchCaseLaw(
   db: Database,
   input: SearchCaseLawInput,
@@ -149,16 +216,44 @@ export async function searchCaseLaw(
     return { results, _metadata: generateResponseMetadata(db) };
   }
 
-  const variants = buildFtsQueryVariants(input.query);
-  if (!variants.primary) {
-    return { results: [], _metadata: generateResponseMetadata(db) };
+  const variants = buildFtsSearchVariants(db, 'case_law_fts', input.query);
+  const filters: CaseLawFilters = { court, legal_domain, procedure_type, date_from, date_to };
+
+  let keywordRows: SearchCaseLawResult[] = [];
+  let matched: FtsSearchVariant | undefined;
+  let folded = false;
+  for (const variant of variants) {
+    const rows = runFtsSearch(db, variant, filters, limit);
+    if (rows.length > 0) {
+      ({ results: keywordRows, folded } = rankExactDiacriticsFirst(rows, variantMatchText(variant, input.query)));
+      matched = variant;
+      break;
+    }
   }
 
-  let results = runFtsSearch(db, variants.primary, court, legal_domain, procedure_type, date_from, date_to, limit);
+  const metadata = {
+    ...generateResponseMetadata(db),
+    ...(matched?.strategy && { query_strategy: matched.strategy }),
+    ...(matched?.expansion && { query_expansion: matched.expansion }),
+    ...(folded && { diacritics_folded: true }),
+  };
 
-  if (results.length === 0 && variants.fallback) {
-    results = runFtsSearch(db, variants.fallback, court, legal_domain, procedure_type, date_from, date_to, limit);
+  if (input.mode === 'hybrid') {
+    if (!hasVectorIndex(db, 'case_law')) {
+      return {
+        results: keywordRows,
+        _metadata: {
+          ...metadata,
+          note: 'Hybrid mode is unavailable: this database has no case law vectors. Showing keyword results.',
+          errors: [toolErrorInfo('CAPABILITY_UNAVAILABLE', { capability: 'case_law_vectors', fallback: 'keyword_search' })],
+        },
+      };
+    }
+    return {
+      results: fuseWithVectorHits(db, input.query, keywordRows, filters, limit),
+      _metadata: { ...metadata, query_strategy: 'hybrid' },
+    };
   }
 
-  return { results, _metadata: generateResponseMetadata(db) };
+  return { results: keywordRows, _metadata: metadata };
 }
@@ -0,0 +1,130 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { buildFtsSearchVariants, variantMatchText, type FtsSearchVariant } from '../utils/fts-query.js';
+import { rankExactDiacriticsFirst } from '../utils/diacritics.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/document-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { ToolError } from '../utils/errors.js';
+
+export interface SearchDefinitionsInput {
+  query: string;
+  document_id?: string;
+  as_of_date?: string;
+  limit?: number;
+}
+
+export interface SearchDefinitionsResult {
+  document_id: string;
+  document_title: string;
+  document_status: string;
+  term: string;
+  term_en: string | null;
+  definition: string;
+  source_provision: string | null;
+  snippet: string;
+  relevance: number;
+}
+
+const MAX_LIMIT = 50;
+const DEFAULT_LIMIT = 10;
+
+function clampLimit(limit: number | undefined): number {
+  if (limit == null) return DEFAULT_LIMIT;
+  return Math.max(1, Math.min(limit, MAX_LIMIT));
+}
+
+function runFtsSearch(
+  db: Database,
+  variant: FtsSearchVariant,
+  documentId: string | undefined,
+  asOfDate: string | undefined,
+  limit: number,
+): SearchDefinitionsResult[] {
+  const fts = variant.table;
+  const conditions: string[] = [`${fts} MATCH ?`];
+  const params: (string | number)[] = [variant.query];
+
+  if (documentId) {
+    conditions.push('def.document_id = ?');
+    params.push(documentId);
+  }
+
+  if (asOfDate) {
+    // A definition applies at a date if its statute was in force and the
+    // defining provision had a version valid on that date.
+    conditions.push('(d.in_force_date IS NULL OR d.in_force_date <= ?)');
+    params.push(asOfDate);
+    conditions.push(`(
+      def.source_provision IS NULL OR EXISTS (
+        SELECT 1 FROM legal_provision_versions AS pv
+        WHERE pv.document_id = def.document_id
+          AND pv.provision_ref = def.source_provision
+          AND (pv.valid_from IS NULL OR pv.valid_from <= ?)
+          AND (pv.valid_to IS NULL OR pv.valid_to > ?)
+      )
+    )`);
+    params.push(asOfDate, asOfDate);
+  }
+
+  const sql = `
+    SELECT
+      def.document_id,
+      d.title AS document_title,
+      d.status AS document_status,
+      def.term,
+      def.term_en,
+      def.definition,
+      def.source_provision,
+      snippet(${fts}, 1, '**', '**', '...', 32) AS snippet,
+      bm25(${fts}) AS relevance
+    FROM ${fts}
+    JOIN definitions AS def ON ${fts}.rowid = def.id
+    JOIN legal_documents AS d ON def.document_id = d.id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY bm25(${fts})
+    LIMIT ?
+  `;
+  params.push(limit);
+
+  return db.prepare(sql).all(...params) as SearchDefinitionsResult[];
+}
+
+export async function searchDefinitions(
+  db: Database,
+  input: SearchDefinitionsInput,
+): Promise<ToolResponse<SearchDefinitionsResult[]>> {
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  const limit = clampLimit(input.limit);
+
+  const variants = buildFtsSearchVariants(db, 'definitions_fts', input.query);
+  if (variants.length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  let resolvedDocId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
+    }
+    resolvedDocId = resolved;
+  }
+
+  for (const variant of variants) {
+    const rows = runFtsSearch(db, variant, resolvedDocId, asOfDate, limit);
+    if (rows.length > 0) {
+      const { results, folded } = rankExactDiacriticsFirst(rows, variantMatchText(variant, input.query));
+      return {
+        results,
+        _metadata: {
+          ...generateResponseMetadata(db),
+          ...(variant.strategy && { query_strategy: variant.strategy }),
+          ...(variant.expansion && { query_expansion: variant.expansion }),
+          ...(folded && { diacritics_folded: true }),
+        },
+      };
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
@@ -1,5 +1,6 @@
 import type { Database } from '@ansvar/mcp-sqlite';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { foldDiacritics, foldedSql } from '../utils/diacritics.js';
 
 export interface SearchEUImplementationsInput {
   query?: string;
@@ -66,9 +67,10 @@ export async function searchEUImplementations(
   const params: (string | number)[] = [];
 
   if (query) {
-    conditions.push('(ed.title_sl LIKE ? OR ed.title LIKE ? OR ed.short_name LIKE ?)');
+    // Slovenian titles are compared diacritic-folded ("sodisce" finds "sodišče")
+    conditions.push(`(${foldedSql('ed.title_sl')} LIKE ? OR ed.title LIKE ? OR ed.short_name LIKE ?)`);
     const likeQuery = `%${query}%`;
-    params.push(likeQuery, likeQuery, likeQuery);
+    params.push(`%${foldDiacritics(query)}%`, likeQuery, likeQuery);
   }
 
   if (type) {
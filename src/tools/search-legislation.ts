@@ -1,8 +1,11 @@
 import type { Database } from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants } from '../utils/fts-query.js';
+import { buildFtsSearchVariants, variantMatchText, type FtsSearchVariant } from '../utils/fts-query.js';
+import { rankExactDiacriticsFirst } from '../utils/diacritics.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { resolveDocumentId } from '../utils/document-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { fuseRankings, hasVectorIndex, searchVectors } from '../utils/vector-search.js';
+import { ToolError, toolErrorInfo } from '../utils/errors.js';
 
 export interface SearchLegislationInput {
   query: string;
@@ -10,6 +13,8 @@ export interface SearchLegislationInput {
   status?: string;
   as_of_date?: string;
   limit?: number;
+  /** 'keyword' (default): BM25 only. 'hybrid': BM25 fused with vector similarity */
+  mode?: 'keyword' | 'hybrid';
 }
 
 export interface SearchLegislationResult {
@@ -23,6 +28,8 @@ export interface SearchLegislationResult {
   relevance: number;
   valid_from?: string | null;
   valid_to?: string | null;
+  /** Hybrid mode only: which retrievers returned the provision */
+  matched_by?: ('keyword' | 'semantic')[];
 }
 
 const MAX_LIMIT = 50;
@@ -35,7 +42,7 @@ function clampLimit(limit: number | undefined): number {
 
 function runFtsSearch(
   db: Database,
-  ftsQuery: string,
+  variant: FtsSearchVariant,
   documentId: string | undefined,
   status: string | undefined,
   limit: number,
@@ -43,8 +50,9 @@ function runFtsSearch(
   const conditions: string[] = [];
   const params: (string | number)[] = [];
 
-  conditions.push('provisions_fts MATCH ?');
-  params.push(ftsQuery);
+  const fts = variant.table;
+  conditions.push(`${fts} MATCH ?`);
+  params.push(variant.query);
 
   if (documentId) {
     conditions.push('p.document_id = ?');
@@ -66,13 +74,13 @@ function runFtsSearch(
       p.chapter,
       p.section,
       p.title,
-      snippet(provisions_fts, 0, '**', '**', '...', 32) AS snippet,
-      bm25(provisions_fts) AS relevance
-    FROM provisions_fts
-    JOIN legal_provisions AS p ON provisions_fts.rowid = p.id
+      snippet(${fts}, 0, '**', '**', '...', 32) AS snippet,
+      bm25(${fts}) AS relevance
+    FROM ${fts}
+    JOIN legal_provisions AS p ON ${fts}.rowid = p.id
     JOIN legal_documents AS d ON p.document_id = d.id
     ${whereClause}
-    ORDER BY bm25(provisions_fts)
+    ORDER BY bm25(${fts})
     LIMIT ?
   `;
   params.push(limit);
@@ -82,7 +90,7 @@ function runFtsSearch(
 
 function runVersionedFtsSearch(
   db: Database,
-  ftsQuery: string,
+  variant: FtsSearchVariant,
   asOfDate: string,
   documentId: string | undefined,
   status: string | undefined,
@@ -91,8 +99,9 @@ function runVersionedFtsSearch(
   const conditions: string[] = [];
   const params: (string | number)[] = [];
 
-  conditions.push('provision_versions_fts MATCH ?');
-  params.push(ftsQuery);
+  const fts = variant.table;
+  conditions.push(`${fts} MATCH ?`);
+  params.push(variant.query);
 
   conditions.push('(pv.valid_from IS NULL OR pv.valid_from <= ?)');
   params.push(asOfDate);
@@ -120,15 +129,15 @@ function runVersionedFtsSearch(
       pv.chapter,
       pv.section,
       pv.title,
-      snippet(provision_versions_fts, 0, '**', '**', '...', 32) AS snippet,
-      bm25(provision_versions_fts) AS relevance,
+      snippet(${fts}, 0, '**', '**', '...', 32) AS snippet,
+      bm25(${fts}) AS relevance,
       pv.valid_from,
       pv.valid_to
-    FROM provision_versions_fts
-    JOIN legal_provision_versions AS pv ON provision_versions_fts.rowid = pv.id
+    FROM ${fts}
+    JOIN legal_provision_versions AS pv ON ${fts}.rowid = pv.id
     JOIN legal_documents AS d ON pv.document_id = d.id
     ${whereClause}
-    ORDER BY bm25(provision_versions_fts)
+    ORDER BY bm25(${fts})
     LIMIT ?
   `;
   params.push(limit);
@@ -136,6 +145,80 @@ function runVersionedFtsSearch(
   return db.prepare(sql).all(...params) as SearchLegislationResult[];
 }
 
+/**
+ * Provisions for vector hits, in hit order. Vector hits have no FTS match to
+ * highlight, so the snippet is the opening of the provision text.
+ */
+function fetchVectorHits(db: Database, ids: number[]): SearchLegislationResult[] {
+  if (ids.length === 0) return [];
+  const rows = db.prepare(`
+    SELECT
+      p.id,
+      p.document_id,
+      d.title AS document_title,
+      p.provision_ref,
+      p.chapter,
+      p.section,
+      p.title,
+      CASE WHEN length(p.content) > 200 THEN substr(p.content, 1, 200) || '...' ELSE p.content END AS snippet,
+      0 AS relevance
+    FROM legal_provisions AS p
+    JOIN legal_documents AS d ON p.document_id = d.id
+    WHERE p.id IN (${ids.map(() => '?').join(', ')})
+  `).all(...ids) as (SearchLegislationResult & { id: number })[];
+
+  const byId = new Map(rows.map(({ id, ...row }) => [id, row]));
+  return ids.map(id => byId.get(id)).filter((row): row is SearchLegislationResult => !!row);
+}
+
+/** Provision IDs passing the document/status filters, or undefined when unfiltered */
+function filteredProvisionIds(
+  db: Database,
+  documentId: string | undefined,
+  status: string | undefined,
+): Set<number> | undefined {
+  if (!documentId && !status) return undefined;
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (documentId) {
+    conditions.push('p.document_id = ?');
+    params.push(documentId);
+  }
+  if (status) {
+    conditions.push('d.status = ?');
+    params.push(status);
+  }
+  const rows = db.prepare(`
+    SELECT p.id FROM legal_provisions AS p
+    JOIN legal_documents AS d ON p.document_id = d.id
+    WHERE ${conditions.join(' AND ')}
+  `).all(...params) as { id: number }[];
+  return new Set(rows.map(row => row.id));
+}
+
+/**
+ * Fuse keyword results with vector hits by reciprocal rank fusion.
+ * `relevance` becomes the negated fused score, so lower is still better.
+ */
+function fuseWithVectorHits(
+  db: Database,
+  query: string,
+  keywordRows: SearchLegislationResult[],
+  documentId: string | undefined,
+  status: string | undefined,
+  limit: number,
+): SearchLegislationResult[] {
+  const hits = searchVectors(db, 'provisions', query, limit, filteredProvisionIds(db, documentId, status));
+  const semanticRows = fetchVectorHits(db, hits.map(hit => hit.id));
+
+  const key = (row: SearchLegislationResult) => `${row.document_title}::${row.provision_ref}`;
+  return fuseRankings([keywordRows, semanticRows], key).map(({ item, score, sources }) => ({
+    ...item,
+    relevance: -score,
+    matched_by: sources.map(source => (source === 0 ? 'keyword' as const : 'semantic' as const)),
+  }));
+}
+
 /**
  * Deduplicate search results by document_title + provision_ref.
  * Duplicate document IDs (numeric vs slug) cause the same provision to appear twice.
@@ -167,8 +250,8 @@ export async function searchLegislation(
   // Fetch extra rows to account for deduplication
   const fetchLimit = limit * 2;
 
-  const variants = buildFtsQueryVariants(query);
-  if (!variants.primary) {
+  const variants = buildFtsSearchVariants(db, asOfDate ? 'provision_versions_fts' : 'provisions_fts', query);
+  if (variants.length === 0) {
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
@@ -178,37 +261,57 @@ export async function searchLegislation(
     const resolved = resolveDocumentId(db, input.document_id);
     resolvedDocId = resolved ?? undefined;
     if (!resolved) {
-      return {
-        results: [],
-        _metadata: {
-          ...generateResponseMetadata(db),
-          note: `No document found matching "${input.document_id}"`,
-        },
-      };
+      throw new ToolError('DOCUMENT_NOT_FOUND', { document_id: input.document_id });
     }
   }
 
   const search = asOfDate
-    ? (q: string) => runVersionedFtsSearch(db, q, asOfDate, resolvedDocId, status, fetchLimit)
-    : (q: string) => runFtsSearch(db, q, resolvedDocId, status, fetchLimit);
+    ? (v: FtsSearchVariant) => runVersionedFtsSearch(db, v, asOfDate, resolvedDocId, status, fetchLimit)
+    : (v: FtsSearchVariant) => runFtsSearch(db, v, resolvedDocId, status, fetchLimit);
 
-  let results = search(variants.primary);
+  // Stemmed before unstemmed, AND before OR — stop at the first query with hits
+  let keywordRows: SearchLegislationResult[] = [];
+  let matched: FtsSearchVariant | undefined;
+  let folded = false;
+  for (const variant of variants) {
+    const rows = search(variant);
+    if (rows.length > 0) {
+      ({ results: keywordRows, folded } = rankExactDiacriticsFirst(rows, variantMatchText(variant, query)));
+      matched = variant;
+      break;
+    }
+  }
 
-  if (results.length === 0 && variants.fallback) {
-    results = search(variants.fallback);
-    if (results.length > 0) {
+  const metadata = {
+    ...generateResponseMetadata(db),
+    ...(matched?.strategy && { query_strategy: matched.strategy }),
+    ...(matched?.expansion && { query_expansion: matched.expansion }),
+    ...(folded && { diacritics_folded: true }),
+  };
+
+  if (input.mode === 'hybrid') {
+    // Vectors describe current provision text only
+    const unavailable = asOfDate
+      ? 'Hybrid mode covers current provisions only; as_of_date searches use keyword ranking.'
+      : !hasVectorIndex(db, 'provisions')
+        ? 'Hybrid mode is unavailable: this database was built without vectors. Showing keyword results.'
+        : undefined;
+    if (!unavailable) {
+      const results = fuseWithVectorHits(db, query, keywordRows, resolvedDocId, status, fetchLimit);
       return {
         results: deduplicateResults(results, limit),
-        _metadata: {
-          ...generateResponseMetadata(db),
-          query_strategy: 'broadened',
-        },
+        _metadata: { ...metadata, query_strategy: 'hybrid' },
       };
     }
+    // A dated search is a scope limit, not a missing index
+    const errors = asOfDate
+      ? []
+      : [toolErrorInfo('CAPABILITY_UNAVAILABLE', { capability: 'provision_vectors', fallback: 'keyword_search' })];
+    return {
+      results: deduplicateResults(keywordRows, limit),
+      _metadata: { ...metadata, note: unavailable, ...(errors.length > 0 && { errors }) },
+    };
   }
 
-  return {
-    results: deduplicateResults(results, limit),
-    _metadata: generateResponseMetadata(db),
-  };
+  return { results: deduplicateResults(keywordRows, limit), _metadata: metadata };
 }
@@ -17,7 +17,7 @@ export async function validateCitationTool(
   input: ValidateCitationInput,
 ): Promise<ToolResponse<ValidateCitationResult>> {
   const validation = validate(db, input.citation);
-  const formatted = formatCitation(input.citation);
+  const formatted = formatCitation(input.citation, 'full', db);
 
   const result: ValidateCitationResult = {
     ...validation,
@@ -1,24 +1,76 @@
-import type { DocumentType, DocumentStatus } from './documents.js';
+import type { CourtType, DocumentType, DocumentStatus } from './documents.js';
 
-export type CitationFormat = 'full' | 'short' | 'pinpoint';
+/**
+ * Citation styles: Slovenian full/short/pinpoint, an English style for memos
+ * ("Article 6(1) of the ... Act (ZVOP-2), Official Gazette RS No. 163/22"),
+ * OSCOLA, and the EU Interinstitutional Style Guide for EU acts
+ */
+export type CitationFormat = 'full' | 'short' | 'pinpoint' | 'english' | 'oscola' | 'eu';
+
+/** Slovenian grammatical cases, for citations that go into a sentence */
+export type GrammaticalCase = 'imenovalnik' | 'rodilnik' | 'dajalnik' | 'tožilnik' | 'mestnik' | 'orodnik';
 
 export interface ParsedCitation {
   raw: string;
   type: DocumentType | 'eu_directive' | 'eu_regulation';
   document_id: string;
   article?: string;
+  /** Every article of a range or enumeration ("15. do 20. člen"); article is the first */
+  articles?: string[];
   paragraph?: string;
+  /** Točka; "3" in "3. točka 1. odstavka 6. člena" */
+  point?: string;
+  /** Podtočka letter; "a" in "a) podtočka" */
+  subpoint?: string;
+  /** Alineja number; "2" in "druga alineja" */
+  indent?: string;
   code_abbreviation?: string;
   ecli?: string;
+  /** Opravilna številka, e.g. "II Ips 45/2019" or "U-I-123/18" */
+  case_number?: string;
+  court?: CourtType;
   uradni_list_ref?: string;
+  /** Community of an EU act as cited in Slovenian: "EU", "ES", "EGS", "Euratom" */
+  eu_community?: string;
   valid: boolean;
   error?: string;
 }
 
+/** One člen of a cited range or enumeration */
+export interface CitationMember {
+  article: string;
+  provision_exists: boolean;
+  /** The article is only a deletion marker in the consolidated text: "(črtan)", "(prenehal veljati)" */
+  repealed: boolean;
+}
+
+export type GazettePublicationType = 'original' | 'amendment' | 'correction' | 'decision' | 'consolidated';
+
+/** A statute published, amended, corrected or annulled in an Uradni list issue */
+export interface GazettePublication {
+  document_id: string;
+  title: string;
+  publication_type: GazettePublicationType;
+  /** Act that made the change, as cited: "OZ-A", "ZZSDT", "odl. US" */
+  act?: string;
+  /** The amending act, when it is in the database */
+  act_document_id?: string;
+  published_date?: string;
+}
+
 export interface ValidationResult {
   citation: ParsedCitation;
   document_exists: boolean;
+  /** For ranges and enumerations: whether every člen exists */
   provision_exists: boolean;
+  /** Each člen of a range or enumeration */
+  members?: CitationMember[];
+  /** Whether the cited odstavek/točka/podtočka/alineja exists; only set for pinpoint citations */
+  pinpoint_exists?: boolean;
+  /** Text of the cited unit, with the units nested under it */
+  pinpoint_text?: string;
+  /** For Uradni list citations: every statute the issue published or changed */
+  gazette_publications?: GazettePublication[];
   status?: DocumentStatus;
   document_title?: string;
   warnings: string[];
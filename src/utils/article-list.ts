@@ -0,0 +1,129 @@
+/**
+ * Article ranges and enumerations as Slovenian statutes cite them:
+ *   "15. do 20. člen", "od 15. do 20. člena", "15.–20. člena"
+ *   "5., 7. in 9. člen", "5. ter 7. člena", "5., 7. do 9. člena"
+ *
+ * Ranges expand to every article between the bounds. Articles inserted later
+ * ("17.a") carry a letter and cannot be inferred from the citation alone, so
+ * callers that know the statute pass a lookup for them.
+ */
+
+import { articleOrdinal } from './provision-units.js';
+
+// An article in a list: "15." or "15.a"/"15a" (ordinals take a dot, lettered
+// numbers need none), or a bare number before a dash ("15–20.")
+const LIST_ITEM = '\\d+(?:\\.?[a-zčšž]|\\.|(?=\\s*[–-]))';
+
+/**
+ * Regex source for a range or enumeration of at least two articles, without
+ * the trailing "člen". Usable inside larger patterns; has no capture groups.
+ */
+export const ARTICLE_LIST_SOURCE =
+  `(?:od\\s+)?${LIST_ITEM}(?:\\s*(?:,\\s*(?:in\\s+|ter\\s+)?|in\\s+|ter\\s+|do\\s+|[–-]\\s*)${LIST_ITEM})+`;
+
+/** Ranges longer than this are rejected rather than expanded */
+export const MAX_ARTICLE_LIST_SIZE = 300;
+
+const TOKEN_PATTERN = /(\d+)(?:\.?([a-zčšž]))?|(do|[–-])/gi;
+
+/** "6a" and "6.a" are the same article */
+export function normalizeArticleNumber(value: string): string {
+  return value.toLowerCase().replace(/^(\d+)\.?([a-zčšž])$/, '$1.$2');
+}
+
+/** "75. člen", "čl. 75" and "75a" name the provisions stored as "75" and "75.a" */
+export function normalizeProvisionRef(value: string): string {
+  const article = value.trim()
+    .replace(/^čl(?:en)?\.?\s+/i, '')
+    .replace(/\s*(?:člen(?:a|u|om)?|čl\.?)$/i, '')
+    .replace(/\.$/, '');
+  return normalizeArticleNumber(article);
+}
+
+/**
+ * Lettered articles inserted after a whole-numbered one by later amendments,
+ * in order: 9 -> ["9.a", "9.b"]
+ */
+export type InsertedArticleLookup = (article: number) => string[];
+
+/**
+ * Every article named by a single article number, a range or an enumeration,
+ * in citation order without duplicates. With a lookup, ranges also include
+ * the lettered articles inserted between their bounds. Returns null for
+ * descending or oversized ranges.
+ */
+export function expandArticleList(text: string, inserted?: InsertedArticleLookup): string[] | null {
+  const articles: string[] = [];
+  const lettered = (article: number): string[] => inserted?.(article) ?? [];
+  let pendingRange = false;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (match[3]) {
+      pendingRange = true;
+      continue;
+    }
+    const number = parseInt(match[1], 10);
+    const article = match[2] ? `${number}.${match[2].toLowerCase()}` : String(number);
+
+    if (pendingRange && articles.length > 0) {
+      pendingRange = false;
+      const lower = articles[articles.length - 1];
+      const from = parseInt(lower, 10);
+      if (number < from || number - from > MAX_ARTICLE_LIST_SIZE) return null;
+      if (number > from) {
+        articles.push(...lettered(from).filter(a => a > lower));
+        for (let n = from + 1; n < number; n++) articles.push(String(n), ...lettered(n));
+        if (match[2]) articles.push(String(number), ...lettered(number).filter(a => a < article));
+      } else {
+        // "15. do 15.c člena" stays within article 15
+        articles.push(...lettered(from).filter(a => a > lower && a < article));
+      }
+      articles.push(article);
+    } else {
+      articles.push(article);
+    }
+    if (articles.length > MAX_ARTICLE_LIST_SIZE) return null;
+  }
+
+  return [...new Set(articles)];
+}
+
+/** How a list of articles is written in a citation style */
+export interface ArticleListWords {
+  /** One article: "15." in Slovenian, "15" or "6a" in English */
+  label: (article: string) => string;
+  /** Between the bounds of a range: "do", "to", an en dash */
+  to: string;
+  /** Before the last item: "in", "and" */
+  and: string;
+}
+
+const SLOVENIAN_LIST_WORDS: ArticleListWords = { label: articleOrdinal, to: ' do ', and: ' in ' };
+
+/**
+ * Cite a list of articles compactly, for use before "člen": runs of three or
+ * more consecutive articles, lettered ones included, become ranges
+ * ("15. do 20."), the rest an enumeration ("5., 7. in 9."). Other styles
+ * pass their own words ("15 to 20", "5, 7 and 9").
+ */
+export function formatArticleList(articles: string[], words: ArticleListWords = SLOVENIAN_LIST_WORDS): string {
+  const parts: string[] = [];
+
+  for (let i = 0; i < articles.length;) {
+    let end = i;
+    while (
+      end + 1 < articles.length
+      && [0, 1].includes(parseInt(articles[end + 1], 10) - parseInt(articles[end], 10))
+    ) end++;
+
+    if (end - i >= 2) {
+      parts.push(`${words.label(articles[i])}${words.to}${words.label(articles[end])}`);
+      i = end + 1;
+    } else {
+      parts.push(words.label(articles[i]));
+      i++;
+    }
+  }
+
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')}${words.and}${parts[parts.length - 1]}` : parts[0] ?? '';
+}
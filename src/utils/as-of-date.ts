@@ -1,3 +1,5 @@
+import { ToolError } from './errors.js';
+
 const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 
 function isValidCalendarDate(value: string): boolean {
@@ -6,16 +8,20 @@ function isValidCalendarDate(value: string): boolean {
   return new Date(parsed).toISOString().slice(0, 10) === value;
 }
 
-export function normalizeAsOfDate(value: string | undefined): string | undefined {
+export function normalizeIsoDate(value: string | undefined, field: string): string | undefined {
   if (value == null) return undefined;
   const trimmed = value.trim();
   if (trimmed.length === 0) return undefined;
   if (!ISO_DATE_PATTERN.test(trimmed) || !isValidCalendarDate(trimmed)) {
-    throw new Error('as_of_date must be an ISO date in YYYY-MM-DD format');
+    throw new ToolError('INVALID_DATE', { argument: field, value: trimmed });
   }
   return trimmed;
 }
 
+export function normalizeAsOfDate(value: string | undefined): string | undefined {
+  return normalizeIsoDate(value, 'as_of_date');
+}
+
 export function extractRepealDateFromDescription(description: string | null): string | undefined {
   if (!description) return undefined;
   // Slovenian: "Prenehal veljati DD.MM.YYYY" or "Razveljavljen DD.MM.YYYY"
@@ -0,0 +1,160 @@
+/**
+ * Slovenian court case numbers (opravilne številke) and their ECLI identifiers.
+ *
+ *   Ustavno sodišče   "U-I-123/18", "Up-456/19"   ECLI:SI:USRS:2020:U.I.123.18
+ *   other courts      "II Ips 45/2019"            ECLI:SI:VSRS:2020:II.IPS.45.2019
+ *                     "VIII Ips 12/2020", "Pdp 123/2020", "I U 1/2021"
+ *
+ * The ECLI year is the year of the decision, not of the case number, so an
+ * ECLI can only be derived from a case number through the database. The
+ * other direction follows from the ECLI alone.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { CourtType } from '../types/documents.js';
+
+export interface CaseReference {
+  court?: CourtType;
+  /** Canonical case number, e.g. "II Ips 45/2019" or "U-I-123/18" */
+  case_number: string;
+}
+
+/** What identifies a decision: its ECLI, or its case number and optionally the court */
+export interface CaseLookup {
+  ecli?: string;
+  case_number?: string;
+  court?: CourtType;
+}
+
+export interface CaseDecisionRow {
+  document_id: string;
+  court: string;
+  ecli: string | null;
+  case_number: string | null;
+}
+
+/** Court codes as cited, including the ECLI codes of the higher courts */
+const COURT_CODES: Record<string, CourtType> = {
+  US: 'USRS', USRS: 'USRS', VSRS: 'VSRS', UPRS: 'UPRS', VDSS: 'VDSS',
+  VSL: 'VSL', VSLJ: 'VSL', VSM: 'VSM', VSMB: 'VSM', VSK: 'VSK', VSKP: 'VSK', VSC: 'VSC', VSCE: 'VSC',
+};
+
+/** Registers that belong to one court, for case numbers cited without it */
+const REGISTER_COURTS: Record<string, CourtType> = {
+  Ips: 'VSRS', Up: 'VSRS', Pdp: 'VDSS', Psp: 'VDSS', U: 'UPRS',
+};
+
+/** How courts are named in front of a case number: "US U-I-123/18", "VSRS II Ips 45/2019" */
+export const COURT_LABELS: Record<CourtType, string> = {
+  USRS: 'US', VSRS: 'VSRS', VSL: 'VSL', VSM: 'VSM', VSK: 'VSK', VSC: 'VSC', UPRS: 'UPRS', VDSS: 'VDSS', IESP: 'IESP',
+};
+
+// "odločba US, št. U-I-123/18", "sklep Ustavnega sodišča Up-456/19-15"
+const CONSTITUTIONAL_CASE_PATTERN = new RegExp(
+  '^(?:(?:odločb[aeiou]|odl\\.|sklep[a-z]*)\\s+)?(?:(?:US|USRS|Ustavnega\\s+sodišča(?:\\s+RS)?)\\s*,?\\s+)?'
+  + '(?:(?:opr\\.\\s*)?št\\.\\s*)?(U-I{1,2}|Up|Rm)-(\\d+)\\/(\\d{2}|\\d{4})(?:-\\d+)?$',
+  'i',
+);
+
+// "sklep VSRS II Ips 45/2019", "VDSS Pdp 123/2020", "sodba VSL, opr. št. I Cp 1234/2019"
+const COURT_CASE_PATTERN = new RegExp(
+  '^(?:(?:sodb[aeiou]|sklep[a-z]*|odločb[aeiou])\\s+)?(?:(VSRS|VSLJ?|VSMB?|VSKP?|VSCE?|UPRS|VDSS)\\s*,?\\s+)?'
+  + '(?:(?:opr\\.\\s*)?št\\.\\s*)?((?:[IVX]+\\s+)?)([A-Z][a-z]{0,3})\\s+(\\d+)\\/(\\d{2}|\\d{4})$',
+);
+
+const ROMAN_NUMERAL = /^[IVX]+$/;
+
+function capitalize(token: string): string {
+  return token.charAt(0).toUpperCase() + token.slice(1).toLowerCase();
+}
+
+/** Court code for a code as cited or used in an ECLI ("VSLJ" -> "VSL") */
+export function normalizeCourtCode(code: string): CourtType | undefined {
+  return COURT_CODES[code.toUpperCase()];
+}
+
+/**
+ * Parse a case number citation, with or without the court and a leading
+ * "odločba", "sodba" or "sklep". Returns null for anything else.
+ */
+export function parseCaseNumber(citation: string): CaseReference | null {
+  const trimmed = citation.trim();
+
+  const constitutional = trimmed.match(CONSTITUTIONAL_CASE_PATTERN);
+  if (constitutional) {
+    const raw = constitutional[1];
+    const register = /^u-/i.test(raw) ? raw.toUpperCase() : capitalize(raw);
+    return { court: 'USRS', case_number: `${register}-${parseInt(constitutional[2], 10)}/${constitutional[3]}` };
+  }
+
+  const court = trimmed.match(COURT_CASE_PATTERN);
+  if (court) {
+    const register = court[3];
+    const caseNumber = `${court[2] ? `${court[2].trim()} ` : ''}${register} ${parseInt(court[4], 10)}/${court[5]}`;
+    const code = court[1] ? normalizeCourtCode(court[1]) : REGISTER_COURTS[register];
+    return { ...(code && { court: code }), case_number: caseNumber };
+  }
+
+  return null;
+}
+
+/**
+ * Case number encoded in a Slovenian ECLI:
+ * "ECLI:SI:VSRS:2020:II.IPS.45.2019" -> VSRS, "II Ips 45/2019".
+ * Returns null when the identifier is not a case number.
+ */
+export function caseNumberFromEcli(ecli: string): CaseReference | null {
+  const parts = ecli.split(':');
+  if (parts.length !== 5 || parts[0] !== 'ECLI' || parts[1] !== 'SI') return null;
+  const court = normalizeCourtCode(parts[2]);
+  const tokens = parts[4].split('.');
+  if (tokens.length < 3) return null;
+
+  const [number, year] = tokens.slice(-2);
+  if (!/^\d+$/.test(number) || !/^\d{2,4}$/.test(year)) return null;
+  const register = tokens.slice(0, -2);
+  if (register.length === 0 || register.some(token => !/^[A-Z]+$/i.test(token))) return null;
+
+  if (court === 'USRS') {
+    const [first, ...rest] = register;
+    const head = first.toUpperCase() === 'U' ? 'U' : capitalize(first);
+    return { court, case_number: [head, ...rest.map(token => token.toUpperCase()), parseInt(number, 10)].join('-') + `/${year}` };
+  }
+
+  const label = register.map(token => (ROMAN_NUMERAL.test(token) ? token : capitalize(token)));
+  return { ...(court && { court }), case_number: `${label.join(' ')} ${parseInt(number, 10)}/${year}` };
+}
+
+/** Case numbers compared without spacing or case: "II  Ips 45/2019" = "II IPS 45/2019" */
+function caseNumberKey(caseNumber: string): string {
+  return caseNumber.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Find a decision in case_law by ECLI or case number (optionally of one
+ * court). Returns null when there is none or the table is missing.
+ */
+export function findCaseDecision(
+  db: Database,
+  reference: CaseLookup,
+): CaseDecisionRow | null {
+  try {
+    if (reference.ecli) {
+      const row = db.prepare(
+        'SELECT document_id, court, ecli, case_number FROM case_law WHERE ecli = ?',
+      ).get(reference.ecli) as CaseDecisionRow | undefined;
+      if (row) return row;
+    }
+    if (reference.case_number) {
+      const rows = db.prepare(`
+        SELECT document_id, court, ecli, case_number FROM case_law
+        WHERE UPPER(REPLACE(case_number, ' ', '')) = ?
+        ORDER BY id
+      `).all(caseNumberKey(reference.case_number)) as CaseDecisionRow[];
+      return rows.find(row => !reference.court || normalizeCourtCode(row.court) === reference.court) ?? null;
+    }
+  } catch {
+    // case_law may not exist in test fixtures
+  }
+  return null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Diacritic folding for Slovenian text.
+ *
+ * Users on English keyboards type "sodisce" for "sodišče" and "casovni rok" for
+ * "časovni rok". FTS5's unicode61 tokenizer already folds č/š/ž/ć, but it
+ * leaves đ alone, and plain SQL comparisons (=, LIKE, LOWER) fold nothing
+ * beyond ASCII case. These helpers give search and document resolution the
+ * same folding, and let tools tell exact matches apart from folded ones.
+ */
+
+/**
+ * Letters folded to their base letter, by foldDiacritics() and in SQL alike:
+ * the Slovenian carons, Croatian ć/đ (đ has no Unicode decomposition) and the
+ * accented letters of neighbouring languages found in names and EU titles.
+ * Upper-case forms are derived, since SQLite's LOWER only handles ASCII.
+ */
+const DIACRITIC_FOLDS: Record<string, string> = {
+  č: 'c', ć: 'c', š: 's', ž: 'z', đ: 'd',
+  á: 'a', à: 'a', â: 'a', ä: 'a',
+  é: 'e', è: 'e', ê: 'e', ë: 'e',
+  í: 'i', ì: 'i', î: 'i', ï: 'i',
+  ó: 'o', ò: 'o', ô: 'o', ö: 'o', ő: 'o',
+  ú: 'u', ù: 'u', û: 'u', ü: 'u', ű: 'u',
+};
+
+const FOLDS = new Map(Object.entries(DIACRITIC_FOLDS)
+  .flatMap(([letter, base]) => [[letter, base], [letter.toUpperCase(), base]] as const));
+const FOLD_PATTERN = new RegExp(`[${[...FOLDS.keys()].join('')}]`, 'g');
+
+/**
+ * Lower-case and strip diacritics: "Sodišče" -> "sodisce", "Đakovica" -> "dakovica".
+ */
+export function foldDiacritics(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(FOLD_PATTERN, letter => FOLDS.get(letter)!)
+    .toLowerCase();
+}
+
+/**
+ * SQL expression folding a column the way foldDiacritics() folds a string, so
+ * `${foldedSql('d.title')} LIKE ?` can be bound to a folded pattern.
+ */
+export function foldedSql(expression: string): string {
+  return [...FOLDS].reduce(
+    (sql, [from, to]) => `REPLACE(${sql}, '${from}', '${to}')`,
+    `LOWER(${expression})`,
+  );
+}
+
+/**
+ * True when `matched` lines up with `query` only because diacritics were folded,
+ * e.g. matched "sodišču" for query "sodisce". Inflection differences past the
+ * shared stem ("sodišča" vs "sodišče") do not count.
+ */
+export function isFoldedMatch(matched: string, query: string): boolean {
+  const a = matched.normalize('NFC').toLowerCase();
+  const b = query.normalize('NFC').toLowerCase();
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    if (a[i] === b[i]) continue;
+    if (foldDiacritics(a[i]) !== foldDiacritics(b[i])) return false;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Reorder FTS rows so rows whose highlighted terms match the query's exact
+ * diacritics come before rows that matched only after folding. Relative order
+ * (bm25) is kept within each group. Highlights are read from the `**term**`
+ * markers that snippet() adds.
+ */
+export function rankExactDiacriticsFirst<T extends { snippet: string | null }>(
+  rows: T[],
+  query: string,
+): { results: T[]; folded: boolean } {
+  const tokens = query.normalize('NFC').match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (tokens.length === 0) return { results: rows, folded: false };
+
+  const exact: T[] = [];
+  const folded: T[] = [];
+
+  for (const row of rows) {
+    const highlights = [...(row.snippet ?? '').matchAll(/\*\*(.+?)\*\*/g)].map(m => m[1]);
+    const usesFolding = highlights.some(term => {
+      // Compare against the query token sharing the longest folded prefix
+      let best: string | undefined;
+      let bestShared = 0;
+      for (const token of tokens) {
+        const ft = foldDiacritics(term);
+        const fq = foldDiacritics(token);
+        let shared = 0;
+        while (shared < Math.min(ft.length, fq.length) && ft[shared] === fq[shared]) shared++;
+        if (shared > bestShared) {
+          best = token;
+          bestShared = shared;
+        }
+      }
+      return best !== undefined && isFoldedMatch(term, best);
+    });
+    (usesFolding ? folded : exact).push(row);
+  }
+
+  return { results: [...exact, ...folded], folded: folded.length > 0 };
+}
@@ -0,0 +1,191 @@
+/**
+ * Statute alias registry for Slovenian Law MCP.
+ *
+ * Single source of truth for mapping statute abbreviations (kratice such as
+ * "ZVOP-2"), PIS IDs and title slugs to database document IDs. The citation
+ * parser, citation formatter, cross-reference extractor and resolveDocumentId
+ * all resolve through this module.
+ *
+ * At runtime the registry is read from the `document_aliases` table written by
+ * build-db.ts from the seeds: each document's PIS kratica, PIS ID and title
+ * slug, plus the abbreviations in common use that PIS does not record, listed
+ * in the document's `aliases` ("Ustava" for URS).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { foldDiacritics } from './diacritics.js';
+
+export type AliasType = 'short_name' | 'pis_id' | 'slug' | 'legacy';
+
+export interface StatuteAlias {
+  alias: string;
+  document_id: string;
+  alias_type: AliasType;
+  /** Statute title without the trailing abbreviation, e.g. "Zakon o kazenskem postopku" */
+  title: string | null;
+}
+
+export interface DocumentAliasSource {
+  id: string;
+  title: string;
+  short_name?: string | null;
+  url?: string | null;
+  aliases?: string[];
+}
+
+export interface AliasIndex {
+  /** Lower-cased alias -> candidate entries, highest priority first */
+  aliases: Map<string, StatuteAlias[]>;
+  /** Document ID -> canonical abbreviation and title */
+  documents: Map<string, { short_name: string | null; title: string | null }>;
+}
+
+const ALIAS_TYPE_PRIORITY: Record<AliasType, number> = {
+  short_name: 0,
+  pis_id: 1,
+  legacy: 2,
+  slug: 3,
+};
+
+// ---------------------------------------------------------------------------
+// Alias derivation
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the PIS-style slug for a statute title, e.g.
+ * "Zakon o varstvu osebnih podatkov (ZVOP-2)" -> "zakon-o-varstvu-osebnih-podatkov".
+ */
+export function slugifyTitle(title: string): string {
+  return foldDiacritics(stripTitleAbbreviation(title))
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Extract the PIS identifier (e.g. "ZAKO7959") from a document's pisrs.si URL,
+ * falling back to the document ID when it already has the PIS shape.
+ */
+export function extractPisId(documentId: string, url: string | null | undefined): string | null {
+  const fromUrl = url?.match(/[?&]id=([A-Z]+\d+)/);
+  if (fromUrl) return fromUrl[1];
+  return /^[A-Z]{4}\d+$/.test(documentId) ? documentId : null;
+}
+
+/**
+ * Strip the trailing abbreviation PIS appends to titles:
+ * "Kazenski zakonik (KZ-1)" -> "Kazenski zakonik".
+ */
+export function stripTitleAbbreviation(title: string): string {
+  return title.replace(/\s*\([^)]*\)\s*$/, '').trim();
+}
+
+function titleAbbreviation(title: string): string | null {
+  const match = title.match(/\(([^()]+)\)\s*$/);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Derive every alias for a document: its PIS kratica (short_name, or the
+ * parenthesised abbreviation in the title), PIS ID, title slug and any extra
+ * aliases listed in seed data.
+ */
+export function collectDocumentAliases(doc: DocumentAliasSource): StatuteAlias[] {
+  const title = stripTitleAbbreviation(doc.title);
+  const entries: StatuteAlias[] = [];
+  const add = (alias: string | null | undefined, alias_type: AliasType) => {
+    if (alias && alias !== doc.id) entries.push({ alias, document_id: doc.id, alias_type, title });
+  };
+
+  add(doc.short_name ?? titleAbbreviation(doc.title), 'short_name');
+  add(extractPisId(doc.id, doc.url), 'pis_id');
+  add(slugifyTitle(doc.title), 'slug');
+  for (const alias of doc.aliases ?? []) add(alias, 'legacy');
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+/** Build a lookup index. Entries earlier in the list win ties of equal alias type. */
+export function buildAliasIndex(entries: StatuteAlias[]): AliasIndex {
+  const index: AliasIndex = { aliases: new Map(), documents: new Map() };
+
+  for (const entry of entries) {
+    const key = entry.alias.toLowerCase();
+    const bucket = index.aliases.get(key) ?? [];
+    bucket.push(entry);
+    index.aliases.set(key, bucket);
+
+    const doc = index.documents.get(entry.document_id) ?? { short_name: null, title: null };
+    if (!doc.title && entry.title) doc.title = entry.title;
+    if (!doc.short_name && (entry.alias_type === 'short_name' || entry.alias_type === 'legacy')) {
+      doc.short_name = entry.alias;
+    }
+    index.documents.set(entry.document_id, doc);
+  }
+
+  for (const bucket of index.aliases.values()) {
+    // Array.prototype.sort is stable, so insertion order breaks ties
+    bucket.sort((a, b) => ALIAS_TYPE_PRIORITY[a.alias_type] - ALIAS_TYPE_PRIORITY[b.alias_type]);
+  }
+
+  return index;
+}
+
+/**
+ * Look up an alias. An exact-case match is preferred over a case-insensitive one,
+ * so "DZ" and "dz" may differ only when both are registered.
+ */
+export function lookupAlias(index: AliasIndex, alias: string): StatuteAlias | undefined {
+  const bucket = index.aliases.get(alias.trim().toLowerCase());
+  if (!bucket) return undefined;
+  return bucket.find(entry => entry.alias === alias.trim()) ?? bucket[0];
+}
+
+function readDatabaseAliases(db: Database): StatuteAlias[] {
+  try {
+    return db.prepare(`
+      SELECT da.alias, da.document_id, da.alias_type, d.title
+      FROM document_aliases AS da
+      JOIN legal_documents AS d ON da.document_id = d.id
+      ORDER BY (d.status = 'in_force') DESC, da.rowid
+    `).all().map(row => {
+      const r = row as StatuteAlias;
+      return { ...r, title: r.title ? stripTitleAbbreviation(r.title) : null };
+    });
+  } catch {
+    // document_aliases table missing (database built before it existed)
+  }
+
+  try {
+    const docs = db.prepare(`
+      SELECT id, title, short_name, url
+      FROM legal_documents
+      WHERE type != 'case_law'
+      ORDER BY (status = 'in_force') DESC, id
+    `).all() as DocumentAliasSource[];
+    return docs.flatMap(collectDocumentAliases);
+  } catch {
+    return [];
+  }
+}
+
+const indexCache = new WeakMap<object, AliasIndex>();
+const emptyIndex: AliasIndex = buildAliasIndex([]);
+
+/**
+ * Get the alias index for a database (cached per connection). Without a
+ * database no statute is known.
+ */
+export function getAliasIndex(db?: Database): AliasIndex {
+  if (!db) return emptyIndex;
+
+  let index = indexCache.get(db);
+  if (!index) {
+    index = buildAliasIndex(readDatabaseAliases(db));
+    indexCache.set(db, index);
+  }
+  return index;
+}
@@ -2,11 +2,17 @@
  * Document ID resolution for Slovenian Law MCP.
  *
  * Resolves fuzzy document references (titles, short names) to database document IDs.
- * 5-step cascade: direct ID -> exact title -> LIKE shortest -> case-insensitive LIKE shortest
- *   -> punctuation-normalized scan (shortest) -> null.
+ * A document ID or registered alias is looked up directly. Anything else is
+ * matched against every statute, strongest match first:
+ *   exact title -> title substring (shorter titles closer) ->
+ *   punctuation-normalized substring -> diacritic-folded substring.
+ * resolveDocumentReference() reports when the best candidates are too close to
+ * pick one; resolveDocumentId() keeps returning the best guess.
  */
 
 import type { Database } from '@ansvar/mcp-sqlite';
+import { foldDiacritics } from './diacritics.js';
+import { getAliasIndex, lookupAlias, stripTitleAbbreviation } from './document-aliases.js';
 
 /**
  * Strip punctuation that commonly differs between user input and stored titles.
@@ -15,101 +21,235 @@ function normalizePunctuation(s: string): string {
   return s.replace(/[,;:.()[\]]/g, ' ').replace(/\s+/g, ' ').trim();
 }
 
+/** Candidates scoring within this margin of the best one make a reference ambiguous */
+const AMBIGUITY_MARGIN = 0.1;
+
+/** Alternatives reported with a resolution */
+const MAX_ALTERNATIVES = 5;
+
+export interface DocumentResolution {
+  /** The reference as given */
+  reference: string;
+  /** Best candidate, or null when nothing matched */
+  document_id: string | null;
+  /** True when the runner-up is within AMBIGUITY_MARGIN of a best candidate that is not an exact match */
+  ambiguous: boolean;
+  /** Best candidates, strongest first */
+  candidates: DocumentCandidate[];
+}
+
 /**
- * Resolve a document identifier to a database document ID.
- * Handles direct IDs, exact title matches, and fuzzy title lookup.
+ * A document ID (any type, so decisions too) or registered alias, through the
+ * primary key and the cached alias index rather than a scan of every title.
  */
-// ---------------------------------------------------------------------------
-// Abbreviation map — add entries as needed
-// ---------------------------------------------------------------------------
+function findExactDocument(db: Database, reference: string): DocumentCandidate | null {
+  const byId = readDocumentRow(db, reference);
+  if (byId) return toCandidate(byId, byId.id, 'id', MATCH_SCORES.id);
 
-const ABBREVIATIONS: Record<string, string> = {
-  'ZVOP-2': 'ZAKO7959',
-  'zvop-2': 'ZAKO7959',
-};
+  const alias = lookupAlias(getAliasIndex(db), reference);
+  const aliased = alias ? readDocumentRow(db, alias.document_id) : undefined;
+  return aliased ? toCandidate(aliased, alias!.alias, 'alias', MATCH_SCORES.alias) : null;
+}
+
+/**
+ * Resolve a document reference and say how sure the resolution is.
+ * Exact aliases, IDs and titles are never ambiguous. Fuzzy matches are
+ * statutes only unless `includeCaseLaw` is set.
+ */
+export function resolveDocumentReference(
+  db: Database,
+  input: string,
+  options: { includeCaseLaw?: boolean } = {},
+): DocumentResolution {
+  const reference = input.trim();
+  const exact = reference ? findExactDocument(db, reference) : null;
+  if (exact) {
+    return { reference, document_id: exact.document_id, ambiguous: false, candidates: [exact] };
+  }
+
+  const candidates = reference
+    ? rankDocumentCandidates(db, reference, { includeCaseLaw: options.includeCaseLaw, limit: MAX_ALTERNATIVES })
+    : [];
+  const [best, runnerUp] = candidates;
+  const exactTitle = best !== undefined && best.score >= MATCH_SCORES.title;
 
+  return {
+    reference,
+    document_id: best?.document_id ?? null,
+    ambiguous: !exactTitle && runnerUp !== undefined && best.score - runnerUp.score < AMBIGUITY_MARGIN,
+    candidates,
+  };
+}
+
+/**
+ * Resolve a document identifier to a database document ID.
+ * Handles statute aliases, direct IDs, exact title matches, and fuzzy title lookup;
+ * of several fuzzy matches the closest (shortest title) wins.
+ */
 export function resolveDocumentId(
   db: Database,
   input: string,
 ): string | null {
-  const trimmed = input.trim();
-  if (!trimmed) return null;
+  return resolveDocumentReference(db, input).document_id;
+}
 
-  // Step 0: Abbreviation map
-  const abbrev = ABBREVIATIONS[trimmed];
-  if (abbrev) return abbrev;
+/** How a candidate matched, strongest first */
+export type DocumentMatch =
+  | 'alias'
+  | 'id'
+  | 'title'
+  | 'alias_prefix'
+  | 'id_prefix'
+  | 'title_prefix'
+  | 'title_contains'
+  | 'title_folded';
 
-  // Step 1: Direct ID match
-  try {
-    const directMatch = db.prepare(
-      'SELECT id FROM legal_documents WHERE id = ?'
-    ).get(trimmed) as { id: string } | undefined;
-    if (directMatch) return directMatch.id;
-  } catch {
-    // table may not exist in test fixtures
-  }
+export interface DocumentCandidate {
+  document_id: string;
+  title: string;
+  short_name: string | null;
+  status: string | null;
+  /** The alias, ID or title that matched the input */
+  matched: string;
+  match: DocumentMatch;
+  /** 0..1, higher is closer */
+  score: number;
+}
 
-  // Step 2: Exact title match (case-insensitive)
-  const trimmedLower = trimmed.toLowerCase();
-  try {
-    const allDocs = db.prepare(
-      'SELECT id, title FROM legal_documents'
-    ).all() as { id: string; title: string }[];
+interface CandidateRow {
+  id: string;
+  title: string;
+  short_name: string | null;
+  status: string | null;
+  type: string | null;
+}
 
-    const exactFull = allDocs.find(d => d.title.toLowerCase() === trimmedLower);
-    if (exactFull) return exactFull.id;
-  } catch {
-    // ignore
-  }
+const MATCH_SCORES: Record<DocumentMatch, number> = {
+  alias: 1,
+  id: 1,
+  title: 0.95,
+  alias_prefix: 0.85,
+  id_prefix: 0.8,
+  title_prefix: 0.75,
+  title_contains: 0.6,
+  title_folded: 0.5,
+};
+
+function toCandidateRow(row: Partial<CandidateRow>): CandidateRow {
+  return {
+    id: row.id!,
+    title: row.title!,
+    short_name: row.short_name ?? null,
+    status: row.status ?? null,
+    type: row.type ?? null,
+  };
+}
+
+function toCandidate(row: CandidateRow, matched: string, match: DocumentMatch, score: number): DocumentCandidate {
+  return { document_id: row.id, title: row.title, short_name: row.short_name, status: row.status, matched, match, score };
+}
 
-  // Step 3: Substring LIKE — pick shortest matching title (closest to user input)
+function readDocumentRow(db: Database, id: string): CandidateRow | undefined {
   try {
-    const likeRows = db.prepare(
-      'SELECT id, title FROM legal_documents WHERE title LIKE ?'
-    ).all(`%${trimmed}%`) as { id: string; title: string }[];
-    if (likeRows.length > 0) {
-      likeRows.sort((a, b) => a.title.length - b.title.length);
-      return likeRows[0].id;
-    }
+    const row = db.prepare('SELECT * FROM legal_documents WHERE id = ?').get(id) as Partial<CandidateRow> | undefined;
+    return row && toCandidateRow(row);
   } catch {
-    // ignore
+    return undefined; // table may not exist in test fixtures
   }
+}
 
-  // Step 4: Case-insensitive LIKE — shortest match
-  try {
-    const lowerRows = db.prepare(
-      'SELECT id, title FROM legal_documents WHERE LOWER(title) LIKE LOWER(?)'
-    ).all(`%${trimmed}%`) as { id: string; title: string }[];
-    if (lowerRows.length > 0) {
-      lowerRows.sort((a, b) => a.title.length - b.title.length);
-      return lowerRows[0].id;
+function readCandidateRows(db: Database, includeCaseLaw: boolean): CandidateRow[] {
+  // SELECT * because test fixtures omit optional columns such as short_name and type
+  const queries = includeCaseLaw
+    ? ['SELECT * FROM legal_documents']
+    : ["SELECT * FROM legal_documents WHERE type IS NULL OR type != 'case_law'", 'SELECT * FROM legal_documents'];
+  for (const query of queries) {
+    try {
+      return (db.prepare(query).all() as Partial<CandidateRow>[]).map(toCandidateRow);
+    } catch {
+      // no type column: every row is a statute; no table: nothing to match
     }
-  } catch {
-    // ignore
   }
+  return [];
+}
 
-  // Step 5: Punctuation-normalized full scan — shortest match
-  try {
-    const stripped = normalizePunctuation(trimmed);
-    const strippedLower = stripped.toLowerCase();
-    const allDocs = db.prepare(
-      'SELECT id, title FROM legal_documents'
-    ).all() as { id: string; title: string }[];
-
-    const matches: { id: string; titleLen: number }[] = [];
-    for (const doc of allDocs) {
-      if (normalizePunctuation(doc.title).toLowerCase().includes(strippedLower)) {
-        matches.push({ id: doc.id, titleLen: doc.title.length });
+/**
+ * Rank every document an input could refer to, using the same alias registry,
+ * title normalisation and diacritic folding as resolveDocumentId(). With
+ * `prefix`, the input is treated as the start of an alias, ID or title (for
+ * autocompletion) rather than a whole reference.
+ */
+export function rankDocumentCandidates(
+  db: Database,
+  input: string,
+  options: { prefix?: boolean; limit?: number; includeCaseLaw?: boolean } = {},
+): DocumentCandidate[] {
+  const trimmed = input.trim();
+  const lower = trimmed.toLowerCase();
+  const normalized = normalizePunctuation(trimmed).toLowerCase();
+  const folded = foldDiacritics(normalizePunctuation(trimmed));
+  const rows = readCandidateRows(db, options.includeCaseLaw ?? false);
+  const best = new Map<string, { matched: string; match: DocumentMatch; score: number }>();
+
+  const offer = (id: string, matched: string, match: DocumentMatch, score = MATCH_SCORES[match]) => {
+    const current = best.get(id);
+    if (!current || score > current.score) best.set(id, { matched, match, score });
+  };
+
+  // Aliases (kratice, PIS IDs, slugs); slugs only complete once the input looks like one
+  const known = new Set(rows.map(row => row.id));
+  const aliasIndex = getAliasIndex(db);
+  // lookupAlias's pick (exact case, then alias type) outranks other documents sharing the alias
+  const preferred = trimmed ? lookupAlias(aliasIndex, trimmed) : undefined;
+  for (const [key, entries] of aliasIndex.aliases) {
+    for (const entry of entries) {
+      if (!known.has(entry.document_id)) continue;
+      if (key === lower) {
+        offer(entry.document_id, entry.alias, 'alias', entry === preferred ? MATCH_SCORES.alias : MATCH_SCORES.title);
+      } else if (options.prefix && key.startsWith(lower) && (entry.alias_type !== 'slug' || trimmed.includes('-'))) {
+        offer(entry.document_id, entry.alias, 'alias_prefix');
       }
     }
-    if (matches.length > 0) {
-      matches.sort((a, b) => a.titleLen - b.titleLen);
-      return matches[0].id;
+  }
+
+  for (const row of rows) {
+    const title = row.title.toLowerCase();
+    // Shorter titles are closer to the input, as in resolveDocumentId's "shortest match"
+    const closeness = trimmed.length / Math.max(row.title.length, trimmed.length);
+
+    if (row.id.toLowerCase() === lower) offer(row.id, row.id, 'id');
+    else if (options.prefix && lower && row.id.toLowerCase().startsWith(lower)) offer(row.id, row.id, 'id_prefix');
+
+    if (title === lower || stripTitleAbbreviation(title) === lower) {
+      offer(row.id, row.title, 'title');
+    } else if (!lower) {
+      continue;
+    } else if (options.prefix && title.startsWith(lower)) {
+      offer(row.id, row.title, 'title_prefix', MATCH_SCORES.title_prefix + 0.1 * closeness);
+    } else if (normalizePunctuation(row.title).toLowerCase().includes(normalized)) {
+      offer(row.id, row.title, 'title_contains', MATCH_SCORES.title_contains + 0.3 * closeness);
+    } else if (foldDiacritics(normalizePunctuation(row.title)).includes(folded)) {
+      offer(row.id, row.title, 'title_folded', MATCH_SCORES.title_folded + 0.3 * closeness);
     }
-  } catch {
-    // ignore
   }
 
-  // Resolution failed
-  return null;
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const candidates = [...best].map(([id, hit]) => {
+    const row = byId.get(id)!;
+    return {
+      document_id: id,
+      title: row.title,
+      short_name: row.short_name,
+      status: row.status,
+      ...hit,
+      score: Math.round(hit.score * 100) / 100,
+    };
+  });
+
+  candidates.sort((a, b) =>
+    b.score - a.score
+    || Number(b.status === 'in_force') - Number(a.status === 'in_force')
+    || a.title.length - b.title.length
+    || a.document_id.localeCompare(b.document_id));
+  return options.limit ? candidates.slice(0, options.limit) : candidates;
 }
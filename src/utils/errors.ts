@@ -0,0 +1,129 @@
+/**
+ * Typed tool errors for Slovenian Law MCP.
+ *
+ * Every failure a client may want to react to has a code, machine-readable
+ * details and a message in English and Slovenian. Errors that leave nothing
+ * to answer are thrown as ToolError and returned by the registry as an
+ * isError response; conditions that only degrade an answer (a člen with no
+ * version on the date, a missing optional index) are listed in
+ * `_metadata.errors` next to the results.
+ */
+
+import type { DocumentCandidate } from './document-id.js';
+import type { SchemaViolation } from './json-schema.js';
+
+export interface ToolErrorDetails {
+  DOCUMENT_NOT_FOUND: { document_id: string };
+  PROVISION_NOT_FOUND: { document_id: string; provision_ref: string; date?: string };
+  INVALID_DATE: { argument: string; value: string };
+  CAPABILITY_UNAVAILABLE: { capability: UnavailableCapability; fallback: 'keyword_search' | null };
+  AMBIGUOUS_REFERENCE: { argument: string; reference: string; candidates: DocumentCandidate[] };
+  FTS_SYNTAX: { reason: string };
+  INVALID_ARGUMENTS: { tool?: string; violations: SchemaViolation[] };
+  UNKNOWN_TOOL: { tool: string; available: string[] };
+  INTERNAL_ERROR: { reason: string };
+}
+
+export type ToolErrorCode = keyof ToolErrorDetails;
+
+/** Optional parts of a database that a tool can do without */
+export type UnavailableCapability = 'provision_vectors' | 'case_law_vectors' | 'amendment_history';
+
+/** An error as it appears in an isError response or in `_metadata.errors` */
+export interface ToolErrorInfo<C extends ToolErrorCode = ToolErrorCode> {
+  code: C;
+  message: string;
+  message_sl: string;
+  details: ToolErrorDetails[C];
+}
+
+const CAPABILITY_LABELS: Record<UnavailableCapability, { en: string; sl: string }> = {
+  provision_vectors: { en: 'Hybrid search over provisions', sl: 'Hibridno iskanje po določbah' },
+  case_law_vectors: { en: 'Hybrid search over case law', sl: 'Hibridno iskanje po sodni praksi' },
+  amendment_history: { en: 'Amendment history', sl: 'Zgodovina sprememb' },
+};
+
+function alternatives(candidates: DocumentCandidate[]): string {
+  return candidates.map(c => c.short_name ?? c.document_id).join(', ');
+}
+
+const MESSAGES: { [C in ToolErrorCode]: (details: ToolErrorDetails[C]) => { en: string; sl: string } } = {
+  DOCUMENT_NOT_FOUND: ({ document_id }) => ({
+    en: `No document found matching "${document_id}"`,
+    sl: `Dokument "${document_id}" ni najden v bazi podatkov`,
+  }),
+  PROVISION_NOT_FOUND: ({ document_id, provision_ref, date }) => (date
+    ? {
+      en: `No version of ${document_id} ${provision_ref} in force on ${date}`,
+      sl: `Člen ${provision_ref} dokumenta ${document_id} nima veljavne različice na datum ${date}`,
+    }
+    : {
+      en: `Provision ${provision_ref} not found in ${document_id}`,
+      sl: `Člen ${provision_ref} ni najden v dokumentu ${document_id}`,
+    }),
+  INVALID_DATE: ({ argument, value }) => ({
+    en: `${argument} must be an ISO date in YYYY-MM-DD format (got "${value}")`,
+    sl: `${argument} mora biti datum v obliki LLLL-MM-DD (podano "${value}")`,
+  }),
+  CAPABILITY_UNAVAILABLE: ({ capability, fallback }) => ({
+    en: `${CAPABILITY_LABELS[capability].en} is unavailable in this database${fallback ? '; showing keyword results' : ''}`,
+    sl: `${CAPABILITY_LABELS[capability].sl} v tej bazi ni na voljo${fallback ? '; prikazani so rezultati iskanja po ključnih besedah' : ''}`,
+  }),
+  AMBIGUOUS_REFERENCE: ({ reference, candidates }) => ({
+    en: `Ambiguous document reference "${reference}": could be ${alternatives(candidates)}`,
+    sl: `Sklic "${reference}" ni enoznačen: ustreza dokumentom ${alternatives(candidates)}`,
+  }),
+  FTS_SYNTAX: ({ reason }) => ({
+    en: `Search query could not be parsed: ${reason}`,
+    sl: `Iskalne poizvedbe ni mogoče razčleniti: ${reason}`,
+  }),
+  INVALID_ARGUMENTS: ({ tool, violations }) => ({
+    en: `Invalid arguments${tool ? ` for ${tool}` : ''}: ${violations.map(v => `${v.field} ${v.message}`).join('; ')}`,
+    sl: `Neveljavni argumenti${tool ? ` za ${tool}` : ''}: ${violations.map(v => v.field).join(', ')}`,
+  }),
+  UNKNOWN_TOOL: ({ tool }) => ({
+    en: `Unknown tool "${tool}"`,
+    sl: `Orodje "${tool}" ne obstaja`,
+  }),
+  INTERNAL_ERROR: ({ reason }) => ({
+    en: `Internal error: ${reason}`,
+    sl: `Notranja napaka: ${reason}`,
+  }),
+};
+
+export function toolErrorInfo<C extends ToolErrorCode>(code: C, details: ToolErrorDetails[C]): ToolErrorInfo<C> {
+  const { en, sl } = MESSAGES[code](details);
+  return { code, message: en, message_sl: sl, details };
+}
+
+export class ToolError<C extends ToolErrorCode = ToolErrorCode> extends Error {
+  readonly info: ToolErrorInfo<C>;
+
+  constructor(code: C, details: ToolErrorDetails[C]) {
+    const info = toolErrorInfo(code, details);
+    super(info.message);
+    this.name = 'ToolError';
+    this.info = info;
+  }
+
+  get code(): C {
+    return this.info.code;
+  }
+}
+
+/** A single invalid argument, e.g. a cursor that no response handed out */
+export function invalidArgument(field: string, message: string): ToolError<'INVALID_ARGUMENTS'> {
+  return new ToolError('INVALID_ARGUMENTS', { violations: [{ field, message }] });
+}
+
+// SQLite reports FTS5 query errors as "fts5: syntax error near ...", "unterminated string", ...
+const FTS_ERROR_PATTERN = /fts5|unterminated string|malformed MATCH|unknown special query/i;
+
+/** Classify anything a tool threw; errors that are not ToolErrors become FTS_SYNTAX or INTERNAL_ERROR */
+export function toToolErrorInfo(error: unknown): ToolErrorInfo {
+  if (error instanceof ToolError) return error.info;
+  const reason = error instanceof Error ? error.message : String(error);
+  return FTS_ERROR_PATTERN.test(reason)
+    ? toolErrorInfo('FTS_SYNTAX', { reason })
+    : toolErrorInfo('INTERNAL_ERROR', { reason });
+}
@@ -1,3 +1,7 @@
+import type { Database } from '@ansvar/mcp-sqlite';
+import { stemSlovenian } from './slovenian-stemmer.js';
+import { expandQueryTerms, getLegalThesaurus, type LegalThesaurus } from './legal-thesaurus.js';
+
 const EXPLICIT_FTS_SYNTAX_PATTERN = /["*():^]|\bAND\b|\bOR\b|\bNOT\b/iu;
 
 function sanitizeToken(token: string): string {
@@ -23,6 +27,14 @@ function escapeExplicitQuery(query: string): string {
   return escaped;
 }
 
+function buildStemmedTokens(tokens: string[]): string[] {
+  return tokens.map(token => {
+    const hasStar = token.endsWith('*');
+    const stem = stemSlovenian(hasStar ? token.slice(0, -1) : token);
+    return hasStar ? `${stem}*` : stem;
+  });
+}
+
 function buildPrefixAndQuery(tokens: string[]): string {
   return tokens.map(token => `${token}*`).join(' ');
 }
@@ -34,21 +46,201 @@ function buildPrefixOrQuery(tokens: string[]): string {
 export interface FtsQueryVariants {
   primary: string;
   fallback?: string;
+  /** Set when English thesaurus terms were rewritten into Slovenian */
+  expansion?: FtsQueryExpansion;
 }
 
-export function buildFtsQueryVariants(query: string): FtsQueryVariants {
+export interface FtsQueryExpansion {
+  /** Recognised terms replaced by their Slovenian equivalents, other tokens kept */
+  primary: string;
+  /** Every segment OR-ed, with related terms added */
+  fallback?: string;
+  /** English term -> Slovenian equivalents, for _metadata.query_expansion */
+  terms: Record<string, string[]>;
+}
+
+export interface FtsQueryOptions {
+  /**
+   * Build queries for a stemmed (`*_stem_fts`) table: terms are reduced with
+   * the Slovenian stemmer and matched exactly instead of by prefix.
+   * Explicit FTS syntax cannot be stemmed safely, so it yields no variants.
+   */
+  stem?: boolean;
+  /**
+   * Also build an `expansion` that rewrites recognised English legal terms
+   * ("employment contract") into Slovenian ("pogodba o zaposlitvi").
+   */
+  thesaurus?: LegalThesaurus;
+}
+
+function buildTermQuery(term: string, stem: boolean): string {
+  const tokens = extractTokens(term);
+  const terms = stem ? buildStemmedTokens(tokens) : tokens.map(token => `${token}*`);
+  return terms.length > 1 ? `(${terms.join(' AND ')})` : terms[0] ?? '';
+}
+
+function buildAlternatives(terms: string[], stem: boolean): string {
+  const alternatives = [...new Set(terms.map(term => buildTermQuery(term, stem)).filter(Boolean))];
+  return alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0] ?? '';
+}
+
+function buildExpansion(query: string, thesaurus: LegalThesaurus, stem: boolean): FtsQueryExpansion | undefined {
+  const segments = expandQueryTerms(query, thesaurus);
+  if (!segments) return undefined;
+
+  const strict: string[] = [];
+  const broad: string[] = [];
+  const terms: Record<string, string[]> = {};
+
+  for (const segment of segments) {
+    if (segment.kind === 'match') {
+      const { term, sl, related } = segment.match;
+      terms[term] = sl;
+      strict.push(buildAlternatives(sl, stem));
+      broad.push(buildAlternatives([...sl, ...related], stem));
+    } else {
+      const token = buildTermQuery(segment.token, stem);
+      strict.push(token);
+      broad.push(token);
+    }
+  }
+
+  // Explicit AND: FTS5 rejects implicit AND next to a parenthesised group
+  const primary = strict.filter(Boolean).join(' AND ');
+  const fallback = broad.filter(Boolean).join(' OR ');
+  if (!primary) return undefined;
+  return fallback !== primary ? { primary, fallback, terms } : { primary, terms };
+}
+
+export function buildFtsQueryVariants(query: string, options: FtsQueryOptions = {}): FtsQueryVariants {
   const trimmed = query.trim();
   if (!trimmed) return { primary: '' };
 
   if (EXPLICIT_FTS_SYNTAX_PATTERN.test(trimmed)) {
-    return { primary: escapeExplicitQuery(trimmed) };
+    return { primary: options.stem ? '' : escapeExplicitQuery(trimmed) };
   }
 
   const tokens = extractTokens(trimmed);
-  if (tokens.length === 0) return { primary: escapeExplicitQuery(trimmed) };
+  if (tokens.length === 0) return { primary: options.stem ? '' : escapeExplicitQuery(trimmed) };
+
+  const expansion = options.thesaurus
+    ? buildExpansion(trimmed, options.thesaurus, !!options.stem)
+    : undefined;
+
+  if (options.stem) {
+    const stems = buildStemmedTokens(tokens);
+    const primary = stems.join(' ');
+    if (stems.length === 1) return { primary, ...(expansion && { expansion }) };
+    return { primary, fallback: stems.join(' OR '), ...(expansion && { expansion }) };
+  }
 
   const primary = buildPrefixAndQuery(tokens);
-  if (tokens.length === 1) return { primary };
+  if (tokens.length === 1) return { primary, ...(expansion && { expansion }) };
+
+  return { primary, fallback: buildPrefixOrQuery(tokens), ...(expansion && { expansion }) };
+}
+
+// ---------------------------------------------------------------------------
+// Stemmed search plan
+// ---------------------------------------------------------------------------
+
+export interface FtsSearchVariant {
+  /** FTS5 table to MATCH against */
+  table: string;
+  query: string;
+  /**
+   * 'broadened': AND relaxed to OR; 'expanded': English terms rewritten
+   * through the legal thesaurus; 'expanded_broadened': both
+   */
+  strategy?: 'broadened' | 'expanded' | 'expanded_broadened';
+  /** English term -> Slovenian equivalents used by an expanded query */
+  expansion?: Record<string, string[]>;
+}
+
+const STEMMING_ENV_VAR = 'SLOVENIAN_LAW_STEMMING';
+
+const stemTableCache = new WeakMap<object, Map<string, boolean>>();
+
+/**
+ * Stemming is on by default; set SLOVENIAN_LAW_STEMMING=off to search only the
+ * unstemmed indexes (used by scripts/compare-stemming-recall.ts).
+ */
+export function isStemmingEnabled(): boolean {
+  const value = process.env[STEMMING_ENV_VAR]?.toLowerCase();
+  return value !== 'off' && value !== '0' && value !== 'false';
+}
+
+function hasTable(db: Database, table: string): boolean {
+  let tables = stemTableCache.get(db);
+  if (!tables) {
+    tables = new Map();
+    stemTableCache.set(db, tables);
+  }
+  let exists = tables.get(table);
+  if (exists === undefined) {
+    try {
+      exists = !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+    } catch {
+      exists = false;
+    }
+    tables.set(table, exists);
+  }
+  return exists;
+}
+
+/**
+ * Ordered list of FTS queries to try until one returns rows.
+ * AND queries come before OR queries; within each, the stemmed shadow table
+ * (e.g. `provisions_stem_fts` for `provisions_fts`) is tried before the
+ * prefix query on the unstemmed table, so recall never drops below the
+ * unstemmed search. Databases built without shadow tables use the
+ * unstemmed table only.
+ *
+ * Queries containing English legal terms get thesaurus-expanded variants
+ * after the literal AND queries, so a Slovenian query is never rewritten
+ * while its literal form still finds something. The expanded OR queries
+ * come before the literal OR queries.
+ */
+export function buildFtsSearchVariants(db: Database, table: string, query: string): FtsSearchVariant[] {
+  const thesaurus = getLegalThesaurus(db);
+  const plain = buildFtsQueryVariants(query, { thesaurus });
+  if (!plain.primary) return [];
+
+  const stemTable = table.replace(/_fts$/, '_stem_fts');
+  const stemmed: FtsQueryVariants = isStemmingEnabled() && hasTable(db, stemTable)
+    ? buildFtsQueryVariants(query, { stem: true, thesaurus })
+    : { primary: '' };
+
+  const variants: FtsSearchVariant[] = [];
+  if (stemmed.primary) variants.push({ table: stemTable, query: stemmed.primary });
+  variants.push({ table, query: plain.primary });
+
+  const expanded = (source: FtsQueryVariants, target: string, broadened: boolean): void => {
+    const expansion = source.expansion;
+    const expandedQuery = broadened ? expansion?.fallback : expansion?.primary;
+    if (!expansion || !expandedQuery) return;
+    variants.push({
+      table: target,
+      query: expandedQuery,
+      strategy: broadened ? 'expanded_broadened' : 'expanded',
+      expansion: expansion.terms,
+    });
+  };
+
+  expanded(stemmed, stemTable, false);
+  expanded(plain, table, false);
+  // An OR over English words mostly hits unrelated prefixes ("can*" -> "Cankova")
+  expanded(stemmed, stemTable, true);
+  expanded(plain, table, true);
+  if (stemmed.fallback) variants.push({ table: stemTable, query: stemmed.fallback, strategy: 'broadened' });
+  if (plain.fallback) variants.push({ table, query: plain.fallback, strategy: 'broadened' });
+  return variants;
+}
 
-  return { primary, fallback: buildPrefixOrQuery(tokens) };
+/**
+ * Text whose highlighted terms a variant's results should be compared with:
+ * the Slovenian equivalents for expanded queries, the query itself otherwise.
+ */
+export function variantMatchText(variant: FtsSearchVariant, query: string): string {
+  return variant.expansion ? Object.values(variant.expansion).flat().join(' ') : query;
 }
@@ -0,0 +1,89 @@
+/**
+ * Look up Uradni list RS issues in the gazette index: which statutes an issue
+ * published ("original"), amended, corrected, annulled by an Ustavno sodišče
+ * decision, or republished as an official consolidated text (UPB).
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import type { GazettePublication, GazettePublicationType } from '../types/citations.js';
+import { parseGazetteIssue } from '../parsers/amendment-parser.js';
+
+const PUBLICATION_LABELS: Record<Exclude<GazettePublicationType, 'original'>, string> = {
+  amendment: 'spremembe',
+  correction: 'popr.',
+  decision: 'odl. US',
+  consolidated: 'UPB',
+};
+
+/**
+ * Statutes behind an issue ("63/13", "RS, št. 63/13"), originals first.
+ * Returns null when the database has no gazette index.
+ */
+export function findGazettePublications(db: Database, ref: string): GazettePublication[] | null {
+  const issue = parseGazetteIssue(ref);
+  if (!issue) return [];
+
+  let rows: Array<{
+    document_id: string; title: string; publication_type: GazettePublicationType;
+    act: string | null; act_document_id: string | null; published_date: string | null;
+  }>;
+  try {
+    rows = db.prepare(`
+      SELECT g.document_id, d.title, g.publication_type, g.act, g.act_document_id, g.published_date
+      FROM gazette_index g
+      JOIN legal_documents d ON d.id = g.document_id
+      WHERE g.gazette_year = ? AND g.gazette_issue = ?
+      ORDER BY g.publication_type != 'original', g.id
+    `).all(issue.year, issue.issue) as typeof rows;
+  } catch {
+    return null;
+  }
+
+  return rows.map(row => ({
+    document_id: row.document_id,
+    title: row.title,
+    publication_type: row.publication_type,
+    ...(row.act !== null && { act: row.act }),
+    ...(row.act_document_id !== null && { act_document_id: row.act_document_id }),
+    ...(row.published_date !== null && { published_date: row.published_date }),
+  }));
+}
+
+/**
+ * The issue that originally published a statute, e.g. "163/22". Null when it
+ * is not indexed or the database has no gazette index.
+ */
+export function originalGazetteIssue(db: Database, documentId: string): string | null {
+  try {
+    const row = db.prepare(`
+      SELECT uradni_list_ref FROM gazette_index
+      WHERE document_id = ? AND publication_type = 'original'
+      ORDER BY gazette_year, gazette_issue
+      LIMIT 1
+    `).get(documentId) as { uradni_list_ref: string } | undefined;
+    return row ? row.uradni_list_ref.replace(/^RS,\s*št\.\s*/, '') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The one act a gazette citation stands for: the statute the issue
+ * published, or else the only statute it changed. Null when the issue
+ * covers several statutes or none.
+ */
+export function gazetteDocumentId(publications: GazettePublication[]): string | null {
+  const originals = new Set(publications.filter(p => p.publication_type === 'original').map(p => p.document_id));
+  if (originals.size === 1) return [...originals][0];
+  const documents = new Set(publications.map(p => p.document_id));
+  return originals.size === 0 && documents.size === 1 ? [...documents][0] : null;
+}
+
+/**
+ * A publication as a gazette citation entry names it:
+ * "Obligacijski zakonik", "Obligacijski zakonik – OZ-A", "Obligacijski zakonik – odl. US"
+ */
+export function describeGazettePublication(publication: GazettePublication): string {
+  if (publication.publication_type === 'original') return publication.title;
+  return `${publication.title} – ${publication.act ?? PUBLICATION_LABELS[publication.publication_type]}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Validation of tool arguments against the JSON schemas declared in the
+ * tool registry.
+ *
+ * Covers the keywords the registry uses: type (one or a list), enum,
+ * minimum/maximum, items, properties, required and additionalProperties.
+ * Every violation is reported with the path of the offending field, e.g.
+ * "limit" or "kinds[1]", so clients can fix all of them in one round.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+export interface SchemaViolation {
+  /** Path of the field, e.g. "limit" or "kinds[1]"; empty for the arguments as a whole */
+  field: string;
+  message: string;
+}
+
+const TYPE_NAMES: Record<JsonSchemaType, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  array: 'an array',
+  object: 'an object',
+  null: 'null',
+};
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null': return value === null;
+  }
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, violations: SchemaViolation[]): void {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      violations.push({ field: path, message: `must be ${types.map(type => TYPE_NAMES[type]).join(' or ')}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    violations.push({ field: path, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ field: path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ field: path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => check(schema.items!, item, `${path}[${i}]`, violations));
+  }
+
+  if (hasType(value, 'object') && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined) violations.push({ field: childPath(path, name), message: 'is required' });
+    }
+
+    for (const [name, fieldValue] of Object.entries(record)) {
+      if (fieldValue === undefined) continue;
+      const field = childPath(path, name);
+      if (name in properties) {
+        check(properties[name], fieldValue, field, violations);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(properties);
+        violations.push({
+          field,
+          message: known.length > 0
+            ? `is not a recognised argument (expected ${known.join(', ')})`
+            : 'is not a recognised argument (this tool takes no arguments)',
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        check(schema.additionalProperties, fieldValue, field, violations);
+      }
+    }
+  }
+}
+
+/** Every way `value` breaks `schema`; empty when it is valid */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  check(schema, value, '', violations);
+  return violations;
+}
@@ -0,0 +1,330 @@
+/**
+ * English–Slovenian legal thesaurus for cross-language query expansion.
+ *
+ * The statute text is Slovenian only, so an English query such as
+ * "data controller" never matches provision text. buildFtsQueryVariants()
+ * uses this thesaurus to rewrite recognised English terms into their
+ * Slovenian equivalents ("upravljavec") and related terms.
+ *
+ * BUNDLED_THESAURUS covers core statutory and EU (GDPR, employment, civil,
+ * criminal, procedural) terminology. getLegalThesaurus(db) adds every
+ * `definitions.term_en` -> `definitions.term` pair found in the database.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+
+export interface ThesaurusEntry {
+  /** English terms, lower-case; the first is the preferred term */
+  en: string[];
+  /** Slovenian equivalents, preferred translation first */
+  sl: string[];
+  /** Broader or neighbouring Slovenian terms, used only for broadened queries */
+  related?: string[];
+}
+
+export interface LegalThesaurus {
+  /** Lower-cased English term -> entries listing it */
+  terms: Map<string, ThesaurusEntry[]>;
+  /** Longest English term, in words — bounds the phrase lookup */
+  maxWords: number;
+}
+
+export interface ThesaurusMatch {
+  /** English phrase as it appeared in the query */
+  term: string;
+  /** Slovenian equivalents */
+  sl: string[];
+  related: string[];
+}
+
+/** One query segment: either a recognised English term or a token left as typed */
+export type ExpansionSegment =
+  | { kind: 'match'; match: ThesaurusMatch }
+  | { kind: 'token'; token: string };
+
+const BUNDLED_THESAURUS: ThesaurusEntry[] = [
+  // Data protection (GDPR / ZVOP-2)
+  { en: ['personal data'], sl: ['osebni podatki'] },
+  { en: ['data protection', 'personal data protection'], sl: ['varstvo osebnih podatkov'] },
+  { en: ['data subject'], sl: ['posameznik, na katerega se nanašajo osebni podatki'], related: ['posameznik'] },
+  { en: ['controller'], sl: ['upravljavec'], related: ['obdelava osebnih podatkov'] },
+  { en: ['data controller'], sl: ['upravljavec osebnih podatkov'], related: ['upravljavec', 'obdelava osebnih podatkov'] },
+  { en: ['processor'], sl: ['obdelovalec'], related: ['pogodbena obdelava'] },
+  { en: ['data processor'], sl: ['obdelovalec osebnih podatkov'], related: ['obdelovalec', 'pogodbena obdelava'] },
+  { en: ['processing', 'data processing'], sl: ['obdelava'] },
+  { en: ['consent'], sl: ['privolitev', 'soglasje'] },
+  { en: ['supervisory authority'], sl: ['nadzorni organ'], related: ['informacijski pooblaščenec'] },
+  { en: ['information commissioner'], sl: ['informacijski pooblaščenec'] },
+  { en: ['video surveillance', 'cctv'], sl: ['videonadzor'] },
+  { en: ['access to public information', 'freedom of information'], sl: ['dostop do informacij javnega značaja'] },
+  { en: ['public information'], sl: ['informacije javnega značaja'] },
+  { en: ['cybersecurity', 'information security'], sl: ['informacijska varnost', 'kibernetska varnost'] },
+  { en: ['electronic communications'], sl: ['elektronske komunikacije'] },
+  { en: ['email', 'e-mail', 'electronic mail'], sl: ['elektronska pošta'], related: ['elektronska komunikacija'] },
+  { en: ['privacy'], sl: ['zasebnost'] },
+  { en: ['monitoring', 'surveillance'], sl: ['nadzor'] },
+
+  // Employment
+  { en: ['employment contract', 'contract of employment'], sl: ['pogodba o zaposlitvi'], related: ['delovno razmerje'] },
+  { en: ['employment relationship', 'employment'], sl: ['delovno razmerje'], related: ['zaposlitev'] },
+  { en: ['employer'], sl: ['delodajalec'] },
+  { en: ['employee', 'worker'], sl: ['delavec'], related: ['zaposleni'] },
+  { en: ['dismissal', 'termination of employment'], sl: ['odpoved pogodbe o zaposlitvi'], related: ['odpoved'] },
+  { en: ['notice period'], sl: ['odpovedni rok'] },
+  { en: ['severance pay'], sl: ['odpravnina'] },
+  { en: ['salary', 'wage', 'pay'], sl: ['plača'] },
+  { en: ['minimum wage'], sl: ['minimalna plača'] },
+  { en: ['annual leave'], sl: ['letni dopust'] },
+  { en: ['working time', 'working hours'], sl: ['delovni čas'] },
+  { en: ['overtime'], sl: ['nadurno delo'] },
+  { en: ['trade union', 'union'], sl: ['sindikat'] },
+  { en: ['collective agreement'], sl: ['kolektivna pogodba'] },
+  { en: ['civil servant', 'public servant'], sl: ['javni uslužbenec'] },
+  { en: ['discrimination'], sl: ['diskriminacija'], related: ['enako obravnavanje'] },
+  { en: ['equal treatment'], sl: ['enako obravnavanje'] },
+  { en: ['whistleblower'], sl: ['prijavitelj'], related: ['žvižgač'] },
+
+  // Civil law, obligations, property, family, succession
+  { en: ['contract', 'agreement'], sl: ['pogodba'] },
+  { en: ['obligation'], sl: ['obveznost'] },
+  { en: ['damages', 'compensation'], sl: ['odškodnina'], related: ['škoda'] },
+  { en: ['damage', 'harm'], sl: ['škoda'] },
+  { en: ['liability'], sl: ['odgovornost'] },
+  { en: ['tort', 'tort liability'], sl: ['odškodninska odgovornost'] },
+  { en: ['property'], sl: ['lastnina', 'premoženje'] },
+  { en: ['ownership', 'property right'], sl: ['lastninska pravica'] },
+  { en: ['lease', 'rent', 'tenancy'], sl: ['najem', 'najemna pogodba'] },
+  { en: ['mortgage'], sl: ['hipoteka'] },
+  { en: ['land register'], sl: ['zemljiška knjiga'] },
+  { en: ['inheritance', 'succession'], sl: ['dedovanje'] },
+  { en: ['testament', 'last will'], sl: ['oporoka'] },
+  { en: ['heir'], sl: ['dedič'] },
+  { en: ['marriage'], sl: ['zakonska zveza'] },
+  { en: ['divorce'], sl: ['razveza zakonske zveze'], related: ['razveza'] },
+  { en: ['child', 'children'], sl: ['otrok'] },
+  { en: ['parental responsibility', 'parental care'], sl: ['starševska skrb'] },
+  { en: ['minor'], sl: ['mladoletnik'] },
+  { en: ['consumer'], sl: ['potrošnik'] },
+  { en: ['consumer protection'], sl: ['varstvo potrošnikov'] },
+  { en: ['notary'], sl: ['notar'] },
+
+  // Companies, tax, public finance
+  { en: ['company'], sl: ['gospodarska družba', 'družba'] },
+  { en: ['limited liability company'], sl: ['družba z omejeno odgovornostjo'] },
+  { en: ['joint stock company', 'public limited company'], sl: ['delniška družba'] },
+  { en: ['shareholder'], sl: ['delničar', 'družbenik'] },
+  { en: ['insolvency'], sl: ['insolventnost'], related: ['stečaj'] },
+  { en: ['bankruptcy'], sl: ['stečaj'] },
+  { en: ['tax', 'taxation'], sl: ['davek'] },
+  { en: ['value added tax', 'vat'], sl: ['davek na dodano vrednost', 'DDV'] },
+  { en: ['income tax', 'personal income tax'], sl: ['dohodnina'] },
+  { en: ['tax procedure'], sl: ['davčni postopek'] },
+  { en: ['taxpayer'], sl: ['davčni zavezanec'] },
+  { en: ['public procurement'], sl: ['javno naročanje'], related: ['javno naročilo'] },
+  { en: ['competition'], sl: ['konkurenca'] },
+  { en: ['money laundering'], sl: ['pranje denarja'] },
+  { en: ['corruption'], sl: ['korupcija'] },
+
+  // Criminal law and minor offences
+  { en: ['criminal offence', 'criminal offense', 'crime'], sl: ['kaznivo dejanje'] },
+  { en: ['penalty', 'punishment'], sl: ['kazen'], related: ['sankcija'] },
+  { en: ['sanction'], sl: ['sankcija'] },
+  { en: ['fine'], sl: ['globa'] },
+  { en: ['imprisonment', 'prison sentence'], sl: ['zapor'] },
+  { en: ['minor offence', 'misdemeanour', 'misdemeanor'], sl: ['prekršek'] },
+  { en: ['perpetrator', 'offender'], sl: ['storilec'] },
+  { en: ['suspect'], sl: ['osumljenec'] },
+  { en: ['accused'], sl: ['obdolženec'] },
+  { en: ['terrorism'], sl: ['terorizem'] },
+  { en: ['firearm', 'weapon'], sl: ['orožje'] },
+  { en: ['police'], sl: ['policija'] },
+
+  // Courts and procedure
+  { en: ['court'], sl: ['sodišče'] },
+  { en: ['judge'], sl: ['sodnik'] },
+  { en: ['judgment', 'judgement'], sl: ['sodba'] },
+  { en: ['appeal'], sl: ['pritožba'] },
+  { en: ['lawsuit', 'action'], sl: ['tožba'] },
+  { en: ['claimant', 'plaintiff'], sl: ['tožnik'], related: ['tožeča stranka'] },
+  { en: ['defendant'], sl: ['toženec', 'obdolženec'], related: ['tožena stranka'] },
+  { en: ['party'], sl: ['stranka'] },
+  { en: ['evidence', 'proof'], sl: ['dokaz'] },
+  { en: ['witness'], sl: ['priča'] },
+  { en: ['lawyer', 'attorney'], sl: ['odvetnik'] },
+  { en: ['public prosecutor', 'prosecutor'], sl: ['državni tožilec'] },
+  { en: ['enforcement'], sl: ['izvršba'] },
+  { en: ['administrative procedure'], sl: ['upravni postopek'] },
+  { en: ['administrative dispute'], sl: ['upravni spor'] },
+  { en: ['decision'], sl: ['odločba'], related: ['sklep'] },
+  { en: ['deadline', 'time limit'], sl: ['rok'] },
+
+  // Constitutional and public law
+  { en: ['constitution'], sl: ['ustava'] },
+  { en: ['constitutional court'], sl: ['ustavno sodišče'] },
+  { en: ['human rights'], sl: ['človekove pravice'] },
+  { en: ['fundamental freedoms'], sl: ['temeljne svoboščine'] },
+  { en: ['citizenship', 'nationality'], sl: ['državljanstvo'] },
+  { en: ['foreigner', 'alien', 'foreign national'], sl: ['tujec'] },
+  { en: ['international protection', 'asylum'], sl: ['mednarodna zaščita'] },
+  { en: ['residence permit'], sl: ['dovoljenje za prebivanje'] },
+  { en: ['municipality'], sl: ['občina'] },
+  { en: ['local self-government', 'local government'], sl: ['lokalna samouprava'] },
+  { en: ['election'], sl: ['volitve'] },
+  { en: ['inspection', 'inspection supervision'], sl: ['inšpekcijski nadzor'] },
+  { en: ['inspector'], sl: ['inšpektor'] },
+  { en: ['supervision'], sl: ['nadzor'] },
+  { en: ['permit', 'licence', 'license'], sl: ['dovoljenje'] },
+
+  // Environment, planning, transport, social security
+  { en: ['environment'], sl: ['okolje'] },
+  { en: ['environmental protection'], sl: ['varstvo okolja'] },
+  { en: ['spatial planning'], sl: ['urejanje prostora', 'prostorsko načrtovanje'] },
+  { en: ['building permit'], sl: ['gradbeno dovoljenje'] },
+  { en: ['construction'], sl: ['graditev'] },
+  { en: ['road traffic', 'traffic'], sl: ['cestni promet'], related: ['promet'] },
+  { en: ['driving licence', 'driving license', "driver's license"], sl: ['vozniško dovoljenje'] },
+  { en: ['health insurance'], sl: ['zdravstveno zavarovanje'] },
+  { en: ['pension'], sl: ['pokojnina'] },
+  { en: ['pension and disability insurance'], sl: ['pokojninsko in invalidsko zavarovanje'] },
+  { en: ['social security'], sl: ['socialna varnost'] },
+  { en: ['unemployment'], sl: ['brezposelnost'] },
+
+  // Legislative structure
+  { en: ['statute', 'act', 'law'], sl: ['zakon'] },
+  { en: ['regulation'], sl: ['uredba'], related: ['pravilnik'] },
+  { en: ['directive'], sl: ['direktiva'] },
+  { en: ['article'], sl: ['člen'] },
+  { en: ['paragraph'], sl: ['odstavek'] },
+  { en: ['definition'], sl: ['pomen izrazov', 'opredelitev pojmov'] },
+  { en: ['entry into force'], sl: ['začetek veljavnosti'] },
+  { en: ['transitional provisions'], sl: ['prehodne določbe'] },
+  { en: ['penal provisions'], sl: ['kazenske določbe'] },
+];
+
+const WORD_PATTERN = /[\p{L}\p{N}'-]+/gu;
+
+// English function words dropped from expanded queries ("can my employer read my email")
+const ENGLISH_STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'be', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'my', 'of', 'on', 'or', 'our', 'should',
+  'the', 'their', 'to', 'under', 'what', 'when', 'who', 'with', 'your',
+]);
+
+const thesaurusCache = new WeakMap<object, LegalThesaurus>();
+let bundledThesaurus: LegalThesaurus | undefined;
+
+function normalizeTerm(term: string): string {
+  return (term.normalize('NFC').toLowerCase().match(WORD_PATTERN) ?? []).join(' ');
+}
+
+/**
+ * Build a thesaurus from entries. English terms are indexed lower-case with
+ * their words normalised, so "Data  Controller" and "data controller" match.
+ */
+export function buildThesaurus(entries: ThesaurusEntry[]): LegalThesaurus {
+  const terms = new Map<string, ThesaurusEntry[]>();
+  let maxWords = 1;
+
+  for (const entry of entries) {
+    for (const en of entry.en) {
+      const key = normalizeTerm(en);
+      if (!key) continue;
+      const list = terms.get(key) ?? [];
+      list.push(entry);
+      terms.set(key, list);
+      maxWords = Math.max(maxWords, key.split(' ').length);
+    }
+  }
+
+  return { terms, maxWords };
+}
+
+function readDefinitionEntries(db: Database): ThesaurusEntry[] {
+  try {
+    const rows = db.prepare(`
+      SELECT DISTINCT term, term_en FROM definitions
+      WHERE term_en IS NOT NULL AND term_en != ''
+    `).all() as { term: string; term_en: string }[];
+    return rows.map(row => ({ en: [row.term_en], sl: [row.term] }));
+  } catch {
+    // Databases built without the definitions table
+    return [];
+  }
+}
+
+/**
+ * Bundled thesaurus plus the database's `definitions.term_en` pairs.
+ * Cached per database handle.
+ */
+export function getLegalThesaurus(db?: Database): LegalThesaurus {
+  if (!db) {
+    bundledThesaurus ??= buildThesaurus(BUNDLED_THESAURUS);
+    return bundledThesaurus;
+  }
+
+  let thesaurus = thesaurusCache.get(db);
+  if (!thesaurus) {
+    thesaurus = buildThesaurus([...BUNDLED_THESAURUS, ...readDefinitionEntries(db)]);
+    thesaurusCache.set(db, thesaurus);
+  }
+  return thesaurus;
+}
+
+function lookup(thesaurus: LegalThesaurus, phrase: string): ThesaurusEntry[] | undefined {
+  const exact = thesaurus.terms.get(phrase);
+  if (exact) return exact;
+
+  // English plurals: "controllers", "penalties", "witnesses"
+  const singulars = [
+    phrase.replace(/ies$/, 'y'),
+    phrase.replace(/(ss|sh|ch|x)es$/, '$1'),
+    phrase.replace(/s$/, ''),
+  ];
+  for (const singular of singulars) {
+    if (singular !== phrase && thesaurus.terms.has(singular)) return thesaurus.terms.get(singular);
+  }
+  return undefined;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Split a query into recognised English terms and remaining tokens, matching
+ * the longest thesaurus phrase at each position. English function words are
+ * dropped. Returns null when no term is recognised, so Slovenian queries pass
+ * through untouched.
+ */
+export function expandQueryTerms(query: string, thesaurus: LegalThesaurus): ExpansionSegment[] | null {
+  const words = query.normalize('NFC').match(WORD_PATTERN) ?? [];
+  const segments: ExpansionSegment[] = [];
+  let matched = false;
+
+  for (let i = 0; i < words.length;) {
+    let found = false;
+    for (let n = Math.min(thesaurus.maxWords, words.length - i); n >= 1; n--) {
+      const phrase = words.slice(i, i + n).join(' ');
+      const entries = lookup(thesaurus, phrase.toLowerCase());
+      if (!entries) continue;
+
+      segments.push({
+        kind: 'match',
+        match: {
+          term: phrase,
+          sl: unique(entries.flatMap(e => e.sl)),
+          related: unique(entries.flatMap(e => e.related ?? [])),
+        },
+      });
+      i += n;
+      matched = found = true;
+      break;
+    }
+    if (!found) {
+      if (!ENGLISH_STOPWORDS.has(words[i].toLowerCase())) segments.push({ kind: 'token', token: words[i] });
+      i++;
+    }
+  }
+
+  return matched ? segments : null;
+}
@@ -1,4 +1,5 @@
 import type { Database } from '@ansvar/mcp-sqlite';
+import type { ToolErrorInfo } from './errors.js';
 
 export interface ResponseMetadata {
   data_freshness: DataFreshness;
@@ -9,6 +10,26 @@ export interface ResponseMetadata {
   warning?: string;
   note?: string;
   query_strategy?: string;
+  /** English term -> Slovenian equivalents searched instead (query_strategy 'expanded') */
+  query_expansion?: Record<string, string[]>;
+  /** Set when some results matched only after folding č/š/ž/ć/đ (exact matches are ranked first) */
+  diacritics_folded?: boolean;
+  /** The statute a document_id (or statute_id) argument was resolved to */
+  resolved_document?: ResolvedDocument;
+  /** Coded conditions that degraded the answer (PROVISION_NOT_FOUND, CAPABILITY_UNAVAILABLE, ...) */
+  errors?: ToolErrorInfo[];
+}
+
+export interface ResolvedDocument {
+  argument: string;
+  /** The reference as given, e.g. "zakon o varstvu osebnih podatkov" */
+  reference: string;
+  document_id: string;
+  title: string;
+  short_name: string | null;
+  /** alias, id, title, title_contains or title_folded */
+  match: string;
+  score: number;
 }
 
 export interface DataFreshness {
@@ -0,0 +1,257 @@
+/**
+ * Split provision (člen) text into its structural units.
+ *
+ * PIS text puts each unit on its own line:
+ *   odstavek (paragraph)  "(2) Drugi izrazi ..." — or an unnumbered line
+ *   točka (point)         "3.      »javni sektor« ..."
+ *   podtočka (subpoint)   "a)       odplačna razpolaganja ..."
+ *   alineja (indent)      "-     vloga ..."
+ *
+ * Unnumbered paragraphs are counted in order, which matches how Slovenian
+ * statutes refer to them ("drugi odstavek tega člena"). Lettered items are
+ * podtočke under a numbered točka and točke ("a) točka") directly under an
+ * odstavek.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+
+export type ProvisionUnitKind = 'paragraph' | 'point' | 'subpoint' | 'indent';
+
+export interface ProvisionUnit {
+  kind: ProvisionUnitKind;
+  /** Marker as printed, e.g. "(2)", "3.", "a)", "-"; null for unnumbered paragraphs */
+  label: string | null;
+  /** Odstavek number ("1", "2", "2a") */
+  paragraph: string;
+  /** Točka within the paragraph: "3", or "a" for a lettered točka */
+  point?: string;
+  /** Podtočka within the point */
+  subpoint?: string;
+  /** Alineja position (1-based) within its parent unit */
+  indent?: number;
+  /** Unit text without its marker */
+  text: string;
+}
+
+const PARAGRAPH_PATTERN = /^\((\d+[a-z]?)\)\s*(.*)$/s;
+const POINT_PATTERN = /^(\d+[a-z]?)\.\s+(.*)$/s;
+const SUBPOINT_PATTERN = /^([a-zčšž])\)\s+(.*)$/s;
+const INDENT_PATTERN = /^([-–—•])\s+(.*)$/s;
+
+/** "a) Splošno o overitvi": a capitalised, unpunctuated lettered line reads as a section heading */
+function isLetteredHeading(line: string): boolean {
+  const match = line.match(SUBPOINT_PATTERN);
+  return match !== null && /^[A-ZČŠŽ]/.test(match[2]) && !/[.,;:]$/.test(match[2]);
+}
+
+/**
+ * PIS ingest leaves the headings of the next section at the end of some
+ * členi: "... poslovnim interesom delodajalca.\nč) Obveznost varovanja
+ * poslovne skrivnosti". Returns the lines without such a trailing lettered
+ * heading and the unpunctuated title lines after it.
+ */
+function withoutTrailingHeadings(lines: string[]): string[] {
+  let start = lines.length;
+  while (start > 1 && !/[.,;:]$/.test(lines[start - 1])) start--;
+  const heading = lines.findIndex((line, i) => i >= start && isLetteredHeading(line));
+  return heading === -1 ? lines : lines.slice(0, heading);
+}
+
+export function parseProvisionUnits(content: string): ProvisionUnit[] {
+  const units: ProvisionUnit[] = [];
+  let paragraph = 0;
+  let paragraphLabel = '0';
+  let point: string | undefined;
+  let subpoint: string | undefined;
+  let indent = 0;
+
+  const startParagraph = (label: string | null, number: string, text: string): void => {
+    paragraphLabel = number;
+    point = undefined;
+    subpoint = undefined;
+    indent = 0;
+    units.push({ kind: 'paragraph', label, paragraph: number, text });
+  };
+
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean);
+  for (const line of withoutTrailingHeadings(lines)) {
+    let match: RegExpMatchArray | null;
+    if ((match = line.match(PARAGRAPH_PATTERN))) {
+      paragraph = parseInt(match[1], 10);
+      startParagraph(`(${match[1]})`, match[1], match[2]);
+    } else if (units.length > 0 && (match = line.match(POINT_PATTERN))) {
+      point = match[1];
+      subpoint = undefined;
+      indent = 0;
+      units.push({ kind: 'point', label: `${match[1]}.`, paragraph: paragraphLabel, point, text: match[2] });
+    } else if (units.length > 0 && (match = line.match(SUBPOINT_PATTERN)) && !isNumbered(point)) {
+      // No numbered točka above: the letters number the točke of the paragraph
+      point = match[1];
+      subpoint = undefined;
+      indent = 0;
+      units.push({ kind: 'point', label: `${match[1]})`, paragraph: paragraphLabel, point, text: match[2] });
+    } else if (units.length > 0 && (match = line.match(SUBPOINT_PATTERN))) {
+      subpoint = match[1];
+      indent = 0;
+      units.push({
+        kind: 'subpoint', label: `${match[1]})`, paragraph: paragraphLabel,
+        ...(point && { point }), subpoint, text: match[2],
+      });
+    } else if (units.length > 0 && (match = line.match(INDENT_PATTERN))) {
+      indent++;
+      units.push({
+        kind: 'indent', label: match[1], paragraph: paragraphLabel,
+        ...(point && { point }), ...(subpoint && { subpoint }), indent, text: match[2],
+      });
+    } else {
+      paragraph++;
+      startParagraph(null, String(paragraph), line);
+    }
+  }
+
+  return units;
+}
+
+function isNumbered(point: string | undefined): boolean {
+  return point !== undefined && /^\d/.test(point);
+}
+
+/** Točka marker as cited: "3." for a numbered točka, "a)" for a lettered one */
+export function pointOrdinal(point: string): string {
+  return isNumbered(point) ? `${point}.` : `${point})`;
+}
+
+/**
+ * Human-readable Slovenian location of a unit, e.g. "2. odstavek, 3. točka".
+ */
+export function describeUnitLocation(unit: ProvisionUnit): string {
+  const parts = [`${unit.paragraph}. odstavek`];
+  if (unit.point) parts.push(`${pointOrdinal(unit.point)} točka`);
+  if (unit.subpoint) parts.push(`${unit.subpoint}) podtočka`);
+  if (unit.indent) parts.push(`${unit.indent}. alineja`);
+  return parts.join(', ');
+}
+
+/**
+ * A location inside an article, as cited: "3. točka 1. odstavka",
+ * "druga alineja 2. odstavka". Omitted levels match any unit.
+ */
+export interface ProvisionPinpoint {
+  paragraph?: string;
+  point?: string;
+  subpoint?: string;
+  indent?: string;
+}
+
+/** Nesting depth: paragraph 0, point 1, subpoint 2, indents one below their parent */
+function unitDepth(unit: ProvisionUnit): number {
+  switch (unit.kind) {
+    case 'paragraph': return 0;
+    case 'point': return 1;
+    case 'subpoint': return 2;
+    case 'indent': return (unit.subpoint ? 2 : unit.point ? 1 : 0) + 1;
+  }
+}
+
+function targetKind(pinpoint: ProvisionPinpoint): ProvisionUnitKind | null {
+  if (pinpoint.indent) return 'indent';
+  if (pinpoint.subpoint) return 'subpoint';
+  if (pinpoint.point) return 'point';
+  if (pinpoint.paragraph) return 'paragraph';
+  return null;
+}
+
+export function hasPinpoint(pinpoint: ProvisionPinpoint): boolean {
+  return targetKind(pinpoint) !== null;
+}
+
+/**
+ * Select the cited units together with the units nested under them, e.g. a
+ * point with its subpoints. Returns one group per match; more than one group
+ * means the pinpoint is ambiguous (a point cited without its paragraph).
+ */
+export function selectPinpoint(units: ProvisionUnit[], pinpoint: ProvisionPinpoint): ProvisionUnit[][] {
+  const kind = targetKind(pinpoint);
+  if (!kind) return [units];
+
+  const groups: ProvisionUnit[][] = [];
+  for (let i = 0; i < units.length; i++) {
+    const unit = units[i];
+    const matches = unit.kind === kind
+      && (!pinpoint.paragraph || unit.paragraph === pinpoint.paragraph)
+      && (!pinpoint.point || unit.point === pinpoint.point)
+      && (!pinpoint.subpoint || unit.subpoint === pinpoint.subpoint)
+      && (!pinpoint.indent || String(unit.indent) === pinpoint.indent);
+    if (!matches) continue;
+
+    const depth = unitDepth(unit);
+    let end = i + 1;
+    while (end < units.length && units[end].kind !== 'paragraph' && unitDepth(units[end]) > depth) end++;
+    groups.push(units.slice(i, end));
+  }
+  return groups;
+}
+
+/** Units back as article text, one per line with their markers */
+export function renderUnits(units: ProvisionUnit[]): string {
+  return units.map(unit => (unit.label ? `${unit.label} ${unit.text}` : unit.text)).join('\n');
+}
+
+// What remains of a deleted unit in the consolidated text: "(črtan)", "(prenehal veljati)"
+const REPEALED_MARKER = /^\((?:črtan[aio]?|prenehal[aio]? veljati|razveljavljen[aio]?)\)\.?$/i;
+
+/**
+ * Whether an article survives in the consolidated text only as deletion
+ * markers, e.g. "(1) (prenehal veljati)\n(2) (črtan)".
+ */
+export function isRepealedText(content: string): boolean {
+  const units = parseProvisionUnits(content);
+  return units.length > 0 && units.every(unit => REPEALED_MARKER.test(unit.text.trim()));
+}
+
+/** Article number as cited before "člen": "6." but "6.a" */
+export function articleOrdinal(article: string): string {
+  return /\d$/.test(article) ? `${article}.` : article;
+}
+
+/** "1. odstavek, 3. točka" for a pinpoint */
+export function describePinpoint(pinpoint: ProvisionPinpoint): string {
+  const parts: string[] = [];
+  if (pinpoint.paragraph) parts.push(`${pinpoint.paragraph}. odstavek`);
+  if (pinpoint.point) parts.push(`${pointOrdinal(pinpoint.point)} točka`);
+  if (pinpoint.subpoint) parts.push(`${pinpoint.subpoint}) podtočka`);
+  if (pinpoint.indent) parts.push(`${pinpoint.indent}. alineja`);
+  return parts.join(', ');
+}
+
+/**
+ * Units of a legal_provisions row from the provision_units index built by
+ * build-db.ts. Returns null when the database has no index or the row is not
+ * in it; callers then parse the text themselves.
+ */
+export function readIndexedUnits(db: Database, provisionId: number): ProvisionUnit[] | null {
+  let rows: Array<Omit<ProvisionUnit, 'point' | 'subpoint' | 'indent'> & {
+    point: string | null; subpoint: string | null; indent: number | null;
+  }>;
+  try {
+    rows = db.prepare(`
+      SELECT kind, label, paragraph, point, subpoint, indent, text
+      FROM provision_units
+      WHERE provision_id = ?
+      ORDER BY position
+    `).all(provisionId) as typeof rows;
+  } catch {
+    return null;
+  }
+  if (rows.length === 0) return null;
+
+  return rows.map(row => ({
+    kind: row.kind,
+    label: row.label,
+    paragraph: row.paragraph,
+    ...(row.point !== null && { point: row.point }),
+    ...(row.subpoint !== null && { subpoint: row.subpoint }),
+    ...(row.indent !== null && { indent: row.indent }),
+    text: row.text,
+  }));
+}
@@ -0,0 +1,110 @@
+/**
+ * Declension of the words a Slovenian citation is built from, so a citation
+ * can be dropped into a sentence: "v skladu s 3. točko 1. odstavka 6. člena
+ * Zakona o varstvu osebnih podatkov".
+ *
+ * Covers the singular of the unit nouns (člen, odstavek, točka, podtočka,
+ * alineja) and of statute titles: the head noun (zakon, zakonik, ustava,
+ * uredba, ...) and the adjectives before it ("Obligacijski zakonik").
+ * Whatever follows the head ("o kazenskem postopku", "Republike Slovenije")
+ * is already in its own case and stays as it is.
+ */
+
+import type { GrammaticalCase } from '../types/citations.js';
+
+type Gender = 'm' | 'f' | 'n';
+
+/** Order of the endings in the tables below */
+const CASE_INDEX: Record<GrammaticalCase, number> = {
+  imenovalnik: 0, rodilnik: 1, dajalnik: 2, tožilnik: 3, mestnik: 4, orodnik: 5,
+};
+
+// Inanimate nouns, so the tožilnik of masculines equals the imenovalnik
+const NOUN_ENDINGS: Record<Gender, string[]> = {
+  m: ['', 'a', 'u', '', 'u', 'om'],
+  f: ['a', 'e', 'i', 'o', 'i', 'o'],
+  n: ['o', 'a', 'u', 'o', 'u', 'om'],
+};
+
+const ADJECTIVE_ENDINGS: Record<Gender, string[]> = {
+  m: ['i', 'ega', 'emu', 'i', 'em', 'im'],
+  f: ['a', 'e', 'i', 'o', 'i', 'o'],
+  n: ['o', 'ega', 'emu', 'o', 'em', 'im'],
+};
+
+/** Head nouns of statute titles */
+const TITLE_NOUNS: Record<string, { gender: Gender }> = {
+  zakon: { gender: 'm' }, zakonik: { gender: 'm' }, pravilnik: { gender: 'm' }, poslovnik: { gender: 'm' },
+  odlok: { gender: 'm' }, sklep: { gender: 'm' }, kodeks: { gender: 'm' }, statut: { gender: 'm' },
+  sporazum: { gender: 'm' }, akt: { gender: 'm' }, red: { gender: 'm' },
+  ustava: { gender: 'f' }, uredba: { gender: 'f' }, odredba: { gender: 'f' }, odločba: { gender: 'f' },
+  direktiva: { gender: 'f' }, konvencija: { gender: 'f' }, pogodba: { gender: 'f' }, resolucija: { gender: 'f' },
+  navodilo: { gender: 'n' },
+};
+
+export type CitationUnitNoun = 'člen' | 'odstavek' | 'točka' | 'podtočka' | 'alineja';
+
+const UNIT_NOUNS: Record<CitationUnitNoun, { gender: Gender; stem: string }> = {
+  člen: { gender: 'm', stem: 'člen' },
+  odstavek: { gender: 'm', stem: 'odstavk' },
+  točka: { gender: 'f', stem: 'točk' },
+  podtočka: { gender: 'f', stem: 'podtočk' },
+  alineja: { gender: 'f', stem: 'alinej' },
+};
+
+// Masculine and neuter orodnik is -em after a soft consonant: "s stricem", but "s poslovnikom"
+const SOFT_STEM = /[cčjšž]$/;
+
+/** The lemma itself where the ending is empty, so "odstavek" keeps its fleeting e */
+function decline(
+  lemma: string,
+  stem: string,
+  gender: Gender,
+  grammaticalCase: GrammaticalCase,
+  endings: Record<Gender, string[]>,
+): string {
+  const ending = endings[gender][CASE_INDEX[grammaticalCase]];
+  if (ending === '') return lemma;
+  return `${stem}${ending === 'om' && SOFT_STEM.test(stem) ? 'em' : ending}`;
+}
+
+function matchCase(word: string, pattern: string): string {
+  return pattern.charAt(0) === pattern.charAt(0).toUpperCase()
+    ? word.charAt(0).toUpperCase() + word.slice(1)
+    : word;
+}
+
+/** A citation unit noun in the given case: ("odstavek", "rodilnik") -> "odstavka" */
+export function inflectUnit(unit: CitationUnitNoun, grammaticalCase: GrammaticalCase): string {
+  const noun = UNIT_NOUNS[unit];
+  return decline(unit, noun.stem, noun.gender, grammaticalCase, NOUN_ENDINGS);
+}
+
+/**
+ * A statute title in the given case:
+ * ("Obligacijski zakonik", "rodilnik") -> "Obligacijskega zakonika",
+ * ("Zakon o kazenskem postopku", "orodnik") -> "Zakonom o kazenskem postopku".
+ * Titles without a known head noun among their first words are returned unchanged.
+ */
+export function inflectTitle(title: string, grammaticalCase: GrammaticalCase): string {
+  const words = title.split(' ');
+  const headIndex = words.slice(0, 4).findIndex(word => word.toLowerCase() in TITLE_NOUNS);
+  if (headIndex === -1) return title;
+
+  // Every word before the head must be an adjective agreeing with it
+  const { gender } = TITLE_NOUNS[words[headIndex].toLowerCase()];
+  const adjectiveEnding = ADJECTIVE_ENDINGS[gender][0];
+  if (words.slice(0, headIndex).some(word => !word.toLowerCase().endsWith(adjectiveEnding))) return title;
+
+  return words.map((word, i) => {
+    const lower = word.toLowerCase();
+    if (i < headIndex) {
+      return matchCase(decline(lower, lower.slice(0, -1), gender, grammaticalCase, ADJECTIVE_ENDINGS), word);
+    }
+    if (i === headIndex) {
+      const stem = gender === 'm' ? lower : lower.slice(0, -1);
+      return matchCase(decline(lower, stem, gender, grammaticalCase, NOUN_ENDINGS), word);
+    }
+    return word;
+  }).join(' ');
+}
@@ -0,0 +1,71 @@
+/**
+ * Light Slovenian stemmer for full-text search.
+ *
+ * Strips one inflectional ending (case, number, gender, common verb endings)
+ * and normalises two frequent stem alternations so inflected forms share an
+ * index term: "pogodba/pogodbe/pogodbi/pogodbo" -> "pogodb",
+ * "otrok/otroka/otroci" -> "otroc", "delavec/delavca/delavci" -> "delavc".
+ *
+ * This is a rule-based stemmer, not a lemmatiser: it runs offline and is
+ * deterministic, which matters because build-db.ts and the query side must
+ * produce identical terms.
+ */
+
+import { foldDiacritics } from './diacritics.js';
+
+// Longest first — the first ending that leaves a long enough stem wins
+const SUFFIXES = [
+  'ovega', 'ovemu', 'ovima', 'ovimi',
+  'ovih', 'ovim', 'ovom', 'evih', 'evim',
+  'ega', 'emu', 'ima', 'imi', 'ami', 'ama', 'ovi', 'ova', 'ove', 'ovo', 'evi', 'eva', 'eve',
+  'ati', 'iti', 'eti', 'ajo', 'ijo', 'ejo', 'amo', 'imo', 'emo', 'ate', 'ite', 'ete',
+  'ih', 'im', 'om', 'em', 'ah', 'mi', 'ov', 'ev',
+  'a', 'e', 'i', 'o', 'u',
+];
+
+const MIN_STEM_LENGTH = 3;
+
+// Velar consonants palatalise before plural endings (otrok -> otroci, vrag -> vrazi)
+const VELAR_ALTERNATIONS: Record<string, string> = { k: 'c', g: 'z', h: 's' };
+
+// Letters, digits and combining marks — the same token characters as FTS5 unicode61
+const TOKEN_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+
+/**
+ * Stem a single word. The stem is lower-cased and diacritic-free; tokens
+ * containing digits and very short words are not otherwise changed.
+ */
+export function stemSlovenian(word: string): string {
+  let stem = word.normalize('NFC').toLowerCase();
+  if (stem.length <= MIN_STEM_LENGTH || /\d/.test(stem)) return foldDiacritics(stem);
+
+  for (const suffix of SUFFIXES) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= MIN_STEM_LENGTH) {
+      stem = stem.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  // Fleeting e: delavec/delavca, izdelek/izdelka, konec/konca
+  if (stem.length > MIN_STEM_LENGTH + 1 && /[^aeiou]e[ck]$/.test(stem)) {
+    stem = stem.slice(0, -2) + stem.slice(-1);
+  }
+
+  const last = stem.slice(-1);
+  if (VELAR_ALTERNATIONS[last]) {
+    stem = stem.slice(0, -1) + VELAR_ALTERNATIONS[last];
+  }
+
+  // Stems are diacritic-free so "sodisce" and "sodišče" share a term (unicode61 does not fold đ)
+  return foldDiacritics(stem);
+}
+
+/**
+ * Stem every token of a text. Each token maps to exactly one stem, so token
+ * positions stay aligned with the original text — FTS5 snippet() relies on
+ * this to highlight the original wording of a stemmed index.
+ */
+export function stemText(text: string | null): string | null {
+  if (text == null) return null;
+  return (text.normalize('NFC').match(TOKEN_PATTERN) ?? []).map(stemSlovenian).join(' ');
+}
@@ -0,0 +1,328 @@
+/**
+ * Offline text embedding model for hybrid retrieval.
+ *
+ * A latent semantic analysis (LSA) model: each text becomes a TF-IDF vector
+ * over Slovenian stems, which a truncated SVD projects into a small
+ * dense space. Terms that tend to occur in the same provisions end up close
+ * together, so a query can match provisions that share none of its words.
+ *
+ * Training runs on the CPU at build time (build-db.ts) in a few seconds, has
+ * no dependencies and is deterministic, so the same seeds always produce the
+ * same vectors. The trained model (IDF weights and projection matrix) is
+ * stored in the database and used at query time to embed queries.
+ * Stems outside the training vocabulary are ignored.
+ */
+
+import { stemSlovenian } from './slovenian-stemmer.js';
+
+export const VECTOR_MODEL_NAME = 'lsa-stems-v1';
+
+/** Dense vector size */
+export const VECTOR_DIMENSIONS = 128;
+
+/** Stems must occur in this many texts to enter the vocabulary */
+const MIN_DOCUMENT_FREQUENCY = 2;
+
+export interface VectorModel {
+  name: string;
+  /** Stems, indexed by feature number */
+  vocabulary: string[];
+  dimensions: number;
+  /** Inverse document frequency per feature */
+  idf: Float32Array;
+  /** vocabulary.length x dimensions, row-major */
+  projection: Float32Array;
+}
+
+/** Sparse feature vector: parallel arrays of feature indices and weights */
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+// Function words that carry no topical signal
+const STOPWORDS = new Set([
+  'ali', 'ampak', 'bi', 'bo', 'bodo', 'da', 'do', 'ga', 'in', 'iz', 'je', 'ki', 'ko', 'kot',
+  'lahko', 'le', 'mu', 'na', 'ne', 'ni', 'niti', 'nje', 'njih', 'od', 'oz', 'oziroma', 'po',
+  'pod', 'pri', 'se', 'so', 'ta', 'tega', 'temu', 'ter', 'ti', 'to', 'tudi', 'za', 'če', 'še',
+]);
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const PROJECTION_OVERSAMPLING = 16;
+const POWER_ITERATIONS = 2;
+const RANDOM_SEED = 0x5eed;
+
+const featureIndexes = new WeakMap<string[], Map<string, number>>();
+
+/** Stems of a text, in order. Stopwords, single letters and numbers are skipped. */
+function stems(text: string): string[] {
+  return (text.normalize('NFC').toLowerCase().match(TOKEN_PATTERN) ?? [])
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token) && !/^\d+$/.test(token))
+    .map(stemSlovenian);
+}
+
+function countFeatures(textStems: string[], features: Map<string, number>): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const stem of textStems) {
+    const feature = features.get(stem);
+    if (feature !== undefined) counts.set(feature, (counts.get(feature) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function featureIndex(vocabulary: string[]): Map<string, number> {
+  let index = featureIndexes.get(vocabulary);
+  if (!index) {
+    index = new Map(vocabulary.map((stem, i) => [stem, i]));
+    featureIndexes.set(vocabulary, index);
+  }
+  return index;
+}
+
+/** Log-scaled TF-IDF weights, L2-normalised. Empty when the text has no features. */
+export function weightFeatures(counts: Map<number, number>, idf: Float32Array): SparseVector {
+  const indices: number[] = [];
+  const values: number[] = [];
+  let norm = 0;
+  for (const [feature, count] of counts) {
+    const weight = (1 + Math.log(count)) * idf[feature];
+    if (weight <= 0) continue;
+    indices.push(feature);
+    values.push(weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  return { indices, values: values.map(v => v / norm) };
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function project(features: SparseVector, projection: Float32Array, dimensions: number): Float32Array {
+  const vector = new Float32Array(dimensions);
+  for (let n = 0; n < features.indices.length; n++) {
+    const offset = features.indices[n] * dimensions;
+    const weight = features.values[n];
+    for (let k = 0; k < dimensions; k++) vector[k] += weight * projection[offset + k];
+  }
+  return normalize(vector);
+}
+
+/**
+ * Embed a text with a trained model. Returns a unit vector, or null when the
+ * text contains no indexed terms.
+ */
+export function embedText(text: string, model: VectorModel): Float32Array | null {
+  const features = weightFeatures(countFeatures(stems(text), featureIndex(model.vocabulary)), model.idf);
+  if (features.indices.length === 0) return null;
+  const vector = project(features, model.projection, model.dimensions);
+  return vector.some(v => v !== 0) ? vector : null;
+}
+
+// ---------------------------------------------------------------------------
+// Training — randomized truncated SVD (Halko, Martinsson & Tropp, 2011)
+// ---------------------------------------------------------------------------
+
+function seededGaussian(seed: number): () => number {
+  let state = seed >>> 0;
+  const uniform = (): number => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+  };
+  return () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+/** Y = A * M, for sparse rows A and a dense features x width matrix M */
+function multiply(rows: SparseVector[], matrix: Float64Array, width: number): Float64Array {
+  const result = new Float64Array(rows.length * width);
+  rows.forEach((row, i) => {
+    const out = i * width;
+    for (let n = 0; n < row.indices.length; n++) {
+      const offset = row.indices[n] * width;
+      const value = row.values[n];
+      for (let k = 0; k < width; k++) result[out + k] += value * matrix[offset + k];
+    }
+  });
+  return result;
+}
+
+/** Z = A^T * Y, for sparse rows A and a dense rows.length x width matrix Y */
+function multiplyTransposed(
+  rows: SparseVector[],
+  matrix: Float64Array,
+  width: number,
+  featureCount: number,
+): Float64Array {
+  const result = new Float64Array(featureCount * width);
+  rows.forEach((row, i) => {
+    const offset = i * width;
+    for (let n = 0; n < row.indices.length; n++) {
+      const out = row.indices[n] * width;
+      const value = row.values[n];
+      for (let k = 0; k < width; k++) result[out + k] += value * matrix[offset + k];
+    }
+  });
+  return result;
+}
+
+/** Orthonormalise the columns of a row-major height x width matrix in place (modified Gram-Schmidt) */
+function orthonormalize(matrix: Float64Array, height: number, width: number): void {
+  for (let j = 0; j < width; j++) {
+    for (let p = 0; p < j; p++) {
+      let dot = 0;
+      for (let i = 0; i < height; i++) dot += matrix[i * width + j] * matrix[i * width + p];
+      for (let i = 0; i < height; i++) matrix[i * width + j] -= dot * matrix[i * width + p];
+    }
+    let norm = 0;
+    for (let i = 0; i < height; i++) norm += matrix[i * width + j] ** 2;
+    norm = Math.sqrt(norm);
+    for (let i = 0; i < height; i++) matrix[i * width + j] = norm > 1e-12 ? matrix[i * width + j] / norm : 0;
+  }
+}
+
+/** Eigen-decomposition of a symmetric size x size matrix (cyclic Jacobi). Eigenvectors are columns. */
+function symmetricEigen(input: Float64Array, size: number): { values: number[]; vectors: Float64Array } {
+  const a = Float64Array.from(input);
+  const v = new Float64Array(size * size);
+  for (let i = 0; i < size; i++) v[i * size + i] = 1;
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) offDiagonal += a[p * size + q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        const apq = a[p * size + q];
+        if (Math.abs(apq) < 1e-15) continue;
+        const theta = (a[q * size + q] - a[p * size + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < size; k++) {
+          const akp = a[k * size + p];
+          const akq = a[k * size + q];
+          a[k * size + p] = c * akp - s * akq;
+          a[k * size + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < size; k++) {
+          const apk = a[p * size + k];
+          const aqk = a[q * size + k];
+          a[p * size + k] = c * apk - s * aqk;
+          a[q * size + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = v[k * size + p];
+          const vkq = v[k * size + q];
+          v[k * size + p] = c * vkp - s * vkq;
+          v[k * size + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: Array.from({ length: size }, (_, i) => a[i * size + i]), vectors: v };
+}
+
+/**
+ * Train an LSA model on a corpus and embed every text in it.
+ * `vectors[i]` is null for texts without indexed terms.
+ */
+export function trainVectorModel(
+  texts: string[],
+  dimensions = VECTOR_DIMENSIONS,
+): { model: VectorModel; vectors: (Float32Array | null)[] } {
+  const textStems = texts.map(stems);
+
+  const stemFrequency = new Map<string, number>();
+  for (const doc of textStems) {
+    for (const stem of new Set(doc)) stemFrequency.set(stem, (stemFrequency.get(stem) ?? 0) + 1);
+  }
+  // Sorted, so the same corpus always yields the same feature numbers
+  const vocabulary = [...stemFrequency]
+    .filter(([, frequency]) => frequency >= MIN_DOCUMENT_FREQUENCY)
+    .map(([stem]) => stem)
+    .sort();
+  const featureCount = vocabulary.length;
+  const idf = Float32Array.from(vocabulary, stem => Math.log((texts.length + 1) / stemFrequency.get(stem)!));
+
+  const features = featureIndex(vocabulary);
+  const rows = textStems.map(doc => weightFeatures(countFeatures(doc, features), idf));
+  const width = Math.max(1, Math.min(dimensions + PROJECTION_OVERSAMPLING, rows.length, featureCount));
+  const rank = Math.min(dimensions, width);
+
+  // Range finder: Q spans the dominant column space of A
+  const gaussian = seededGaussian(RANDOM_SEED);
+  const omega = Float64Array.from({ length: featureCount * width }, gaussian);
+  let q = multiply(rows, omega, width);
+  orthonormalize(q, rows.length, width);
+  for (let i = 0; i < POWER_ITERATIONS; i++) {
+    const z = multiplyTransposed(rows, q, width, featureCount);
+    orthonormalize(z, featureCount, width);
+    q = multiply(rows, z, width);
+    orthonormalize(q, rows.length, width);
+  }
+
+  // B^T = A^T Q; the right singular vectors of B come from the eigenvectors of B B^T
+  const bt = multiplyTransposed(rows, q, width, featureCount);
+  const gram = new Float64Array(width * width);
+  for (let f = 0; f < featureCount; f++) {
+    const offset = f * width;
+    for (let i = 0; i < width; i++) {
+      const bi = bt[offset + i];
+      if (bi === 0) continue;
+      for (let j = i; j < width; j++) gram[i * width + j] += bi * bt[offset + j];
+    }
+  }
+  for (let i = 0; i < width; i++) {
+    for (let j = 0; j < i; j++) gram[i * width + j] = gram[j * width + i];
+  }
+
+  const eigen = symmetricEigen(gram, width);
+  const order = eigen.values
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, rank);
+
+  // V = B^T W Σ^-1, truncated to `rank` columns and zero-padded to `dimensions`
+  const projection = new Float32Array(featureCount * dimensions);
+  order.forEach(({ value, index }, k) => {
+    if (value <= 1e-10) return;
+    const scale = 1 / Math.sqrt(value);
+    for (let f = 0; f < featureCount; f++) {
+      let sum = 0;
+      for (let i = 0; i < width; i++) sum += bt[f * width + i] * eigen.vectors[i * width + index];
+      projection[f * dimensions + k] = sum * scale;
+    }
+  });
+
+  const model: VectorModel = {
+    name: VECTOR_MODEL_NAME,
+    vocabulary,
+    dimensions,
+    idf,
+    projection,
+  };
+
+  const vectors = rows.map(row => {
+    if (row.indices.length === 0) return null;
+    const vector = project(row, projection, dimensions);
+    return vector.some(v => v !== 0) ? vector : null;
+  });
+
+  return { model, vectors };
+}
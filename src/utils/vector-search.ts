@@ -0,0 +1,159 @@
+/**
+ * Vector retrieval and rank fusion for hybrid search.
+ *
+ * build-db.ts stores an LSA model (see vector-model.ts) in `vector_models`
+ * and one vector per row in `provision_vectors` / `case_law_vectors`. Search
+ * tools in hybrid mode embed the query with the stored model, rank rows by
+ * cosine similarity and fuse that ranking with BM25 via reciprocal rank
+ * fusion. Databases built without vectors fall back to BM25 only.
+ */
+
+import type { Database } from '@ansvar/mcp-sqlite';
+import { embedText, type VectorModel } from './vector-model.js';
+import { expandQueryTerms, getLegalThesaurus } from './legal-thesaurus.js';
+
+export type VectorCorpus = 'provisions' | 'case_law';
+
+const VECTOR_TABLES: Record<VectorCorpus, { table: string; idColumn: string }> = {
+  provisions: { table: 'provision_vectors', idColumn: 'provision_id' },
+  case_law: { table: 'case_law_vectors', idColumn: 'case_law_id' },
+};
+
+/** Rows below this cosine similarity are too loosely related to return */
+const MIN_SIMILARITY = 0.2;
+
+/** Reciprocal rank fusion constant (Cormack et al., 2009) */
+const RRF_K = 60;
+
+interface VectorIndex {
+  model: VectorModel;
+  ids: number[];
+  /** ids.length x model.dimensions, row-major unit vectors */
+  vectors: Float32Array;
+}
+
+export interface VectorHit {
+  id: number;
+  similarity: number;
+}
+
+const indexCache = new WeakMap<object, Map<VectorCorpus, VectorIndex | null>>();
+
+function toFloat32(blob: Uint8Array): Float32Array {
+  // Copy: BLOBs are not guaranteed to be 4-byte aligned
+  return new Float32Array(blob.slice().buffer);
+}
+
+function readModel(db: Database): VectorModel | null {
+  const row = db.prepare(`
+    SELECT name, vocabulary, dimensions, idf, projection
+    FROM vector_models ORDER BY built_at DESC LIMIT 1
+  `).get() as {
+    name: string; vocabulary: string; dimensions: number; idf: Uint8Array; projection: Uint8Array;
+  } | undefined;
+  if (!row) return null;
+  return {
+    name: row.name,
+    vocabulary: JSON.parse(row.vocabulary) as string[],
+    dimensions: row.dimensions,
+    idf: toFloat32(row.idf),
+    projection: toFloat32(row.projection),
+  };
+}
+
+function loadVectorIndex(db: Database, corpus: VectorCorpus): VectorIndex | null {
+  let indexes = indexCache.get(db);
+  if (!indexes) {
+    indexes = new Map();
+    indexCache.set(db, indexes);
+  }
+  if (indexes.has(corpus)) return indexes.get(corpus)!;
+
+  let index: VectorIndex | null = null;
+  try {
+    const model = readModel(db);
+    const { table, idColumn } = VECTOR_TABLES[corpus];
+    const rows = model
+      ? db.prepare(`SELECT ${idColumn} AS id, vector FROM ${table} ORDER BY ${idColumn}`).all() as
+        { id: number; vector: Uint8Array }[]
+      : [];
+    if (model && rows.length > 0) {
+      const vectors = new Float32Array(rows.length * model.dimensions);
+      rows.forEach((row, i) => vectors.set(toFloat32(row.vector), i * model.dimensions));
+      index = { model, ids: rows.map(row => row.id), vectors };
+    }
+  } catch {
+    // Database built without vector tables
+    index = null;
+  }
+
+  indexes.set(corpus, index);
+  return index;
+}
+
+/** True when the database has vectors for the corpus, i.e. hybrid mode can run. */
+export function hasVectorIndex(db: Database, corpus: VectorCorpus): boolean {
+  return loadVectorIndex(db, corpus) !== null;
+}
+
+/**
+ * Rank rows by cosine similarity to the query. An English query is embedded
+ * as the Slovenian thesaurus terms it contains, as the model only knows
+ * Slovenian vocabulary. `allowedIds` restricts the search to filtered rows.
+ */
+export function searchVectors(
+  db: Database,
+  corpus: VectorCorpus,
+  query: string,
+  limit: number,
+  allowedIds?: Set<number>,
+): VectorHit[] {
+  const index = loadVectorIndex(db, corpus);
+  if (!index) return [];
+
+  // Unrecognised words of an English query would only hash onto unrelated stems
+  const segments = expandQueryTerms(query, getLegalThesaurus(db));
+  const text = segments
+    ? segments.flatMap(s => (s.kind === 'match' ? [...s.match.sl, ...s.match.related] : [])).join(' ')
+    : query;
+  const queryVector = embedText(text, index.model);
+  if (!queryVector) return [];
+
+  const { dimensions } = index.model;
+  const hits: VectorHit[] = [];
+  for (let i = 0; i < index.ids.length; i++) {
+    if (allowedIds && !allowedIds.has(index.ids[i])) continue;
+    let similarity = 0;
+    const offset = i * dimensions;
+    for (let k = 0; k < dimensions; k++) similarity += queryVector[k] * index.vectors[offset + k];
+    if (similarity >= MIN_SIMILARITY) hits.push({ id: index.ids[i], similarity });
+  }
+
+  return hits.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+}
+
+export interface FusedResult<T> {
+  item: T;
+  /** Sum of 1 / (RRF_K + rank) over the rankings containing the item */
+  score: number;
+  /** Indices of the rankings the item appeared in */
+  sources: number[];
+}
+
+/**
+ * Reciprocal rank fusion of several rankings, best first. When an item occurs
+ * in more than one ranking, the instance from the earliest ranking is kept.
+ */
+export function fuseRankings<T>(rankings: T[][], key: (item: T) => string): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+  rankings.forEach((ranking, source) => {
+    ranking.forEach((item, rank) => {
+      const id = key(item);
+      const entry = fused.get(id) ?? { item, score: 0, sources: [] };
+      entry.score += 1 / (RRF_K + rank + 1);
+      if (!entry.sources.includes(source)) entry.sources.push(source);
+      fused.set(id, entry);
+    });
+  });
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,86 @@
+/**
+ * Word-level text diff (longest common subsequence over whitespace tokens).
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/** Above this many token pairs the LCS table gets too large; diff as a whole replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+/** LCS length table, table[i][j] = LCS of a[i..] and b[j..] */
+function lcsTable(a: string[], b: string[]): Uint32Array[] {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i].trimEnd() === b[j].trimEnd()
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last?.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Diff two texts word by word. Adjacent tokens with the same operation are
+ * merged, so a one-word amendment yields a single delete/insert pair.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    if (before) segments.push({ op: 'delete', text: before });
+    if (after) segments.push({ op: 'insert', text: after });
+    return segments;
+  }
+
+  const table = lcsTable(a, b);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trimEnd() === b[j].trimEnd()) {
+      pushSegment(segments, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'delete', a[i++]);
+  while (j < b.length) pushSegment(segments, 'insert', b[j++]);
+
+  return segments;
+}
+
+/**
+ * Share of words the two texts have in common (Dice coefficient over the
+ * LCS), from 0 for disjoint texts to 1 for identical ones.
+ */
+export function wordSimilarity(before: string, after: string): number {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) return 0;
+  return (2 * lcsTable(a, b)[0][0]) / (a.length + b.length);
+}
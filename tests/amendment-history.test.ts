@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { getAmendmentHistory } from '../src/tools/get-amendment-history.js';
+import { getProvisionAtDate } from '../src/tools/get-provision-at-date.js';
+import { parseGazetteCitation } from '../src/parsers/amendment-parser.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with a ZDR-1 amendment history as build-db.ts stores it. */
+function createHistoryDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL);
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT, provision_ref TEXT, chapter TEXT, section TEXT,
+      article TEXT, title TEXT, content TEXT, valid_from TEXT, valid_to TEXT
+    );
+    CREATE TABLE amendments (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT, amending_act TEXT,
+      amending_document_id TEXT, uradni_list_ref TEXT, gazette_year INTEGER, gazette_issue INTEGER,
+      published_date TEXT, effective_date TEXT, amendment_type TEXT NOT NULL, source TEXT NOT NULL, raw_text TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO5944', 'Zakon o delovnih razmerjih (ZDR-1)'),
+      ('ZAKO7224', 'Zakon o zaposlovanju, samozaposlovanju in delu tujcev (ZZSDT)');
+    INSERT INTO legal_provision_versions (document_id, provision_ref, article, content, valid_from, valid_to) VALUES
+      ('ZAKO5944', '154', '154', 'Delavec ima pravico do odmora.', '2013-04-12', NULL);
+    INSERT INTO amendments (document_id, provision_ref, amending_act, amending_document_id, uradni_list_ref,
+      gazette_year, gazette_issue, published_date, effective_date, amendment_type, source) VALUES
+      ('ZAKO5944', NULL, 'ZZSDT', 'ZAKO7224', 'RS, št. 47/15', 2015, 47, NULL, NULL, 'spremenjen', 'gazette_citation'),
+      ('ZAKO5944', '154', NULL, NULL, NULL, NULL, NULL, NULL, '2020-01-01', 'spremenjen', 'version_history'),
+      ('ZAKO5944', NULL, NULL, NULL, 'RS, št. 21/13', 2013, 21, '2013-03-13', '2013-04-12', 'nov', 'gazette_citation'),
+      ('ZAKO5944', NULL, NULL, NULL, 'RS, št. 78/13', 2013, 78, NULL, NULL, 'popravek', 'gazette_citation');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('parseGazetteCitation', () => {
+  it('classifies the original publication, corrections, annulments and amending acts', () => {
+    const entries = parseGazetteCitation('Uradni list RS, št. 21/13, 78/13 – popr., 47/15 – ZZSDT, 15/17 – odl. US in 52/16');
+
+    expect(entries.map(e => [e.uradni_list_ref, e.amendment_type, e.amending_act])).toEqual([
+      ['RS, št. 21/13', 'nov', undefined],
+      ['RS, št. 78/13', 'popravek', undefined],
+      ['RS, št. 47/15', 'spremenjen', 'ZZSDT'],
+      ['RS, št. 15/17', 'razveljavljen', 'odl. US'],
+      ['RS, št. 52/16', 'spremenjen', undefined],
+    ]);
+    expect(entries[0].year).toBe(2013);
+  });
+});
+
+describe('getAmendmentHistory', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createHistoryDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('returns the statute timeline in chronological order', async () => {
+    const { results } = await getAmendmentHistory(db, { document_id: 'ZDR-1' });
+
+    expect(results!.entries.map(e => e.uradni_list_ref ?? e.date)).toEqual([
+      'RS, št. 21/13', 'RS, št. 78/13', 'RS, št. 47/15', '2020-01-01',
+    ]);
+    expect(results!.entries[2].amending_document_title).toContain('ZZSDT');
+  });
+
+  it('filters by article, date range and type', async () => {
+    const { results: article } = await getAmendmentHistory(db, { document_id: 'ZAKO5944', provision_ref: '154' });
+    expect(article!.entries).toHaveLength(1);
+
+    const { results: ranged } = await getAmendmentHistory(db, {
+      document_id: 'ZAKO5944', from_date: '2014-01-01', amendment_types: ['spremenjen'],
+    });
+    expect(ranged!.entries.map(e => e.source)).toEqual(['gazette_citation', 'version_history']);
+  });
+
+  it('supplies dated amendments to get_provision_at_date', async () => {
+    const { results } = await getProvisionAtDate(db, {
+      document_id: 'ZAKO5944', provision_ref: '154', date: '2024-01-01', include_amendments: true,
+    });
+    expect(results.amendments).toEqual([
+      { source_document_id: null, amendment_date: '2020-01-01', ref_type: 'amended_by', amendment_type: 'spremenjen', uradni_list_ref: null },
+    ]);
+  });
+});
@@ -102,6 +102,15 @@ describe('detectCapabilities', () => {
     expect(caps.size).toBe(1);
     expect(caps.has('core_legislation')).toBe(true);
   });
+
+  it('should detect semantic_search when the database has provision vectors', () => {
+    db = createFreeTierDb();
+    db.exec('CREATE TABLE provision_vectors (provision_id INTEGER PRIMARY KEY, vector BLOB NOT NULL);');
+
+    const caps = detectCapabilities(db);
+    expect(caps.has('semantic_search')).toBe(true);
+    expect(isProfessionalCapability('semantic_search')).toBe(false);
+  });
 });
 
 describe('readDbMetadata', () => {
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { parseCitation } from '../src/citation/parser.js';
+import { validateCitation } from '../src/citation/validator.js';
+import { formatCitation } from '../src/citation/formatter.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with one Vrhovno sodišče and one Ustavno sodišče decision. */
+function createCaseLawDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE case_law (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, court TEXT NOT NULL, ecli TEXT, case_number TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('case-ECLI-SI-VSRS-2020-II.IPS.45.2019', 'case_law', 'ECLI:SI:VSRS:2020:II.IPS.45.2019', NULL, 'in_force', NULL),
+      ('case-ECLI-SI-USRS-2020-U.I.123.18', 'case_law', 'ECLI:SI:USRS:2020:U.I.123.18', NULL, 'in_force', NULL);
+    INSERT INTO case_law (document_id, court, ecli, case_number) VALUES
+      ('case-ECLI-SI-VSRS-2020-II.IPS.45.2019', 'VSRS', 'ECLI:SI:VSRS:2020:II.IPS.45.2019', 'II Ips 45/2019'),
+      ('case-ECLI-SI-USRS-2020-U.I.123.18', 'USRS', 'ECLI:SI:USRS:2020:U.I.123.18', 'U-I-123/18');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('case number citations', () => {
+  it('parses Ustavno sodišče and court case numbers with or without the court', () => {
+    expect(parseCitation('odločba US, št. U-I-123/18')).toMatchObject({
+      type: 'case_law', case_number: 'U-I-123/18', court: 'USRS', valid: true,
+    });
+    expect(parseCitation('sklep VSRS II Ips 45/2019')).toMatchObject({ case_number: 'II Ips 45/2019', court: 'VSRS' });
+    expect(parseCitation('VDSS Pdp 123/2020')).toMatchObject({ case_number: 'Pdp 123/2020', court: 'VDSS' });
+    expect(parseCitation('VIII Ips 12/2020')).toMatchObject({ case_number: 'VIII Ips 12/2020', court: 'VSRS' });
+  });
+
+  it('derives the case number from an ECLI', () => {
+    expect(formatCitation('ECLI:SI:VSLJ:2019:I.CP.1234.2019', 'full'))
+      .toBe('VSL I Cp 1234/2019, ECLI:SI:VSLJ:2019:I.CP.1234.2019');
+    expect(formatCitation('ECLI:SI:USRS:2020:U.I.123.18', 'short')).toBe('US U-I-123/18');
+  });
+});
+
+describe('case number citations against case_law', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createCaseLawDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('maps a case number to its ECLI and decision', () => {
+    const result = validateCitation(db, 'sklep VSRS II  Ips 45/2019');
+
+    expect(result.document_exists).toBe(true);
+    expect(result.citation.document_id).toBe('case-ECLI-SI-VSRS-2020-II.IPS.45.2019');
+    expect(result.citation.ecli).toBe('ECLI:SI:VSRS:2020:II.IPS.45.2019');
+    expect(result.citation.case_number).toBe('II Ips 45/2019');
+    expect(formatCitation('odločba US U-I-123/18', 'full', db)).toBe('US U-I-123/18, ECLI:SI:USRS:2020:U.I.123.18');
+    expect(validateCitation(db, 'ECLI:SI:USRS:2020:U.I.123.18').document_exists).toBe(true);
+  });
+
+  it('reports decisions missing from the database', () => {
+    const result = validateCitation(db, 'VDSS Pdp 123/2020');
+
+    expect(result.document_exists).toBe(false);
+    expect(result.warnings).toEqual(['Odločba Pdp 123/2020 ni v bazi']);
+  });
+});
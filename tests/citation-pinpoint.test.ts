@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { parseCitation } from '../src/citation/parser.js';
+import { validateCitation } from '../src/citation/validator.js';
+import { getProvision } from '../src/tools/get-provision.js';
+import { parseProvisionUnits } from '../src/utils/provision-units.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ARTICLE_5 = [
+  'V tem zakonu uporabljeni izrazi imajo naslednji pomen:',
+  '1.      »osebni podatek« je podatek iz 1. točke 4. člena Splošne uredbe;',
+  '2.      »obdelava« je obdelava iz 2. točke 4. člena Splošne uredbe:',
+  'a)       zbiranje,',
+  'b)       shranjevanje;',
+  '3.      »javni sektor« so državni organi;',
+  'Za namene tega zakona se šteje:',
+  '-     vloga pri upravljavcu,',
+  '-     vloga pri obdelovalcu.',
+].join('\n');
+
+// Lettered točke directly under an odstavek, followed by the heading PIS left from the next section
+const ARTICLE_7 = [
+  '(1) Upravljavec vodi evidenco.',
+  '(2) Evidenca vsebuje:',
+  'a)       ime upravljavca,',
+  'b)       namen obdelave.',
+  'č) Obveznost varovanja poslovne skrivnosti',
+  'Varovanje podatkov',
+].join('\n');
+
+/** Create an in-memory DB with ZVOP-2 5. and 7. člen (no provision_units index, so units are parsed). */
+function createProvisionDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, chapter TEXT, section TEXT,
+      article TEXT NOT NULL, title TEXT, content TEXT NOT NULL
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'ZVOP-2', 'in_force', NULL);
+    INSERT INTO document_aliases VALUES ('ZVOP-2', 'ZAKO7959', 'short_name');
+  `);
+  db.prepare(`
+    INSERT INTO legal_provisions (document_id, provision_ref, article, title, content)
+    VALUES ('ZAKO7959', '5', '5', '(pomen izrazov)', ?), ('ZAKO7959', '7', '7', NULL, ?)
+  `).run(ARTICLE_5, ARTICLE_7);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('parseCitation pinpoints', () => {
+  it('parses the full odstavek, točka, podtočka and alineja hierarchy', () => {
+    const pick = (citation: string) => {
+      const { article, paragraph, point, subpoint, indent } = parseCitation(citation);
+      return { article, paragraph, point, subpoint, indent };
+    };
+
+    expect(pick('3. točka 1. odstavka 6. člena ZVOP-2')).toEqual({ article: '6', paragraph: '1', point: '3' });
+    expect(pick('druga alineja 2. odstavka 10. člena KZ-1')).toEqual({ article: '10', paragraph: '2', indent: '2' });
+    expect(pick('a) podtočka 2. točke 5. člena ZVOP-2')).toEqual({ article: '5', point: '2', subpoint: 'a' });
+    expect(pick('ZKP, 6a člen, 2. odst.')).toEqual({ article: '6.a', paragraph: '2' });
+  });
+
+  it('parses lettered točke with the letter before or after the keyword', () => {
+    expect(parseCitation('a) točka šestega odstavka 70.e člena ZGD-1')).toMatchObject({ article: '70.e', paragraph: '6', point: 'a' });
+    expect(parseCitation('točka b) 2. odstavka 7. člena ZVOP-2')).toMatchObject({ article: '7', paragraph: '2', point: 'b' });
+    expect(parseCitation('a) točka 7. člena ZVOP-2').subpoint).toBeUndefined();
+  });
+
+  it('rejects repeated levels and citations without an article', () => {
+    expect(parseCitation('1. člen 2. člena ZKP').valid).toBe(false);
+    expect(parseCitation('3. točka 1. odstavka ZKP').valid).toBe(false);
+  });
+});
+
+describe('pinpoint lookup', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createProvisionDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('validate_citation verifies the cited unit inside the article', () => {
+    const point = validateCitation(db, '2. točka 5. člena ZVOP-2');
+    expect(point.pinpoint_exists).toBe(true);
+    expect(point.pinpoint_text).toBe([
+      '2. »obdelava« je obdelava iz 2. točke 4. člena Splošne uredbe:',
+      'a) zbiranje,',
+      'b) shranjevanje;',
+    ].join('\n'));
+
+    const missing = validateCitation(db, '7. točka 5. člena ZVOP-2');
+    expect(missing.provision_exists).toBe(true);
+    expect(missing.pinpoint_exists).toBe(false);
+    expect(missing.warnings[0]).toContain('7. točka');
+  });
+
+  it('get_provision narrows content to the cited alineja', async () => {
+    const { results } = await getProvision(db, {
+      document_id: 'ZVOP-2', article: '5', paragraph: '2', indent: '2',
+    });
+
+    expect(results[0].content).toBe('- vloga pri obdelovalcu.');
+    expect(results[0].pinpoint).toBe('2. odstavek, 2. alineja');
+  });
+
+  it('reads letters under an odstavek as točke and drops a trailing section heading', async () => {
+    const { results } = await getProvision(db, {
+      document_id: 'ZVOP-2', article: '7', paragraph: '2', point: 'b',
+    });
+    expect(results[0].content).toBe('b) namen obdelave.');
+    expect(results[0].pinpoint).toBe('2. odstavek, b) točka');
+
+    expect(parseProvisionUnits(ARTICLE_7).map(unit => [unit.kind, unit.paragraph, unit.point ?? null])).toEqual([
+      ['paragraph', '1', null], ['paragraph', '2', null], ['point', '2', 'a'], ['point', '2', 'b'],
+    ]);
+    expect(validateCitation(db, 'točka č) 2. odstavka 7. člena ZVOP-2').pinpoint_exists).toBe(false);
+  });
+});
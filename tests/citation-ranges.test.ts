@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { expandCitation, parseCitation } from '../src/citation/parser.js';
+import { validateCitation } from '../src/citation/validator.js';
+import { formatCitation } from '../src/citation/formatter.js';
+import { extractCrossReferences } from '../src/parsers/cross-ref-extractor.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with ZJF 9. to 11. člen, including inserted and deleted articles. */
+function createRangeDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, content TEXT NOT NULL
+    );
+    INSERT INTO legal_documents VALUES ('ZAKO1227', 'statute', 'Zakon o javnih financah (ZJF)', 'ZJF', 'in_force', NULL);
+    INSERT INTO document_aliases VALUES ('ZJF', 'ZAKO1227', 'short_name');
+    INSERT INTO legal_provisions (document_id, provision_ref, content) VALUES
+      ('ZAKO1227', '9', 'Proračun sestavljajo splošni del, posebni del in načrt razvojnih programov.'),
+      ('ZAKO1227', '9.b', '(1) (prenehal veljati)' || char(10) || '(2) (črtan)'),
+      ('ZAKO1227', '9.c', 'Fiskalno pravilo.'),
+      ('ZAKO1227', '10', 'Proračun se pripravi za leto dni.');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('article ranges and enumerations', () => {
+  it('parses ranges and lists into every article', () => {
+    expect(parseCitation('15. do 20. člen ZKP').articles).toEqual(['15', '16', '17', '18', '19', '20']);
+    expect(parseCitation('od 15.–17. člena ZKP').articles).toEqual(['15', '16', '17']);
+    expect(parseCitation('5., 7. in 9. člen ZKP').articles).toEqual(['5', '7', '9']);
+    expect(expandCitation(parseCitation('ZKP, 5. in 6. člen')).map(c => c.article)).toEqual(['5', '6']);
+    expect(parseCitation('20. do 15. člen ZKP').valid).toBe(false);
+  });
+
+  it('expands each article of a range or list in cross-references', () => {
+    const refs = extractCrossReferences('na podlagi 15. do 17. člena ZKP ter 5. in 7. člena tega zakona');
+    expect(refs.map(r => `${r.target_statute ?? 'self'}:${r.target_article}`)).toEqual([
+      'ZKP:15', 'ZKP:16', 'ZKP:17', 'self:5', 'self:7',
+    ]);
+  });
+});
+
+describe('validateCitation with ranges', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createRangeDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('includes inserted articles and reports missing and repealed members', () => {
+    const result = validateCitation(db, '9. do 11. člen ZJF');
+
+    expect(result.members).toEqual([
+      { article: '9', provision_exists: true, repealed: false },
+      { article: '9.b', provision_exists: true, repealed: true },
+      { article: '9.c', provision_exists: true, repealed: false },
+      { article: '10', provision_exists: true, repealed: false },
+      { article: '11', provision_exists: false, repealed: false },
+    ]);
+    expect(result.provision_exists).toBe(false);
+    expect(result.warnings).toEqual([
+      '11. člen ne obstaja v bazi',
+      '9.b člen je črtan ali je prenehal veljati',
+    ]);
+    expect(formatCitation('9. do 11. člen ZJF', 'short', db)).toBe('9. do 11. člen ZJF');
+  });
+});
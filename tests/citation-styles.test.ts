@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { formatCitation } from '../src/citation/formatter.js';
+import { parseCitation } from '../src/citation/parser.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with ZVOP-2 (English title, gazette issue) and the GDPR. */
+function createStyleDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, title_en TEXT, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE gazette_index (
+      id INTEGER PRIMARY KEY, uradni_list_ref TEXT NOT NULL, gazette_year INTEGER NOT NULL, gazette_issue INTEGER NOT NULL,
+      document_id TEXT NOT NULL, publication_type TEXT NOT NULL, act TEXT, act_document_id TEXT, published_date TEXT,
+      source TEXT NOT NULL
+    );
+    CREATE TABLE eu_documents (id TEXT PRIMARY KEY, short_name TEXT, adoption_date TEXT);
+    INSERT INTO legal_documents VALUES
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'Personal Data Protection Act', 'ZVOP-2', 'in_force', NULL);
+    INSERT INTO document_aliases VALUES ('ZVOP-2', 'ZAKO7959', 'short_name');
+    INSERT INTO gazette_index (uradni_list_ref, gazette_year, gazette_issue, document_id, publication_type, source)
+    VALUES ('RS, št. 163/22', 2022, 163, 'ZAKO7959', 'original', 'amendment_history');
+    INSERT INTO eu_documents VALUES ('regulation:2016/679', 'GDPR', '2016-04-27');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('EU act citations', () => {
+  it('normalizes directives and regulations in Slovenian and EU style', () => {
+    expect(parseCitation('Direktiva 95/46/ES').document_id).toBe('directive:1995/46');
+    expect(parseCitation('Uredba (ES) št. 1049/2001').document_id).toBe('regulation:2001/1049');
+    expect(formatCitation('Direktiva (ES) 95/46', 'full')).toBe('Direktiva 95/46/ES');
+    expect(formatCitation('Direktiva 95/46/ES', 'eu')).toBe('Directive 95/46/EC');
+    expect(formatCitation('Uredba (ES) št. 1049/2001', 'eu')).toBe('Regulation (EC) No 1049/2001');
+    expect(formatCitation('Uredba (ES) št. 1049/2001', 'oscola')).toBe('Regulation (EC) 1049/2001');
+  });
+});
+
+describe('english and oscola styles', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createStyleDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('cites statutes by English title and gazette issue', () => {
+    expect(formatCitation('1. odstavek 6. člena ZVOP-2', 'english', db))
+      .toBe('Article 6(1) of the Personal Data Protection Act (ZVOP-2), Official Gazette RS No. 163/22');
+    expect(formatCitation('5., 7. in 9. člen ZVOP-2', 'oscola', db))
+      .toBe('Zakon o varstvu osebnih podatkov [Personal Data Protection Act] (ZVOP-2) (Uradni list RS, št. 163/22), arts 5, 7 and 9');
+  });
+
+  it('adds the adoption date and short name of EU acts from the database', () => {
+    expect(formatCitation('Uredba (EU) 2016/679', 'eu', db)).toBe('Regulation (EU) 2016/679 of 27 April 2016');
+    expect(formatCitation('Uredba (EU) 2016/679', 'english', db)).toBe('Regulation (EU) 2016/679 (GDPR)');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CompleteResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { completeArgument, registerCompletions } from '../src/completions/registry.js';
+import { rankDocumentCandidates } from '../src/utils/document-id.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with three statutes, a few členi, decisions and EU acts. */
+function createCompletionDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT NOT NULL, title TEXT NOT NULL, short_name TEXT, status TEXT NOT NULL, url TEXT
+    );
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, article TEXT NOT NULL, content TEXT NOT NULL
+    );
+    CREATE TABLE case_law (id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, court TEXT NOT NULL, ecli TEXT, decision_date TEXT);
+    CREATE TABLE eu_documents (
+      id TEXT PRIMARY KEY, type TEXT NOT NULL, year INTEGER NOT NULL, number INTEGER NOT NULL,
+      celex_number TEXT, short_name TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'ZVOP-2', 'in_force', NULL),
+      ('ZAKO8286', 'statute', 'Zakon o varstvu okolja (ZVO-2)', 'ZVO-2', 'in_force', NULL),
+      ('ZAKO4703', 'statute', 'Zakon o davčnem postopku (ZDavP-2)', 'ZDavP-2', 'in_force', NULL),
+      ('VSRS-II-Ips-45-2019', 'case_law', 'Sklep II Ips 45/2019', NULL, 'in_force', NULL);
+    INSERT INTO legal_provisions (document_id, provision_ref, article, content) VALUES
+      ('ZAKO7959', '5', '5', '...'), ('ZAKO7959', '6', '6', '...'), ('ZAKO7959', '6.a', '6.a', '...'),
+      ('ZAKO7959', '7', '7', '...'), ('ZAKO7959', '60', '60', '...');
+    INSERT INTO case_law (document_id, court, ecli, decision_date) VALUES
+      ('VSRS-II-Ips-45-2019', 'VSRS', 'ECLI:SI:VSRS:2020:II.IPS.45.2019', '2020-03-12'),
+      ('VSL-1', 'VSL', 'ECLI:SI:VSLJ:2021:I.CP.100.2021', '2021-05-01');
+    INSERT INTO eu_documents VALUES
+      ('regulation:2016/679', 'regulation', 2016, 679, '32016R0679', 'GDPR'),
+      ('directive:2016/680', 'directive', 2016, 680, '32016L0680', NULL),
+      ('directive:1995/46', 'directive', 1995, 46, '31995L0046', NULL);
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('rankDocumentCandidates', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createCompletionDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('ranks exact aliases over prefixes and shorter titles over longer ones', () => {
+    expect(rankDocumentCandidates(db, 'ZVO-2', { prefix: true }).map(c => [c.matched, c.match])).toEqual([
+      ['ZVO-2', 'alias'],
+    ]);
+    expect(rankDocumentCandidates(db, 'zakon o varstvu').map(c => [c.document_id, c.match, c.score])).toEqual([
+      ['ZAKO8286', 'title_contains', 0.75],
+      ['ZAKO7959', 'title_contains', 0.71],
+    ]);
+    expect(rankDocumentCandidates(db, 'davcnem')[0]).toMatchObject({ document_id: 'ZAKO4703', match: 'title_folded' });
+  });
+});
+
+describe('completeArgument', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createCompletionDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('completes statutes, členi of the chosen statute, ECLIs and EU acts', () => {
+    const tool = { type: 'ref/tool' as const, name: 'get_provision' };
+    expect(completeArgument(db, tool, { name: 'document_id', value: 'ZV' }).values).toEqual(['ZVO-2', 'ZVOP-2']);
+    expect(completeArgument(db, tool, { name: 'article', value: '6' }, { document_id: 'ZVOP-2' }).values).toEqual(['6', '6.a', '60']);
+    expect(completeArgument(db, tool, { name: 'article', value: '6' }).values).toEqual([]);
+
+    const resource = { type: 'ref/resource' as const, uri: 'si-law://case/{ecli}' };
+    expect(completeArgument(db, resource, { name: 'ecli', value: 'VSRS' }).values).toEqual(['ECLI:SI:VSRS:2020:II.IPS.45.2019']);
+
+    const compliance = { type: 'ref/tool' as const, name: 'validate_eu_compliance' };
+    expect(completeArgument(db, compliance, { name: 'eu_document_id', value: '2016/6' }).values).toEqual([
+      'regulation:2016/679',
+      'directive:2016/680',
+    ]);
+    expect(completeArgument(db, compliance, { name: 'eu_document_id', value: 'gdpr' }).values).toEqual(['regulation:2016/679']);
+  });
+
+  it('completes enum arguments of tools and rejects unknown arguments', () => {
+    expect(completeArgument(db, { type: 'ref/tool', name: 'search_case_law' }, { name: 'court', value: 'vs' }).values).toEqual([
+      'VSRS', 'VSL', 'VSM', 'VSK', 'VSC',
+    ]);
+    expect(() => completeArgument(db, { type: 'ref/prompt', name: 'preveri_citate' }, { name: 'document_id', value: '' }))
+      .toThrow(/"document_id" is not an argument of preveri_citate/);
+  });
+
+  it('answers completion/complete for prompts and tools over MCP', async () => {
+    const server = new Server({ name: 'slovenian-law-test', version: '0.0.0' }, { capabilities: { completions: {} } });
+    registerCompletions(server, db);
+    const client = new Client({ name: 'test-client', version: '0.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const prompt = await client.complete({
+      ref: { type: 'ref/prompt', name: 'casovni_pregled_clena' },
+      argument: { name: 'article', value: '6.' },
+      context: { arguments: { document_id: 'ZAKO7959' } },
+    });
+    expect(prompt.completion).toEqual({ values: ['6.a'], total: 1, hasMore: false });
+
+    const tool = await client.request(
+      {
+        method: 'completion/complete',
+        params: { ref: { type: 'ref/tool', name: 'get_preparatory_works' }, argument: { name: 'statute_id', value: 'zvop' } },
+      },
+      CompleteResultSchema,
+    );
+    expect(tool.completion.values).toEqual(['ZVOP-2']);
+  });
+});
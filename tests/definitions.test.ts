@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { searchDefinitions } from '../src/tools/search-definitions.js';
+import { getDefinition } from '../src/tools/get-definition.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with the definitions of two statutes, one defined by an amendment. */
+function createDefinitionsDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT NOT NULL,
+      in_force_date TEXT, url TEXT
+    );
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      content TEXT NOT NULL, valid_from TEXT, valid_to TEXT
+    );
+    CREATE TABLE definitions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, term TEXT NOT NULL, term_en TEXT,
+      definition TEXT NOT NULL, source_provision TEXT
+    );
+    CREATE VIRTUAL TABLE definitions_fts USING fts5(
+      term, definition, content='definitions', content_rowid='id', tokenize='unicode61'
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'ZVOP-2', 'in_force', '2023-01-26', NULL),
+      ('ZAKO5944', 'statute', 'Zakon o delovnih razmerjih (ZDR-1)', 'ZDR-1', 'in_force', '2013-04-12', NULL);
+    INSERT INTO legal_provision_versions (document_id, provision_ref, content, valid_from, valid_to) VALUES
+      ('ZAKO7959', '5', 'Izrazi.', '2023-01-26', NULL),
+      ('ZAKO5944', '4', 'Delovno razmerje.', '2013-04-12', NULL),
+      ('ZAKO5944', '6.a', 'Časovni rok.', '2020-01-01', NULL);
+    INSERT INTO definitions (document_id, term, term_en, definition, source_provision) VALUES
+      ('ZAKO7959', 'upravljavec', 'controller', 'fizična ali pravna oseba, ki določa namene in sredstva obdelave osebnih podatkov', '5'),
+      ('ZAKO7959', 'upravljavec zbirke', NULL, 'upravljavec, ki vodi zbirko osebnih podatkov', '5'),
+      ('ZAKO5944', 'delavec', 'employee', 'fizična oseba, ki je v delovnem razmerju na podlagi sklenjene pogodbe o zaposlitvi', '4'),
+      ('ZAKO5944', 'časovni rok', NULL, 'rok, v katerem delavec opravi delo', '6.a');
+    INSERT INTO definitions_fts(definitions_fts) VALUES ('rebuild');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('searchDefinitions', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createDefinitionsDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('searches terms and definitions, filtered by statute', async () => {
+    const { results } = await searchDefinitions(db, { query: 'fizična oseba' });
+    expect(results.map(r => r.term).sort()).toEqual(['delavec', 'upravljavec']);
+
+    const filtered = await searchDefinitions(db, { query: 'fizična oseba', document_id: 'ZVOP-2' });
+    expect(filtered.results).toHaveLength(1);
+    expect(filtered.results[0]).toMatchObject({
+      document_id: 'ZAKO7959', document_status: 'in_force', term: 'upravljavec', source_provision: '5',
+    });
+    expect(filtered.results[0].snippet).toContain('**fizična**');
+  });
+
+  it('leaves out definitions whose statute or provision was not in force at as_of_date', async () => {
+    const { results } = await searchDefinitions(db, { query: 'rok', as_of_date: '2019-06-01' });
+    expect(results).toEqual([]);
+
+    const later = await searchDefinitions(db, { query: 'rok', as_of_date: '2021-06-01' });
+    expect(later.results.map(r => r.term)).toEqual(['časovni rok']);
+  });
+
+  it('rejects unknown statutes with DOCUMENT_NOT_FOUND', async () => {
+    await expect(searchDefinitions(db, { query: 'oseba', document_id: 'ZNEOBSTAJA' }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_NOT_FOUND' });
+  });
+});
+
+describe('getDefinition', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createDefinitionsDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('returns the exact statutory definition with its source provision', async () => {
+    const response = await getDefinition(db, { term: 'Upravljavec', document_id: 'ZVOP-2' });
+    expect(response.results).toEqual([{
+      document_id: 'ZAKO7959',
+      document_title: 'Zakon o varstvu osebnih podatkov (ZVOP-2)',
+      document_status: 'in_force',
+      term: 'upravljavec',
+      term_en: 'controller',
+      definition: 'fizična ali pravna oseba, ki določa namene in sredstva obdelave osebnih podatkov',
+      source_provision: '5',
+    }]);
+    expect(response._metadata.note).toBeUndefined();
+  });
+
+  it('matches terms typed without diacritics', async () => {
+    const response = await getDefinition(db, { term: 'casovni rok' });
+    expect(response.results.map(r => r.term)).toEqual(['časovni rok']);
+    expect(response._metadata).toMatchObject({ diacritics_folded: true });
+  });
+
+  it('offers terms that start with the input, or says nothing was found', async () => {
+    const prefix = await getDefinition(db, { term: 'upravlj' });
+    expect(prefix.results.map(r => r.term)).toEqual(['upravljavec', 'upravljavec zbirke']);
+    expect(prefix._metadata.note).toBe('No exact definition of "upravlj"; returning terms that start with it.');
+
+    const none = await getDefinition(db, { term: 'delodajalec' });
+    expect(none.results).toEqual([]);
+    expect(none._metadata.note).toBe('No definition of "delodajalec" found. Try search_definitions for a full-text search.');
+  });
+
+  it('rejects unknown statutes with DOCUMENT_NOT_FOUND', async () => {
+    await expect(getDefinition(db, { term: 'delavec', document_id: 'ZNEOBSTAJA' }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { foldDiacritics, foldedSql, isFoldedMatch, rankExactDiacriticsFirst } from '../src/utils/diacritics.js';
+
+describe('foldDiacritics', () => {
+  it('folds Slovenian carons and Croatian letters', () => {
+    expect(foldDiacritics('Sodišče')).toBe('sodisce');
+    expect(foldDiacritics('Đakovica ćevapi')).toBe('dakovica cevapi');
+  });
+
+  it('matches the SQL folding expression', () => {
+    const db = new Database(':memory:');
+    const text = 'ČASOVNI rok, Đ, Ügyész Café, Città';
+    const row = db.prepare(`SELECT ${foldedSql('?')} AS folded`).get(text) as { folded: string };
+    db.close();
+    expect(row.folded).toBe(foldDiacritics(text));
+    expect(row.folded).toBe('casovni rok, d, ugyesz cafe, citta');
+  });
+});
+
+describe('isFoldedMatch', () => {
+  it('detects matches that differ only by diacritics', () => {
+    expect(isFoldedMatch('sodišču', 'sodisce')).toBe(true);
+    expect(isFoldedMatch('sodišča', 'sodišče')).toBe(false);
+    expect(isFoldedMatch('Sodišče', 'sodišče')).toBe(false);
+  });
+});
+
+describe('rankExactDiacriticsFirst', () => {
+  it('moves folded matches after exact ones and reports them', () => {
+    const rows = [
+      { id: 1, snippet: 'pristojno **sodišče** odloča' },
+      { id: 2, snippet: 'ime **sodisce** v angleškem prevodu' },
+    ];
+    const { results, folded } = rankExactDiacriticsFirst(rows, 'sodisce');
+    expect(results.map(r => r.id)).toEqual([2, 1]);
+    expect(folded).toBe(true);
+  });
+
+  it('reports no folding when every highlight matches exactly', () => {
+    const { folded } = rankExactDiacriticsFirst([{ snippet: '**sodišče**' }], 'sodišče');
+    expect(folded).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { diffProvision } from '../src/tools/diff-provision.js';
+import { parseProvisionUnits } from '../src/utils/provision-units.js';
+import { diffWords } from '../src/utils/word-diff.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ORIGINAL = [
+  '(1) Delavec ima pravico do odmora v trajanju 30 minut.',
+  '(2) Med odmorom delavec lahko zapusti delovno mesto.',
+  '(3) Delodajalec določi čas odmora:',
+  '1.      v pogodbi o zaposlitvi;',
+  '2.      s splošnim aktom.',
+].join('\n');
+
+const AMENDED = [
+  '(1) Delavec ima pravico do plačanega odmora v trajanju 30 minut.',
+  '(2) Delodajalec določi čas odmora:',
+  '1.      v pogodbi o zaposlitvi;',
+  '2.      s kolektivno pogodbo;',
+  '3.      s splošnim aktom.',
+].join('\n');
+
+/** Create an in-memory DB with two dated versions of ZDR-1 154. člen. */
+function createVersionDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL);
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY,
+      document_id TEXT NOT NULL,
+      provision_ref TEXT NOT NULL,
+      article TEXT NOT NULL,
+      title TEXT,
+      content TEXT NOT NULL,
+      valid_from TEXT,
+      valid_to TEXT
+    );
+    INSERT INTO legal_documents VALUES ('ZAKO5944', 'Zakon o delovnih razmerjih (ZDR-1)');
+  `);
+  const insert = db.prepare(`
+    INSERT INTO legal_provision_versions (id, document_id, provision_ref, article, title, content, valid_from, valid_to)
+    VALUES (?, 'ZAKO5944', '154', '154', ?, ?, ?, ?)
+  `);
+  insert.run(1, 'Odmor', ORIGINAL, '2013-04-12', '2024-01-01');
+  insert.run(2, 'Odmor med delovnim časom', AMENDED, '2024-01-01', null);
+  // Two undated seed rows of 155. člen, as the shipped seeds store duplicates
+  db.prepare(`
+    INSERT INTO legal_provision_versions (id, document_id, provision_ref, article, title, content, valid_from, valid_to)
+    VALUES (?, 'ZAKO5944', '155', '155', NULL, ?, NULL, NULL)
+  `).run(3, ORIGINAL);
+  db.prepare(`
+    INSERT INTO legal_provision_versions (id, document_id, provision_ref, article, title, content, valid_from, valid_to)
+    VALUES (?, 'ZAKO5944', '155', '155', NULL, ?, NULL, NULL)
+  `).run(4, AMENDED);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('parseProvisionUnits', () => {
+  it('splits paragraphs, points, subpoints and indents', () => {
+    const units = parseProvisionUnits([
+      'Besedilo prvega odstavka.',
+      'Besedilo drugega odstavka:',
+      '1.      prva točka,',
+      'a)       podtočka,',
+      '-     alineja.',
+    ].join('\n'));
+
+    expect(units.map(u => [u.kind, u.paragraph, u.point, u.subpoint, u.indent])).toEqual([
+      ['paragraph', '1', undefined, undefined, undefined],
+      ['paragraph', '2', undefined, undefined, undefined],
+      ['point', '2', '1', undefined, undefined],
+      ['subpoint', '2', '1', 'a', undefined],
+      ['indent', '2', '1', 'a', 1],
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it('merges consecutive words into insert/delete segments', () => {
+    expect(diffWords('pravico do odmora', 'pravico do plačanega odmora')).toEqual([
+      { op: 'equal', text: 'pravico do ' },
+      { op: 'insert', text: 'plačanega ' },
+      { op: 'equal', text: 'odmora' },
+    ]);
+  });
+});
+
+describe('diffProvision', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createVersionDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('marks changed, deleted, added and renumbered units between two dates', async () => {
+    const { results } = await diffProvision(db, {
+      document_id: 'ZDR-1', provision_ref: '154', from_date: '2020-01-01', to_date: '2025-01-01',
+    });
+
+    expect(results!.from.version_id).toBe(1);
+    expect(results!.to.version_id).toBe(2);
+    expect(results!.units.map(u => u.status)).toEqual([
+      'changed', 'deleted', 'renumbered', 'renumbered', 'added', 'renumbered',
+    ]);
+    expect(results!.units[0].segments).toContainEqual({ op: 'insert', text: 'plačanega ' });
+    expect(results!.units[4].location).toBe('2. odstavek, 2. točka');
+    expect(results!.title_change).toEqual({ from: 'Odmor', to: 'Odmor med delovnim časom' });
+    expect(results!.identical).toBe(false);
+  });
+
+  it('compares with the previous version by default and renders unified text', async () => {
+    const { results } = await diffProvision(db, {
+      document_id: 'ZAKO5944', provision_ref: '154', to_version_id: 2, include_unified: true,
+    });
+
+    expect(results!.from.version_id).toBe(1);
+    expect(results!.unified).toContain('- (2) Med odmorom delavec lahko zapusti delovno mesto.');
+    expect(results!.unified).toContain('+ 2. s kolektivno pogodbo;');
+  });
+
+  it('rejects a version id of another provision', async () => {
+    await expect(diffProvision(db, {
+      document_id: 'ZAKO5944', provision_ref: '155', from_version_id: 1, to_version_id: 2,
+    })).rejects.toThrow('is not a version of');
+  });
+
+  it('refuses to order undated versions as successive amendments', async () => {
+    const latest = await diffProvision(db, { document_id: 'ZAKO5944', provision_ref: '155' });
+    expect(latest.results).toBeNull();
+    expect(latest._metadata.note).toBe(
+      'Versions 3 and 4 have no validity dates, so ZAKO5944 155 cannot be ordered from one version to the next; '
+      + 'pass from_version_id and to_version_id to compare the texts anyway',
+    );
+
+    const chosen = await diffProvision(db, {
+      document_id: 'ZAKO5944', provision_ref: '155', from_version_id: 3, to_version_id: 4,
+    });
+    expect(chosen.results!.identical).toBe(false);
+    expect(chosen._metadata.note).toBe(
+      'Versions 3 and 4 have no validity dates; the units show how the two texts differ, not what an amendment changed',
+    );
+  });
+});
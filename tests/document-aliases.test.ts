@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { collectDocumentAliases, getAliasIndex, lookupAlias } from '../src/utils/document-aliases.js';
+import { parseCitation } from '../src/citation/parser.js';
+import { resolveDocumentId, resolveDocumentReference } from '../src/utils/document-id.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with a document_aliases table. */
+function createAliasDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    INSERT INTO legal_documents VALUES
+      ('ZAKO5761', 'statute', 'Zakon o tujcih (ZTuj-2)', 'ZTuj-2', 'in_force', NULL),
+      ('ZAKO362', 'statute', 'Zakon o kazenskem postopku (ZKP)', 'ZKP', 'in_force', NULL);
+    INSERT INTO document_aliases VALUES
+      ('ZTuj-2', 'ZAKO5761', 'short_name'),
+      ('zakon-o-tujcih', 'ZAKO5761', 'slug'),
+      ('ZKP', 'ZAKO362', 'short_name');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('statute alias registry', () => {
+  let db: InstanceType<typeof Database> | undefined;
+
+  afterEach(() => {
+    db?.close();
+    db = undefined;
+  });
+
+  it('resolves aliases from the database case-insensitively', () => {
+    db = createAliasDb();
+    const index = getAliasIndex(db);
+    expect(lookupAlias(index, 'ztuj-2')?.document_id).toBe('ZAKO5761');
+    expect(lookupAlias(index, 'zakon-o-tujcih')?.document_id).toBe('ZAKO5761');
+  });
+
+  it('registers the aliases a seed lists as legacy, and knows no statute without a database', () => {
+    const aliases = collectDocumentAliases({
+      id: 'USTA1', title: 'Ustava Republike Slovenije (URS)', short_name: 'URS', aliases: ['Ustava', 'Ustava-RS'],
+    });
+    expect(aliases.filter(a => a.alias_type === 'legacy').map(a => a.alias)).toEqual(['Ustava', 'Ustava-RS']);
+
+    expect(lookupAlias(getAliasIndex(), 'ZVOP-2')).toBeUndefined();
+  });
+
+  it('parses citations to database document IDs with the canonical abbreviation', () => {
+    db = createAliasDb();
+    const parsed = parseCitation('3. člen ztuj-2', db);
+    expect(parsed.valid).toBe(true);
+    expect(parsed.document_id).toBe('ZAKO5761');
+    expect(parsed.code_abbreviation).toBe('ZTuj-2');
+  });
+
+  it('reports unknown abbreviations', () => {
+    db = createAliasDb();
+    const parsed = parseCitation('5. člen ZNEOBSTAJA', db);
+    expect(parsed.valid).toBe(false);
+    expect(parsed.error).toContain('Unknown statute abbreviation');
+  });
+
+  it('resolveDocumentId accepts any registered alias', () => {
+    db = createAliasDb();
+    expect(resolveDocumentId(db, 'ZKP')).toBe('ZAKO362');
+    expect(resolveDocumentId(db, 'zakon-o-tujcih')).toBe('ZAKO5761');
+  });
+
+  it('resolveDocumentReference reports close fuzzy matches as ambiguous', () => {
+    db = createAliasDb();
+    const vague = resolveDocumentReference(db, 'zakon o');
+    expect(vague.ambiguous).toBe(true);
+    expect(vague.candidates.map(c => [c.document_id, c.match])).toEqual([
+      ['ZAKO5761', 'title_contains'],
+      ['ZAKO362', 'title_contains'],
+    ]);
+
+    expect(resolveDocumentReference(db, 'Zakon o kazenskem postopku')).toMatchObject({
+      document_id: 'ZAKO362',
+      ambiguous: false,
+      candidates: [{ match: 'title', score: 0.95 }],
+    });
+    expect(resolveDocumentReference(db, 'ZNEOBSTAJA')).toMatchObject({ document_id: null, ambiguous: false, candidates: [] });
+  });
+
+  it('resolveDocumentReference matches fuzzy references against statutes only', () => {
+    db = createAliasDb();
+    db.exec(`INSERT INTO legal_documents VALUES ('VSRS-I-Up-1-2020', 'case_law', 'Sodba o tujcih', NULL, 'in_force', NULL)`);
+
+    expect(resolveDocumentReference(db, 'tujcih')).toMatchObject({
+      document_id: 'ZAKO5761',
+      ambiguous: false,
+      candidates: [{ document_id: 'ZAKO5761' }],
+    });
+    expect(resolveDocumentReference(db, 'tujcih', { includeCaseLaw: true }).ambiguous).toBe(true);
+    expect(resolveDocumentReference(db, 'VSRS-I-Up-1-2020').candidates).toEqual([
+      expect.objectContaining({ document_id: 'VSRS-I-Up-1-2020', match: 'id', score: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { getDocumentAtDate } from '../src/tools/get-document-at-date.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with a small statute whose articles change over time. */
+function createStatuteDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, title TEXT NOT NULL, status TEXT NOT NULL, in_force_date TEXT
+    );
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT, article TEXT NOT NULL, title TEXT, content TEXT NOT NULL,
+      valid_from TEXT, valid_to TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO5944', 'Zakon o delovnih razmerjih (ZDR-1)', 'in_force', '2013-04-12'),
+      ('ZAKO7959', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'in_force', '2023-01-26');
+    INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, article, title, content, valid_from, valid_to) VALUES
+      ('ZAKO5944', '10', 'II. SKLENITEV', '10', NULL, 'Deseti člen.', '2013-04-12', NULL),
+      ('ZAKO5944', '1', 'I. SPLOŠNE DOLOČBE', '1', 'Vsebina zakona', 'Prvotno besedilo.', '2013-04-12', '2016-01-01'),
+      ('ZAKO5944', '1', 'I. SPLOŠNE DOLOČBE', '1', 'Vsebina zakona', 'Spremenjeno besedilo.', '2016-01-01', NULL),
+      ('ZAKO5944', '2', 'I. SPLOŠNE DOLOČBE', '2', NULL, 'Črtani člen.', '2013-04-12', '2015-06-01'),
+      ('ZAKO5944', '2.a', 'I. SPLOŠNE DOLOČBE', '2.a', NULL, 'Dodani člen.', '2018-01-01', NULL),
+      ('ZAKO7959', '1', NULL, '1', 'Vsebina zakona', 'Ta zakon ureja varstvo osebnih podatkov.', NULL, NULL),
+      ('ZAKO7959', '2', NULL, '2', NULL, 'Namen zakona.', NULL, NULL);
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('getDocumentAtDate', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createStatuteDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('assembles the versions valid on the date in structural order and flags absent articles', async () => {
+    const { results } = await getDocumentAtDate(db, { document_id: 'ZDR-1', date: '2017-03-01' });
+
+    expect(results!.articles!.map(a => [a.provision_ref, a.status])).toEqual([
+      ['1', 'in_force'], ['2', 'deleted'], ['2.a', 'not_yet_in_force'], ['10', 'in_force'],
+    ]);
+    expect(results!.articles![0].content).toBe('Spremenjeno besedilo.');
+    expect(results!.articles![1]).toMatchObject({ content: null, valid_to: '2015-06-01' });
+    expect(results!.articles![2].valid_from).toBe('2018-01-01');
+    expect(results!.summary).toEqual({ total: 4, in_force: 2, not_yet_in_force: 1, deleted: 1 });
+  });
+
+  it('paginates with a cursor', async () => {
+    const first = await getDocumentAtDate(db, { document_id: 'ZAKO5944', date: '2014-01-01', limit: 2 });
+    expect(first.results!.articles!.map(a => a.provision_ref)).toEqual(['1', '2']);
+
+    const second = await getDocumentAtDate(db, {
+      document_id: 'ZAKO5944', date: '2014-01-01', limit: 2, cursor: first.results!.next_cursor!,
+    });
+    expect(second.results!.articles!.map(a => a.provision_ref)).toEqual(['2.a', '10']);
+    expect(second.results!.next_cursor).toBeNull();
+  });
+
+  it('renders the page as consolidated text in export mode', async () => {
+    const { results } = await getDocumentAtDate(db, {
+      document_id: 'ZAKO5944', date: '2014-01-01', format: 'text', include_absent: false,
+    });
+
+    expect(results!.articles).toBeUndefined();
+    expect(results!.text).toContain('I. SPLOŠNE DOLOČBE\n\nVsebina zakona\n1. člen\nPrvotno besedilo.');
+    expect(results!.text).not.toContain('2.a člen');
+  });
+
+  it('counts every article as not yet in force before the statute entered into force, even when versions are undated', async () => {
+    const early = await getDocumentAtDate(db, { document_id: 'ZVOP-2', date: '1990-01-01' });
+
+    expect(early.results!.summary).toEqual({ total: 2, in_force: 0, not_yet_in_force: 2, deleted: 0 });
+    expect(early.results!.articles![0]).toMatchObject({ status: 'not_yet_in_force', content: null, valid_from: '2023-01-26' });
+    expect(early._metadata.note).toBe(
+      'ZAKO7959 entered into force on 2023-01-26, after 1990-01-01. '
+      + 'No dated versions are stored for ZAKO7959; the current consolidated text is returned for every date from its entry into force',
+    );
+
+    const later = await getDocumentAtDate(db, { document_id: 'ZVOP-2', date: '2024-01-01' });
+    expect(later.results!.summary).toMatchObject({ in_force: 2, not_yet_in_force: 0 });
+  });
+
+  it('marks the dated articles of a statute not yet in force on an earlier date', async () => {
+    const { results } = await getDocumentAtDate(db, { document_id: 'ZDR-1', date: '2010-01-01' });
+
+    expect(results!.summary).toEqual({ total: 4, in_force: 0, not_yet_in_force: 4, deleted: 0 });
+    expect(results!.articles!.map(a => a.valid_from)).toEqual(['2013-04-12', '2013-04-12', '2018-01-01', '2013-04-12']);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { getDocumentStructure } from '../src/tools/get-document-structure.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Create an in-memory DB with a code divided into DEL, poglavje and oddelek
+ * (PIS stores the DEL heading in the chapter column), 250 členi in all.
+ */
+function createCodeDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT NOT NULL, url TEXT
+    );
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT, article TEXT NOT NULL, title TEXT, content TEXT NOT NULL
+    );
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT, article TEXT NOT NULL, title TEXT, content TEXT NOT NULL,
+      valid_from TEXT, valid_to TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO1263', 'statute', 'Obligacijski zakonik (OZ)', 'OZ', 'in_force', NULL),
+      ('ZAKO9999', 'statute', 'Zakon brez besedila', NULL, 'in_force', NULL);
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, article, title, content)
+    VALUES ('ZAKO1263', ?, ?, ?, ?, ?, 'Besedilo.')
+  `);
+  const place = (article: number): [string, string | null] => {
+    if (article <= 2) return ['PRVI DEL  SPLOŠNI DEL', '1. poglavje\n TEMELJNA NAČELA'];
+    if (article <= 4) return ['PRVI DEL  SPLOŠNI DEL', '2. poglavje  NASTANEK OBVEZNOSTI'];
+    return ['DRUGI DEL  POGODBE', null];
+  };
+  for (let article = 1; article <= 250; article++) {
+    const [chapter, section] = place(article);
+    insert.run(String(article), chapter, section, String(article), article === 1 ? 'Prosto urejanje' : null);
+  }
+
+  db.exec(`
+    INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, section, article, title, content, valid_from, valid_to) VALUES
+      ('ZAKO1263', '1', 'I. poglavje', '1. oddelek  Splošno', '1', NULL, 'Prvotno.', '2002-01-01', '2008-01-01'),
+      ('ZAKO1263', '2', 'I. poglavje', '2. oddelek  Posebno', '2', NULL, 'Prvotno.', '2002-01-01', NULL),
+      ('ZAKO1263', '3', NULL, NULL, '3', NULL, 'Dodano.', '2010-01-01', NULL);
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('getDocumentStructure', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createCodeDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('nests poglavja under DEL headings and counts every člen past 200', async () => {
+    const { results } = await getDocumentStructure(db, { document_id: 'OZ', include_articles: false });
+
+    expect(results.provision_count).toBe(250);
+    expect(results.outline.map(node => [node.kind, node.heading, node.provision_count, node.first_article, node.last_article]))
+      .toEqual([
+        ['part', 'PRVI DEL SPLOŠNI DEL', 4, '1', '4'],
+        ['part', 'DRUGI DEL POGODBE', 246, '5', '250'],
+      ]);
+    expect(results.outline[0].children.map(node => [node.kind, node.heading, node.provision_count])).toEqual([
+      ['chapter', '1. poglavje TEMELJNA NAČELA', 2],
+      ['chapter', '2. poglavje NASTANEK OBVEZNOSTI', 2],
+    ]);
+    expect(results.outline[0].children[0].articles).toBeUndefined();
+  });
+
+  it('lists členi with titles under the node that holds them', async () => {
+    const { results } = await getDocumentStructure(db, { document_id: 'ZAKO1263' });
+
+    expect(results.outline[0].children[0].articles).toEqual([
+      { provision_ref: '1', article: '1', title: 'Prosto urejanje' },
+      { provision_ref: '2', article: '2', title: null },
+    ]);
+    expect(results.outline[1].articles).toHaveLength(246);
+    expect(results.articles).toBeUndefined();
+  });
+
+  it('builds the outline from the versions valid at as_of_date', async () => {
+    const { results } = await getDocumentStructure(db, { document_id: 'OZ', as_of_date: '2012-06-01' });
+
+    expect(results.as_of_date).toBe('2012-06-01');
+    expect(results.provision_count).toBe(2);
+    expect(results.outline).toHaveLength(1);
+    expect(results.outline[0]).toMatchObject({ kind: 'chapter', heading: 'I. poglavje', provision_count: 1 });
+    expect(results.outline[0].children).toMatchObject([{ kind: 'section', heading: '2. oddelek Posebno' }]);
+    expect(results.articles).toEqual([{ provision_ref: '3', article: '3', title: null }]);
+  });
+
+  it('notes when no provisions are stored or valid at the date', async () => {
+    const empty = await getDocumentStructure(db, { document_id: 'ZAKO9999' });
+    expect(empty.results.outline).toEqual([]);
+    expect(empty._metadata.note).toBe('No provisions stored for ZAKO9999');
+
+    const early = await getDocumentStructure(db, { document_id: 'OZ', as_of_date: '1995-01-01' });
+    expect(early._metadata.note).toBe('No provision versions of ZAKO1263 are valid at 1995-01-01');
+  });
+
+  it('rejects unknown documents with DOCUMENT_NOT_FOUND', async () => {
+    await expect(getDocumentStructure(db, { document_id: 'ZNEOBSTAJA' }))
+      .rejects.toMatchObject({ code: 'DOCUMENT_NOT_FOUND' });
+  });
+});
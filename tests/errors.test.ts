@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { ToolError, invalidArgument, toToolErrorInfo, toolErrorInfo } from '../src/utils/errors.js';
+import { normalizeIsoDate } from '../src/utils/as-of-date.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('tool errors', () => {
+  it('carries a code, details and English and Slovenian messages', () => {
+    expect(() => normalizeIsoDate('12. 3. 2020', 'as_of_date')).toThrow(ToolError);
+    let caught: unknown;
+    try {
+      normalizeIsoDate('2020-02-30', 'date');
+    } catch (error) {
+      caught = error;
+    }
+    expect((caught as ToolError).info).toEqual({
+      code: 'INVALID_DATE',
+      message: 'date must be an ISO date in YYYY-MM-DD format (got "2020-02-30")',
+      message_sl: 'date mora biti datum v obliki LLLL-MM-DD (podano "2020-02-30")',
+      details: { argument: 'date', value: '2020-02-30' },
+    });
+
+    expect(toolErrorInfo('PROVISION_NOT_FOUND', { document_id: 'ZAKO7959', provision_ref: '6', date: '2019-01-01' }).message_sl)
+      .toBe('Člen 6 dokumenta ZAKO7959 nima veljavne različice na datum 2019-01-01');
+    expect(invalidArgument('cursor', 'was not issued by this tool').info.details)
+      .toEqual({ violations: [{ field: 'cursor', message: 'was not issued by this tool' }] });
+  });
+
+  it('classifies errors that are not ToolErrors as FTS_SYNTAX or INTERNAL_ERROR', () => {
+    expect(toToolErrorInfo(new Error('fts5: syntax error near "("'))).toMatchObject({
+      code: 'FTS_SYNTAX',
+      details: { reason: 'fts5: syntax error near "("' },
+    });
+    expect(toToolErrorInfo(new Error('no such table: legal_provisions'))).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: 'Internal error: no such table: legal_provisions',
+    });
+    expect(toToolErrorInfo(new ToolError('DOCUMENT_NOT_FOUND', { document_id: 'ZX' })).code).toBe('DOCUMENT_NOT_FOUND');
+  });
+});
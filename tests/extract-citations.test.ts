@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { extractCitationsTool } from '../src/tools/extract-citations.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with one statute, one Ustavno sodišče decision and one EU regulation. */
+function createCitationDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL, content TEXT NOT NULL
+    );
+    CREATE TABLE case_law (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, court TEXT NOT NULL, ecli TEXT, case_number TEXT
+    );
+    CREATE TABLE eu_documents (
+      id TEXT PRIMARY KEY, title TEXT, title_sl TEXT, short_name TEXT, in_force INTEGER
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'ZVOP-2', 'in_force', NULL),
+      ('US-U-I-123-20', 'case_law', 'Odločba U-I-123/20', NULL, 'in_force', NULL);
+    INSERT INTO document_aliases VALUES ('ZVOP-2', 'ZAKO7959', 'short_name');
+    INSERT INTO legal_provisions (document_id, provision_ref, content) VALUES
+      ('ZAKO7959', '5', 'Izrazi imajo naslednji pomen:' || char(10) || '1.      »osebni podatek« je podatek;'),
+      ('ZAKO7959', '6', '(1) (prenehal veljati)');
+    INSERT INTO case_law (document_id, court, ecli, case_number) VALUES
+      ('US-U-I-123-20', 'USRS', 'ECLI:SI:USRS:2020:U.I.123.20', 'U-I-123/20');
+    INSERT INTO eu_documents VALUES ('regulation:2016/679', 'General Data Protection Regulation', NULL, 'GDPR', 1);
+  `);
+  return db;
+}
+
+const DRAFT = 'Obdelava poteka v skladu z 1. točko 5. člena ZVOP-2 in Uredbo (EU) 2016/679 ter 6. členom ZVOP-2. '
+  + 'Glej odločbo U-I-123/20 (Uradni list RS, št. 46/20) in 99. člen ZNEOBSTAJA.';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('extractCitationsTool', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createCitationDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('finds every citation in text order with offsets and existence checks', async () => {
+    const { results } = await extractCitationsTool(db, { text: DRAFT });
+
+    expect(results.citations.map(c => [c.kind, c.text, c.exists])).toEqual([
+      ['statute', '1. točko 5. člena ZVOP-2', true],
+      ['eu_act', 'Uredbo (EU) 2016/679', true],
+      ['statute', '6. členom ZVOP-2', true],
+      ['constitutional_court', 'U-I-123/20', true],
+      ['uradni_list', 'Uradni list RS, št. 46/20', false],
+      ['statute', '99. člen ZNEOBSTAJA', false],
+    ]);
+    const [first] = results.citations;
+    expect(DRAFT.slice(first.start, first.end)).toBe(first.text);
+    expect(first.normalized).toBe('5. člen ZVOP-2, 1. točka');
+    expect(results.citations[2].warnings).toEqual(['6. člen je črtan ali je prenehal veljati']);
+    expect(results.summary).toMatchObject({ total: 6, not_found: 2, with_warnings: 3 });
+  });
+
+  it('filters by kind and limits the list while counting everything', async () => {
+    const { results } = await extractCitationsTool(db, { text: DRAFT, kinds: ['statute'], limit: 1 });
+
+    expect(results.citations).toHaveLength(1);
+    expect(results.truncated).toBe(true);
+    expect(results.summary.by_kind).toEqual({ statute: 3 });
+  });
+
+  it('keeps lettered amending-act abbreviations in Uradni list citations', async () => {
+    const text = 'Zakon o javnih uslužbencih (Uradni list RS, št. 63/07 – UPB3, 97/07 - ZDU-1F in 65/08).';
+    const { results } = await extractCitationsTool(db, { text, kinds: ['uradni_list'] });
+
+    expect(results.citations.map(c => c.text)).toEqual(['Uradni list RS, št. 63/07 – UPB3', '97/07 - ZDU-1F', '65/08']);
+  });
+});
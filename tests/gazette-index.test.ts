@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import {
+  amendedStatuteAbbreviation, extractPublicationNotes, extractQuotedGazetteCitations,
+} from '../src/parsers/amendment-parser.js';
+import { parseCitation } from '../src/citation/parser.js';
+import { validateCitation } from '../src/citation/validator.js';
+import { formatCitation } from '../src/citation/formatter.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with OZ, its gazette issues, and one issue shared by two statutes. */
+function createGazetteDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE gazette_index (
+      id INTEGER PRIMARY KEY, uradni_list_ref TEXT NOT NULL, gazette_year INTEGER NOT NULL, gazette_issue INTEGER NOT NULL,
+      document_id TEXT NOT NULL, publication_type TEXT NOT NULL, act TEXT, act_document_id TEXT, published_date TEXT,
+      source TEXT NOT NULL
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO1263', 'statute', 'Obligacijski zakonik', 'OZ', 'in_force', NULL),
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov', 'ZVOP-2', 'in_force', NULL);
+    INSERT INTO gazette_index (uradni_list_ref, gazette_year, gazette_issue, document_id, publication_type, act, published_date, source)
+    VALUES
+      ('RS, št. 83/01', 2001, 83, 'ZAKO1263', 'original', NULL, '2001-10-25', 'amendment_history'),
+      ('RS, št. 40/07', 2007, 40, 'ZAKO1263', 'amendment', 'OZ-A', NULL, 'provision_note'),
+      ('RS, št. 163/22', 2022, 163, 'ZAKO7959', 'original', NULL, NULL, 'amendment_history'),
+      ('RS, št. 163/22', 2022, 163, 'ZAKO1263', 'correction', NULL, NULL, 'amendment_history');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('extractPublicationNotes', () => {
+  it('reads the act, its abbreviation and the issue from PIS notes', () => {
+    const notes = extractPublicationNotes(
+      '(3) Besedilo.\nZakon o spremembi in dopolnitvi Obligacijskega zakonika – OZ-A (Uradni list RS, št. 40/07) vsebuje naslednjo končno določbo:\n'
+      + 'Odločba o delni razveljavitvi 1060. člena Obligacijskega zakonika (Uradni list RS, št. 28/06) spreminja 1060. člen',
+    );
+
+    expect(notes.map(n => [n.abbreviation, n.is_decision, n.uradni_list_ref, n.year])).toEqual([
+      ['OZ-A', false, 'RS, št. 40/07', 2007],
+      [undefined, true, 'RS, št. 28/06', 2006],
+    ]);
+  });
+});
+
+describe('extractQuotedGazetteCitations', () => {
+  it('reads the issue list quoted after a statute title and the abbreviation it introduces', () => {
+    const quotes = extractQuotedGazetteCitations(
+      'Sodišča po Zakonu o sodiščih (Uradni list RS, št. 19/94, 45/95 in 63/13 – ZS-K; v nadaljnjem besedilu: ZS) odločajo.',
+    );
+
+    expect(quotes).toEqual([{
+      preceding: 'Sodišča po Zakonu o sodiščih',
+      citation: 'Uradni list RS, št. 19/94, 45/95 in 63/13 – ZS-K',
+      abbreviation: 'ZS',
+    }]);
+  });
+
+  it('names the statute an amending act changed, or null for other acts', () => {
+    expect(amendedStatuteAbbreviation('ZS-K')).toBe('ZS');
+    expect(amendedStatuteAbbreviation('ZDR-1A')).toBe('ZDR-1');
+    expect(amendedStatuteAbbreviation('ZUJF')).toBeNull();
+    expect(amendedStatuteAbbreviation('odl. US')).toBeNull();
+  });
+});
+
+describe('Uradni list citations', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createGazetteDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('resolves an issue to the statute it published or amended', () => {
+    expect(parseCitation('Uradni list RS, št. 83/01', db).document_id).toBe('ZAKO1263');
+    expect(parseCitation('Uradni list RS, št. 83/01').document_id).toBe('UL-83/01');
+    expect(parseCitation('Uradni list RS, št. 83/2001', db)).toMatchObject({ document_id: 'ZAKO1263', uradni_list_ref: '83/2001' });
+    expect(validateCitation(db, 'Uradni list RS, št. 40/2007').document_title).toBe('Obligacijski zakonik');
+
+    const result = validateCitation(db, 'Ur. l. RS, št. 40/07');
+    expect(result.document_exists).toBe(true);
+    expect(result.document_title).toBe('Obligacijski zakonik');
+    expect(formatCitation('Ur. l. RS, št. 40/07', 'full', db)).toBe('Uradni list RS, št. 40/07 (Obligacijski zakonik – OZ-A)');
+  });
+
+  it('lists every statute of a shared issue and flags unknown issues', () => {
+    const shared = validateCitation(db, 'Uradni list RS, št. 163/22');
+    expect(shared.citation.document_id).toBe('ZAKO7959');
+    expect(shared.gazette_publications?.map(p => [p.document_id, p.publication_type])).toEqual([
+      ['ZAKO7959', 'original'],
+      ['ZAKO1263', 'correction'],
+    ]);
+    expect(formatCitation('Uradni list RS, št. 163/22', 'full', db))
+      .toBe('Uradni list RS, št. 163/22 (Zakon o varstvu osebnih podatkov; Obligacijski zakonik – popr.)');
+
+    const unknown = validateCitation(db, 'Uradni list RS, št. 1/99');
+    expect(unknown.document_exists).toBe(false);
+    expect(unknown.warnings).toEqual(['Uradni list RS, št. 1/99 ni v indeksu Uradnega lista v bazi']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { getCrossReferences } from '../src/tools/get-cross-references.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with a small ZDR-1 / ZUTD / ZPIZ-2 reference graph. */
+function createGraphDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL);
+    CREATE TABLE cross_references (
+      id INTEGER PRIMARY KEY,
+      source_document_id TEXT NOT NULL,
+      source_provision_ref TEXT,
+      target_document_id TEXT NOT NULL,
+      target_provision_ref TEXT,
+      ref_type TEXT NOT NULL DEFAULT 'references'
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO5944', 'Zakon o delovnih razmerjih (ZDR-1)'),
+      ('ZAKO5840', 'Zakon o urejanju trga dela (ZUTD)'),
+      ('ZAKO6280', 'Zakon o pokojninskem in invalidskem zavarovanju (ZPIZ-2)');
+    INSERT INTO cross_references (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type) VALUES
+      ('ZAKO5840', '12', 'ZAKO5944', '37', 'references'),
+      ('ZAKO6280', '4', 'ZAKO5840', '12', 'references'),
+      ('ZAKO5944', '37', 'ZAKO6280', '4', 'see_also'),
+      ('ZAKO5944', '38', 'ZAKO5840', '1', 'references'),
+      ('ZAKO6280', '1', 'ZAKO5944', NULL, 'implements');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('getCrossReferences', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createGraphDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('returns direct inbound and outbound edges grouped by ref_type', async () => {
+    const { results } = await getCrossReferences(db, { document_id: 'ZAKO5944', provision_ref: '37' });
+
+    expect(results.outbound.see_also).toHaveLength(1);
+    expect(results.outbound.see_also[0].target_provision_ref).toBe('4');
+    expect(results.outbound.references).toHaveLength(0);
+
+    // Provision-level reference plus a whole-statute reference
+    expect(results.inbound.references).toHaveLength(1);
+    expect(results.inbound.references[0].source_document_title).toBe('Zakon o urejanju trga dela (ZUTD)');
+    expect(results.inbound.implements).toHaveLength(1);
+    expect(results.statistics.inbound_count).toBe(2);
+  });
+
+  it('accepts the provision as cited, "37. člen" or "čl. 37"', async () => {
+    for (const provisionRef of ['37. člen', 'čl. 37', ' 37. ']) {
+      const { results } = await getCrossReferences(db, { document_id: 'ZAKO5944', provision_ref: provisionRef });
+      expect(results.provision_ref).toBe('37');
+      expect(results.statistics.outbound_count).toBe(1);
+    }
+  });
+
+  it('walks the graph N hops and records the hop distance', async () => {
+    const { results } = await getCrossReferences(db, { document_id: 'ZAKO5944', provision_ref: '37', depth: 2 });
+
+    const inboundHops = results.inbound.references.map(e => [e.source_document_id, e.hop]);
+    expect(inboundHops).toContainEqual(['ZAKO5840', 1]);
+    expect(inboundHops).toContainEqual(['ZAKO6280', 2]);
+  });
+
+  it('does not revisit nodes when the graph has cycles', async () => {
+    const { results } = await getCrossReferences(db, { document_id: 'ZAKO5944', provision_ref: '37', depth: 3 });
+    expect(results.statistics.truncated).toBe(false);
+    expect(results.statistics.outbound_count).toBe(3);
+  });
+
+  it('filters by ref_types', async () => {
+    const { results } = await getCrossReferences(db, {
+      document_id: 'ZAKO5944',
+      provision_ref: '37',
+      ref_types: ['implements'],
+    });
+    expect(results.statistics.outbound_count).toBe(0);
+    expect(results.statistics.inbound_count).toBe(1);
+  });
+
+  it('throws DOCUMENT_NOT_FOUND for unknown documents', async () => {
+    await expect(getCrossReferences(db, { document_id: 'DOES-NOT-EXIST' })).rejects.toMatchObject({
+      code: 'DOCUMENT_NOT_FOUND',
+      info: { details: { document_id: 'DOES-NOT-EXIST' } },
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { buildThesaurus, expandQueryTerms, getLegalThesaurus } from '../src/utils/legal-thesaurus.js';
+import { buildFtsQueryVariants } from '../src/utils/fts-query.js';
+
+describe('expandQueryTerms', () => {
+  const thesaurus = getLegalThesaurus();
+
+  it('matches the longest English phrase and singularises plurals', () => {
+    expect(expandQueryTerms('employment contracts', thesaurus)).toEqual([
+      { kind: 'match', match: { term: 'employment contracts', sl: ['pogodba o zaposlitvi'], related: ['delovno razmerje'] } },
+    ]);
+  });
+
+  it('expands data-protection roles to their full Slovenian terms', () => {
+    expect(expandQueryTerms('data controller', thesaurus)).toEqual([{
+      kind: 'match',
+      match: { term: 'data controller', sl: ['upravljavec osebnih podatkov'], related: ['upravljavec', 'obdelava osebnih podatkov'] },
+    }]);
+    expect(expandQueryTerms('controller', thesaurus)?.[0]).toMatchObject({ match: { sl: ['upravljavec'] } });
+  });
+
+  it('leaves Slovenian queries untouched', () => {
+    expect(expandQueryTerms('pogodba o zaposlitvi', thesaurus)).toBeNull();
+  });
+
+  it('adds definitions.term_en pairs from the database', () => {
+    const db = new Database(':memory:');
+    db.exec(`CREATE TABLE definitions (term TEXT, term_en TEXT)`);
+    db.prepare('INSERT INTO definitions VALUES (?, ?)').run('psevdonimizacija', 'pseudonymisation');
+    const segments = expandQueryTerms('pseudonymisation', getLegalThesaurus(db));
+    db.close();
+    expect(segments?.[0]).toMatchObject({ kind: 'match', match: { sl: ['psevdonimizacija'] } });
+  });
+});
+
+describe('buildFtsQueryVariants with a thesaurus', () => {
+  const thesaurus = buildThesaurus([
+    { en: ['controller'], sl: ['upravljavec'] },
+    { en: ['annual leave'], sl: ['letni dopust'], related: ['dopust'] },
+  ]);
+
+  it('rewrites English terms into Slovenian FTS queries', () => {
+    expect(buildFtsQueryVariants('controller annual leave', { thesaurus }).expansion).toEqual({
+      primary: 'upravljavec* AND (letni* AND dopust*)',
+      fallback: 'upravljavec* OR ((letni* AND dopust*) OR dopust*)',
+      terms: { controller: ['upravljavec'], 'annual leave': ['letni dopust'] },
+    });
+  });
+
+  it('stems expanded terms for the stemmed index', () => {
+    expect(buildFtsQueryVariants('controller', { thesaurus, stem: true }).expansion?.primary).toBe('upravljavc');
+  });
+});
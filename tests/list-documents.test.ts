@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { listDocuments } from '../src/tools/list-documents.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with the Constitution, three statutes and a court decision. */
+function createListingDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT NOT NULL, title TEXT NOT NULL, title_en TEXT, short_name TEXT,
+      status TEXT NOT NULL, issued_date TEXT, in_force_date TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE legal_provisions (id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL);
+    INSERT INTO legal_documents VALUES
+      ('USTA1', 'constitutional', 'Ustava Republike Slovenije (URS)', 'Constitution', 'URS', 'in_force', '1991-12-28', '1991-12-23', 'https://pisrs.si/pregledPredpisa?id=USTA1'),
+      ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', NULL, 'ZVOP-2', 'in_force', '2022-12-15', '2023-01-26', 'https://pisrs.si/pregledPredpisa?id=ZAKO7959'),
+      ('ZAKO1212', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-1)', NULL, 'ZVOP-1', 'repealed', '2004-07-15', '2004-08-01', NULL),
+      ('ZAKO5944', 'statute', 'Zakon o delovnih razmerjih (ZDR-1)', NULL, 'ZDR-1', 'in_force', '2013-03-05', '2013-04-12', NULL),
+      ('VSRS-II-Ips-45-2019', 'case_law', 'Sklep II Ips 45/2019', NULL, NULL, 'in_force', NULL, NULL, NULL);
+    INSERT INTO document_aliases VALUES
+      ('URS', 'USTA1', 'short_name'), ('ustava-republike-slovenije', 'USTA1', 'slug'),
+      ('Ustava', 'USTA1', 'legacy'), ('Ustava-RS', 'USTA1', 'legacy'),
+      ('ZVOP-2', 'ZAKO7959', 'short_name'), ('zakon-o-varstvu-osebnih-podatkov', 'ZAKO7959', 'slug'),
+      ('ZVOP-1', 'ZAKO1212', 'short_name'),
+      ('ZDR-1', 'ZAKO5944', 'short_name'), ('zakon-o-delovnih-razmerjih', 'ZAKO5944', 'slug');
+    INSERT INTO legal_provisions (document_id, provision_ref) VALUES
+      ('ZAKO7959', '1'), ('ZAKO7959', '2'), ('ZAKO5944', '1');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('listDocuments', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createListingDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('lists documents by title with provision counts and their registered aliases', async () => {
+    const { results } = await listDocuments(db, {});
+
+    expect(results.total).toBe(5);
+    expect(results.documents.map(doc => doc.document_id)).toEqual([
+      'VSRS-II-Ips-45-2019', 'USTA1', 'ZAKO5944', 'ZAKO1212', 'ZAKO7959',
+    ]);
+    expect(results.documents[1].aliases).toEqual({
+      short_name: 'URS', pis_id: 'USTA1', slug: 'ustava-republike-slovenije', legacy: ['Ustava', 'Ustava-RS'],
+    });
+    expect(results.documents[4]).toMatchObject({ provision_count: 2, aliases: { short_name: 'ZVOP-2', legacy: [] } });
+    expect(results.documents[0].aliases).toEqual({
+      short_name: null, pis_id: null, slug: 'sklep-ii-ips-45-2019', legacy: [],
+    });
+  });
+
+  it('counts each facet with every filter but its own', async () => {
+    const { results } = await listDocuments(db, { type: 'statute', status: 'in_force' });
+
+    expect(results.documents.map(doc => doc.document_id)).toEqual(['ZAKO5944', 'ZAKO7959']);
+    expect(results.facets).toEqual({
+      type: { case_law: 1, constitutional: 1, statute: 2 },
+      status: { in_force: 2, repealed: 1 },
+      issued_year: { 2013: 1, 2022: 1 },
+    });
+  });
+
+  it('filters by date ranges and by a title or short-name prefix', async () => {
+    const issued = await listDocuments(db, { issued_from: '2000-01-01', in_force_to: '2020-12-31' });
+    expect(issued.results.documents.map(doc => doc.document_id)).toEqual(['ZAKO5944', 'ZAKO1212']);
+
+    const byTitle = await listDocuments(db, { title_prefix: 'zakon o varstvu' });
+    expect(byTitle.results.total).toBe(2);
+    const byShortName = await listDocuments(db, { title_prefix: 'ZDR' });
+    expect(byShortName.results.documents.map(doc => doc.document_id)).toEqual(['ZAKO5944']);
+  });
+
+  it('pages with a cursor until next_cursor is null', async () => {
+    const first = await listDocuments(db, { limit: 2 });
+    expect(first.results.documents.map(doc => doc.document_id)).toEqual(['VSRS-II-Ips-45-2019', 'USTA1']);
+    expect(first.results.next_cursor).not.toBeNull();
+
+    const second = await listDocuments(db, { limit: 2, cursor: first.results.next_cursor! });
+    expect(second.results.documents.map(doc => doc.document_id)).toEqual(['ZAKO5944', 'ZAKO1212']);
+
+    const last = await listDocuments(db, { limit: 2, cursor: second.results.next_cursor! });
+    expect(last.results.documents.map(doc => doc.document_id)).toEqual(['ZAKO7959']);
+    expect(last.results.next_cursor).toBeNull();
+    expect(last.results.total).toBe(5);
+  });
+
+  it('returns no documents for filters nothing matches and rejects bad cursors and dates', async () => {
+    const { results } = await listDocuments(db, { title_prefix: 'Kazenski' });
+    expect(results).toMatchObject({ documents: [], total: 0, next_cursor: null });
+
+    await expect(listDocuments(db, { cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: 'INVALID_ARGUMENTS' });
+    await expect(listDocuments(db, { issued_from: '2020-13-01' })).rejects.toMatchObject({ code: 'INVALID_DATE' });
+  });
+});
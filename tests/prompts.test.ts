@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { PROMPTS, getPrompt, registerPrompts } from '../src/prompts/registry.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function promptText(name: string, args: Record<string, string>): string {
+  const { messages } = getPrompt(name, args);
+  return (messages[0].content as { text: string }).text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('prompts', () => {
+  it('fills the arguments into the tool sequence', () => {
+    const text = promptText('casovni_pregled_clena', { document_id: 'ZDR-1', article: '148', from_date: '2013-04-12' });
+
+    expect(text).toContain('Pripravi časovni pregled 148. člena ZDR-1 v obdobju od 2013-04-12.');
+    expect(text).toContain('2. get_amendment_history (document_id: "ZDR-1", provision_ref: "148", from_date: "2013-04-12")');
+    expect(text.indexOf('check_currency')).toBeLessThan(text.indexOf('get_provision_at_date'));
+    expect(text.indexOf('get_provision_at_date')).toBeLessThan(text.indexOf('search_case_law'));
+  });
+
+  it('leaves out steps and scope for omitted optional arguments', () => {
+    const text = promptText('pravno_stalisce', { question: 'Ali je odpoved med bolniško dopustna?' });
+
+    expect(text).toContain('1. build_legal_stance (query: vprašanje) –');
+    expect(text).not.toContain('Osredotoči se');
+    expect(text).not.toContain('undefined');
+  });
+
+  it('rejects unknown prompts and missing required arguments', () => {
+    expect(() => getPrompt('povzetek', {})).toThrow(/Unknown prompt "povzetek"/);
+    expect(() => getPrompt('analiza_skladnosti_gdpr', { provision_ref: '6' })).toThrow(
+      /Missing required arguments for analiza_skladnosti_gdpr: document_id/,
+    );
+  });
+
+  it('lists and serves prompts over MCP', async () => {
+    const server = new Server({ name: 'slovenian-law-test', version: '0.0.0' }, { capabilities: { prompts: {} } });
+    registerPrompts(server);
+    const client = new Client({ name: 'test-client', version: '0.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(PROMPTS.map(p => p.name));
+
+    const result = await client.getPrompt({ name: 'preveri_citate', arguments: { text: 'Po 131. členu OZ ...' } });
+    expect((result.messages[0].content as { text: string }).text).toContain('"""\nPo 131. členu OZ ...\n"""');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { readResource } from '../src/resources/registry.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB with ZDR-1 (current text and versions) and one decision. */
+function createResourceDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (
+      id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT NOT NULL,
+      in_force_date TEXT, url TEXT
+    );
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    CREATE TABLE legal_provisions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT, article TEXT NOT NULL, title TEXT, content TEXT NOT NULL
+    );
+    CREATE TABLE legal_provision_versions (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, provision_ref TEXT NOT NULL,
+      chapter TEXT, section TEXT, article TEXT NOT NULL, title TEXT, content TEXT NOT NULL,
+      valid_from TEXT, valid_to TEXT
+    );
+    CREATE TABLE case_law (
+      id INTEGER PRIMARY KEY, document_id TEXT NOT NULL, court TEXT NOT NULL, ecli TEXT, case_number TEXT,
+      decision_date TEXT, procedure_type TEXT, legal_domain TEXT, summary TEXT, keywords TEXT
+    );
+    INSERT INTO legal_documents VALUES
+      ('ZAKO5944', 'statute', 'Zakon o delovnih razmerjih', 'ZDR-1', 'in_force', '2013-04-12', NULL),
+      ('VSRS-II-Ips-45-2019', 'case_law', 'Sklep II Ips 45/2019', NULL, 'in_force', NULL, 'https://www.sodnapraksa.si/?id=1');
+    INSERT INTO document_aliases VALUES ('ZDR-1', 'ZAKO5944', 'short_name');
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, article, title, content) VALUES
+      ('ZAKO5944', '1', 'I. SPLOŠNE DOLOČBE', '1', 'Vsebina zakona', 'Spremenjeno besedilo.'),
+      ('ZAKO5944', '2.a', 'I. SPLOŠNE DOLOČBE', '2.a', NULL, 'Dodani člen.');
+    INSERT INTO legal_provision_versions (document_id, provision_ref, chapter, article, title, content, valid_from, valid_to) VALUES
+      ('ZAKO5944', '1', 'I. SPLOŠNE DOLOČBE', '1', 'Vsebina zakona', 'Prvotno besedilo.', '2013-04-12', '2016-01-01'),
+      ('ZAKO5944', '1', 'I. SPLOŠNE DOLOČBE', '1', 'Vsebina zakona', 'Spremenjeno besedilo.', '2016-01-01', NULL),
+      ('ZAKO5944', '2.a', 'I. SPLOŠNE DOLOČBE', '2.a', NULL, 'Dodani člen.', '2018-01-01', NULL);
+    INSERT INTO case_law (document_id, court, ecli, case_number, decision_date, summary) VALUES
+      ('VSRS-II-Ips-45-2019', 'VSRS', 'ECLI:SI:VSRS:2020:II.IPS.45.2019', 'II Ips 45/2019', '2020-03-12', 'Odškodnina za nepremoženjsko škodo.');
+  `);
+  return db;
+}
+
+async function readText(db: InstanceType<typeof Database>, uri: string): Promise<string> {
+  const { contents } = await readResource(db, uri);
+  return (contents[0] as { text: string }).text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('resource templates', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = createResourceDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('reads a statute, a člen and the statute at a date', async () => {
+    expect(await readText(db, 'si-law://statute/ZDR-1')).toBe(
+      'Zakon o delovnih razmerjih (ZDR-1)\n\nI. SPLOŠNE DOLOČBE\n\nVsebina zakona\n1. člen\nSpremenjeno besedilo.\n\n2.a člen\nDodani člen.',
+    );
+    expect(await readText(db, 'si-law://statute/ZAKO5944/clen/2a')).toContain('2.a člen\nDodani člen.');
+    expect(await readText(db, 'si-law://statute/ZDR-1@2015-01-01')).toBe(
+      'Zakon o delovnih razmerjih (ZDR-1)\n[Text as in force on 2015-01-01]\n\nI. SPLOŠNE DOLOČBE\n\n'
+      + 'Vsebina zakona\n1. člen\nPrvotno besedilo.\n\n2.a člen\n[Not yet in force on 2015-01-01; applies from 2018-01-01]',
+    );
+  });
+
+  it('says when the statute was not yet in force at the date', async () => {
+    expect(await readText(db, 'si-law://statute/ZDR-1@2010-01-01')).toMatch(
+      /^Zakon o delovnih razmerjih \(ZDR-1\)\n\[Text as in force on 2010-01-01\]\n\[ZAKO5944 entered into force on 2013-04-12, after 2010-01-01\]\n\n/,
+    );
+  });
+
+  it('reads a decision by a percent-encoded ECLI', async () => {
+    const text = await readText(db, 'si-law://case/ECLI%3ASI%3AVSRS%3A2020%3AII.IPS.45.2019');
+    expect(text).toBe(
+      'Sklep II Ips 45/2019\nECLI: ECLI:SI:VSRS:2020:II.IPS.45.2019\nCourt: VSRS\nCase number: II Ips 45/2019\n'
+      + 'Decision date: 2020-03-12\nSource: https://www.sodnapraksa.si/?id=1\n\nOdškodnina za nepremoženjsko škodo.',
+    );
+  });
+
+  it('answers unknown documents, členi and URIs with resource not found', async () => {
+    await expect(readResource(db, 'si-law://statute/ZXY')).rejects.toMatchObject({ code: -32002 });
+    await expect(readResource(db, 'si-law://statute/ZDR-1/clen/99')).rejects.toMatchObject({ code: -32002 });
+    await expect(readResource(db, 'si-law://unknown/1')).rejects.toMatchObject({ code: -32002 });
+  });
+});
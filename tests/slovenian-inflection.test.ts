@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { formatCitation } from '../src/citation/formatter.js';
+import { inflectTitle, inflectUnit } from '../src/utils/slovenian-inflection.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Create an in-memory DB registering ZKP and ZVOP-2. */
+function createStatuteDb(): InstanceType<typeof Database> {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE legal_documents (id TEXT PRIMARY KEY, title TEXT NOT NULL, status TEXT);
+    CREATE TABLE document_aliases (alias TEXT NOT NULL COLLATE NOCASE, document_id TEXT NOT NULL, alias_type TEXT NOT NULL);
+    INSERT INTO legal_documents VALUES
+      ('ZAKO362', 'Zakon o kazenskem postopku (ZKP)', 'in_force'),
+      ('ZAKO7959', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'in_force');
+    INSERT INTO document_aliases VALUES ('ZKP', 'ZAKO362', 'short_name'), ('ZVOP-2', 'ZAKO7959', 'short_name');
+  `);
+  return db;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('inflectTitle', () => {
+  it('declines the head noun and the adjectives before it', () => {
+    expect(inflectTitle('Obligacijski zakonik', 'rodilnik')).toBe('Obligacijskega zakonika');
+    expect(inflectTitle('Zakon o kazenskem postopku', 'orodnik')).toBe('Zakonom o kazenskem postopku');
+    expect(inflectTitle('Ustava Republike Slovenije', 'tožilnik')).toBe('Ustavo Republike Slovenije');
+    expect(inflectTitle('Splošna uredba o varstvu podatkov', 'mestnik')).toBe('Splošni uredbi o varstvu podatkov');
+  });
+
+  it('keeps the fleeting e of odstavek only where the ending is empty', () => {
+    expect((['imenovalnik', 'rodilnik', 'orodnik'] as const).map(c => inflectUnit('odstavek', c)))
+      .toEqual(['odstavek', 'odstavka', 'odstavkom']);
+  });
+});
+
+describe('formatCitation with a grammatical case', () => {
+  it('inflects the unit cited and puts the rest in rodilnik', () => {
+    const db = createStatuteDb();
+    expect(formatCitation('6. člen ZKP', 'full', db, 'orodnik'))
+      .toBe('6. členom Zakona o kazenskem postopku (ZKP)');
+    expect(formatCitation('ZVOP-2, 6. člen, 1. odstavek, 3. točka', 'short', db, 'dajalnik'))
+      .toBe('3. točki 1. odstavka 6. člena ZVOP-2');
+    expect(formatCitation('15. do 17. člen ZKP', 'pinpoint', db, 'rodilnik')).toBe('15. do 17. člena');
+    db.close();
+  });
+});
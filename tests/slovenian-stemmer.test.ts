@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { stemSlovenian, stemText } from '../src/utils/slovenian-stemmer.js';
+import { buildFtsQueryVariants } from '../src/utils/fts-query.js';
+
+describe('stemSlovenian', () => {
+  it('reduces case and number forms to one stem', () => {
+    const forms = ['pogodba', 'pogodbe', 'pogodbi', 'pogodbo', 'pogodbah', 'pogodbami'];
+    expect(new Set(forms.map(stemSlovenian))).toEqual(new Set(['pogodb']));
+  });
+
+  it('normalises velar palatalisation and the fleeting e', () => {
+    expect(stemSlovenian('otroci')).toBe(stemSlovenian('otrok'));
+    expect(stemSlovenian('delavca')).toBe(stemSlovenian('delavec'));
+    expect(stemSlovenian('podatkov')).toBe(stemSlovenian('podatek'));
+  });
+
+  it('leaves short words and numbers alone', () => {
+    expect(stemSlovenian('in')).toBe('in');
+    expect(stemSlovenian('2016')).toBe('2016');
+  });
+});
+
+describe('stemText', () => {
+  it('keeps one stem per token so FTS positions stay aligned', () => {
+    const text = '(1) Pogodba o zaposlitvi se sklene v pisni obliki.';
+    expect(stemText(text)!.split(' ')).toHaveLength(text.match(/[\p{L}\p{N}]+/gu)!.length);
+  });
+});
+
+describe('buildFtsQueryVariants with stemming', () => {
+  it('builds exact-stem AND and OR queries', () => {
+    expect(buildFtsQueryVariants('pogodbi delavca', { stem: true })).toEqual({
+      primary: 'pogodb delavc',
+      fallback: 'pogodb OR delavc',
+    });
+  });
+
+  it('does not stem explicit FTS syntax', () => {
+    expect(buildFtsQueryVariants('"pogodba o zaposlitvi"', { stem: true }).primary).toBe('');
+  });
+});
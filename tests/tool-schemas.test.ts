@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from '@ansvar/mcp-sqlite';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { TOOLS, registerTools } from '../src/tools/registry.js';
+import { validateAgainstSchema, type JsonSchema } from '../src/utils/json-schema.js';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+function inputSchema(name: string): JsonSchema {
+  return TOOLS.find(t => t.name === name)!.inputSchema as JsonSchema;
+}
+
+/** Connect a client to a server over the registry; listTools makes the client check structuredContent */
+async function connectClient(db: InstanceType<typeof Database>): Promise<Client> {
+  const server = new Server({ name: 'slovenian-law-test', version: '0.0.0' }, { capabilities: { tools: {} } });
+  registerTools(server, db);
+  const client = new Client({ name: 'test-client', version: '0.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  await client.listTools();
+  return client;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tests
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe('validateAgainstSchema', () => {
+  it('reports every violation with its field', () => {
+    expect(validateAgainstSchema(inputSchema('search_legislation'), { limit: 'abc', mode: 'fuzzy', page: 2 })).toEqual([
+      { field: 'query', message: 'is required' },
+      { field: 'limit', message: 'must be a number' },
+      { field: 'mode', message: 'must be one of: keyword, hybrid' },
+      { field: 'page', message: 'is not a recognised argument (expected query, document_id, status, as_of_date, limit, mode)' },
+    ]);
+    expect(validateAgainstSchema(inputSchema('extract_citations'), { text: 'x', kinds: ['statute', 'law'], limit: 0 })).toEqual([
+      { field: 'kinds[1]', message: 'must be one of: statute, uradni_list, ecli, constitutional_court, eu_act' },
+      { field: 'limit', message: 'must be at least 1' },
+    ]);
+    expect(validateAgainstSchema(inputSchema('get_provision'), { document_id: 'OZ', article: '131' })).toEqual([]);
+  });
+
+  it('closes every input schema and declares an output schema for every tool', () => {
+    for (const tool of TOOLS) {
+      expect(tool.inputSchema.additionalProperties, tool.name).toBe(false);
+      expect(tool.outputSchema?.type, tool.name).toBe('object');
+    }
+  });
+});
+
+describe('registerTools', () => {
+  let db: InstanceType<typeof Database>;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('rejects invalid arguments before running the tool', async () => {
+    const client = await connectClient(db);
+    const result = await client.callTool({ name: 'search_case_law', arguments: { court: 'VSS', limit: 100 } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const body = JSON.parse((result.content as Array<{ text: string }>)[0].text);
+    expect(body.error).toEqual({
+      code: 'INVALID_ARGUMENTS',
+      message: 'Invalid arguments for search_case_law: court must be one of: USRS, VSRS, VSL, VSM, VSK, VSC, UPRS, VDSS; limit must be at most 50',
+      message_sl: 'Neveljavni argumenti za search_case_law: court, limit',
+      details: {
+        tool: 'search_case_law',
+        violations: [
+          { field: 'court', message: 'must be one of: USRS, VSRS, VSL, VSM, VSK, VSC, UPRS, VDSS' },
+          { field: 'limit', message: 'must be at most 50' },
+        ],
+      },
+    });
+    expect(body._metadata.errors).toEqual([body.error]);
+  });
+
+  it('reports the resolved statute and refuses ambiguous references', async () => {
+    db.exec(`
+      CREATE TABLE legal_documents (
+        id TEXT PRIMARY KEY, type TEXT, title TEXT NOT NULL, short_name TEXT, status TEXT, in_force_date TEXT, description TEXT
+      );
+      INSERT INTO legal_documents VALUES
+        ('ZAKO7959', 'statute', 'Zakon o varstvu osebnih podatkov (ZVOP-2)', 'ZVOP-2', 'in_force', '2023-01-26', NULL),
+        ('ZAKO8286', 'statute', 'Zakon o varstvu okolja (ZVO-2)', 'ZVO-2', 'in_force', '2022-02-19', NULL);
+    `);
+    const client = await connectClient(db);
+
+    const resolved = await client.callTool({ name: 'check_currency', arguments: { document_id: 'varstvu osebnih' } });
+    expect(resolved.structuredContent).toMatchObject({
+      results: { document_id: 'ZAKO7959', status: 'in_force' },
+      _metadata: {
+        resolved_document: { argument: 'document_id', reference: 'varstvu osebnih', document_id: 'ZAKO7959', match: 'title_contains' },
+      },
+    });
+
+    const ambiguous = await client.callTool({ name: 'check_currency', arguments: { document_id: 'zakon o varstvu' } });
+    expect(ambiguous.isError).toBe(true);
+    const { error } = JSON.parse((ambiguous.content as Array<{ text: string }>)[0].text);
+    expect(error.code).toBe('AMBIGUOUS_REFERENCE');
+    expect(error.message).toBe('Ambiguous document reference "zakon o varstvu": could be ZVO-2, ZVOP-2');
+    expect(error.details.candidates.map((c: { short_name: string }) => c.short_name)).toEqual(['ZVO-2', 'ZVOP-2']);
+
+    const unknown = await client.callTool({ name: 'get_provision', arguments: { document_id: 'ZNEOBSTAJA', article: '1' } });
+    expect(JSON.parse((unknown.content as Array<{ text: string }>)[0].text).error).toMatchObject({
+      code: 'DOCUMENT_NOT_FOUND',
+      message_sl: 'Dokument "ZNEOBSTAJA" ni najden v bazi podatkov',
+      details: { document_id: 'ZNEOBSTAJA' },
+    });
+  });
+
+  it('returns structuredContent matching the declared output schema', async () => {
+    const client = await connectClient(db);
+    const result = await client.callTool({ name: 'format_citation', arguments: { citation: 'Direktiva 95/46/ES', format: 'eu' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      results: { original: 'Direktiva 95/46/ES', formatted: 'Directive 95/46/EC', format_used: 'eu' },
+    });
+  });
+});
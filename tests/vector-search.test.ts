@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { embedText, trainVectorModel } from '../src/utils/vector-model.js';
+import { fuseRankings } from '../src/utils/vector-search.js';
+
+const CORPUS = [
+  'Delodajalec mora delavcu izplačati plačo za opravljeno delo.',
+  'Delavec ima pravico do plače in letnega dopusta pri delodajalcu.',
+  'Delodajalec delavcu določi delovni čas in letni dopust.',
+  'Oporoka je veljavna, če jo oporočitelj lastnoročno napiše in podpiše.',
+  'Dedič pridobi zapuščino ob smrti zapustnika, oporoka določi dediče.',
+  'Zapustnik lahko z oporoko razpolaga s svojim premoženjem za primer smrti.',
+];
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe('trainVectorModel', () => {
+  const { model, vectors } = trainVectorModel(CORPUS, 2);
+
+  it('embeds every text with known stems as a unit vector', () => {
+    expect(vectors.every(v => v !== null)).toBe(true);
+    expect(cosine(vectors[0]!, vectors[0]!)).toBeCloseTo(1, 5);
+  });
+
+  it('places a query near texts on the same topic', () => {
+    const query = embedText('plača delavca', model)!;
+    const employment = Math.min(...vectors.slice(0, 3).map(v => cosine(query, v!)));
+    const succession = Math.max(...vectors.slice(3).map(v => cosine(query, v!)));
+    expect(employment).toBeGreaterThan(succession);
+  });
+
+  it('returns null for text outside the vocabulary', () => {
+    expect(embedText('blockchain', model)).toBeNull();
+  });
+});
+
+describe('fuseRankings', () => {
+  it('ranks items found by both retrievers first and records their sources', () => {
+    const fused = fuseRankings([['a', 'b', 'c'], ['c', 'd']], item => item);
+    expect(fused[0]).toMatchObject({ item: 'c', sources: [0, 1] });
+    expect(fused.map(f => f.item)).toEqual(['c', 'a', 'b', 'd']);
+  });
+});